@@ -0,0 +1,116 @@
+import { DEFAULT_NAMESPACE, type ArchivedMemory, type Memory, type MemoryCategory, type Metadata } from './types.js';
+
+// ── Memory archives ───────────────────────────────────────────────
+//
+// JSONL format: the first line is a header identifying the format and
+// version, every following line is one ArchivedMemory. Line-oriented so
+// large archives can be diffed, grepped, and concatenated by hand.
+
+export const ARCHIVE_FORMAT = 'agent-memory-archive';
+export const ARCHIVE_VERSION = 1;
+
+export interface ArchiveHeader {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  count: number;
+}
+
+export function serialiseArchive(memories: ArchivedMemory[]): string {
+  const header: ArchiveHeader = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    count: memories.length,
+  };
+  const lines = [header, ...memories].map(entry => JSON.stringify(entry));
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parse a JSONL archive. Throws on a missing or unsupported header, or on
+ * any malformed line — a partial import is worse than none.
+ */
+export function parseArchive(text: string): ArchivedMemory[] {
+  const lines = text.split('\n').filter(line => line.trim().length > 0);
+  if (lines.length === 0) throw new Error('Archive is empty');
+
+  const header = parseLine(lines[0], 1) as Partial<ArchiveHeader>;
+  if (header.format !== ARCHIVE_FORMAT) {
+    throw new Error(`Not an ${ARCHIVE_FORMAT} file (line 1)`);
+  }
+  if (header.version !== ARCHIVE_VERSION) {
+    throw new Error(`Unsupported archive version ${String(header.version)} (expected ${ARCHIVE_VERSION})`);
+  }
+
+  return lines.slice(1).map((line, i) => toArchivedMemory(parseLine(line, i + 2), i + 2));
+}
+
+/**
+ * Validate an untrusted object as an ArchivedMemory, filling defaults for
+ * the access-tracking fields. Also accepts plain Memory objects (e.g. a
+ * hardcopy file), which is why namespace, metadata and accessCount are
+ * optional.
+ */
+export function toArchivedMemory(value: unknown, line?: number): ArchivedMemory {
+  const where = line != null ? ` (line ${line})` : '';
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`Expected a memory object${where}`);
+  }
+  const v = value as Record<string, unknown>;
+
+  for (const field of ['id', 'content', 'category', 'createdAt', 'updatedAt']) {
+    if (typeof v[field] !== 'string' || (v[field] as string).length === 0) {
+      throw new Error(`Missing or invalid "${field}"${where}`);
+    }
+  }
+  if (!Array.isArray(v.tags) || !v.tags.every(t => typeof t === 'string')) {
+    throw new Error(`Missing or invalid "tags"${where}`);
+  }
+  if (v.metadata != null && (typeof v.metadata !== 'object' || Array.isArray(v.metadata))) {
+    throw new Error(`Invalid "metadata"${where}`);
+  }
+  if (v.vector != null && (!Array.isArray(v.vector) || !v.vector.every(x => typeof x === 'number'))) {
+    throw new Error(`Invalid "vector"${where}`);
+  }
+  if (v.deletedAt != null && typeof v.deletedAt !== 'string') {
+    throw new Error(`Invalid "deletedAt"${where}`);
+  }
+
+  return {
+    id: v.id as string,
+    namespace: typeof v.namespace === 'string' && v.namespace ? v.namespace : DEFAULT_NAMESPACE,
+    content: v.content as string,
+    category: v.category as MemoryCategory,
+    tags: v.tags as string[],
+    metadata: (v.metadata as Metadata | undefined) ?? {},
+    createdAt: v.createdAt as string,
+    updatedAt: v.updatedAt as string,
+    accessCount: typeof v.accessCount === 'number' ? v.accessCount : 0,
+    lastAccessedAt: typeof v.lastAccessedAt === 'string' ? v.lastAccessedAt : (v.updatedAt as string),
+    ...(v.vector != null ? { vector: v.vector as number[] } : {}),
+    ...(v.deletedAt ? { deletedAt: v.deletedAt as string } : {}),
+  };
+}
+
+/** Strip archive-only fields, leaving the domain object. */
+export function archivedToMemory(record: ArchivedMemory): Memory {
+  return {
+    id: record.id,
+    namespace: record.namespace,
+    content: record.content,
+    category: record.category,
+    tags: record.tags,
+    metadata: record.metadata,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+}
+
+function parseLine(line: string, lineNumber: number): unknown {
+  try {
+    return JSON.parse(line);
+  } catch {
+    throw new Error(`Invalid JSON on line ${lineNumber}`);
+  }
+}
@@ -0,0 +1,131 @@
+// ── Chunking ──────────────────────────────────────────────────────
+//
+// One vector per memory works for short notes, but a design doc or a
+// session transcript averages into a vector that matches nothing well,
+// and MiniLM only reads the first ~256 word pieces anyway. Content longer
+// than the chunk size is split into overlapping passages, each embedded
+// on its own; the memory's own vector becomes their normalised mean.
+//
+// Cuts prefer paragraph breaks, then line breaks, then sentence ends,
+// then any whitespace, looking back over the second half of the window.
+// Offsets index into the original content, so a passage is always
+// content.slice(start, end).
+
+export interface ChunkingOptions {
+  /** Maximum passage length in characters. Content no longer than this is not split; 0 disables chunking. */
+  size: number;
+  /** Characters repeated at the start of the next passage, so a sentence cut at a boundary is seen whole. */
+  overlap: number;
+}
+
+export interface Chunk {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export const DEFAULT_CHUNKING: ChunkingOptions = { size: 1000, overlap: 150 };
+
+/** Parse MEMORY_CHUNK_SIZE and MEMORY_CHUNK_OVERLAP. Defaults 1000 and 150. */
+export function parseChunking(size: string | undefined, overlap: string | undefined): ChunkingOptions {
+  const parsedSize = parseCount('MEMORY_CHUNK_SIZE', size, DEFAULT_CHUNKING.size);
+  const parsedOverlap = parseCount('MEMORY_CHUNK_OVERLAP', overlap, Math.min(DEFAULT_CHUNKING.overlap, parsedSize));
+  if (parsedSize > 0 && parsedOverlap >= parsedSize / 2) {
+    throw new Error(`MEMORY_CHUNK_OVERLAP (${parsedOverlap}) must be less than half of MEMORY_CHUNK_SIZE (${parsedSize})`);
+  }
+  return { size: parsedSize, overlap: parsedOverlap };
+}
+
+function parseCount(name: string, value: string | undefined, fallback: number): number {
+  if (value == null || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Invalid ${name} "${value}" — expected a whole number of characters`);
+  }
+  return parsed;
+}
+
+/** Whether content is long enough to be stored as passages. */
+export function needsChunking(content: string, options: ChunkingOptions): boolean {
+  return options.size > 0 && content.length > options.size;
+}
+
+/** Split content into passages. Content that needs no chunking comes back as a single passage. */
+export function chunkText(content: string, options: ChunkingOptions): Chunk[] {
+  if (!needsChunking(content, options)) {
+    return [{ text: content, start: 0, end: content.length }];
+  }
+
+  const chunks: Chunk[] = [];
+  let start = skipWhitespace(content, 0);
+  while (start < content.length) {
+    let end = Math.min(start + options.size, content.length);
+    if (end < content.length) end = breakPoint(content, start, end);
+
+    let last = end;
+    while (last > start && /\s/.test(content[last - 1])) last--;
+    chunks.push({ text: content.slice(start, last), start, end: last });
+    if (end >= content.length) break;
+
+    // Step back by the overlap, then forward to the next word so no
+    // passage opens mid-word.
+    let next = Math.max(end - options.overlap, start + 1);
+    const space = content.slice(next, end).search(/\s/);
+    next = space === -1 ? end : next + space;
+    start = skipWhitespace(content, next);
+  }
+  return chunks;
+}
+
+const BREAKS = [/\n[ \t]*\n/g, /\n/g, /[.!?]["')\]]?\s/g, /\s/g];
+
+/** The best place to cut before `end`, searching the second half of the window. */
+function breakPoint(content: string, start: number, end: number): number {
+  const from = start + Math.floor((end - start) / 2);
+  const window = content.slice(from, end);
+  for (const pattern of BREAKS) {
+    let cut = -1;
+    for (const match of window.matchAll(pattern)) cut = match.index + match[0].length;
+    if (cut > 0) return from + cut;
+  }
+  return end;
+}
+
+function skipWhitespace(content: string, from: number): number {
+  let i = from;
+  while (i < content.length && /\s/.test(content[i])) i++;
+  return i;
+}
+
+/** The normalised mean of the passage vectors, used as the memory's own vector. */
+export function centroid(vectors: number[][]): number[] {
+  const sum = new Array<number>(vectors[0].length).fill(0);
+  for (const vector of vectors) {
+    for (let i = 0; i < sum.length; i++) sum[i] += vector[i];
+  }
+  const magnitude = Math.sqrt(sum.reduce((total, v) => total + v * v, 0));
+  return magnitude > 0 ? sum.map(v => v / magnitude) : sum;
+}
+
+/**
+ * Index of the passage sharing the most words with the query, for results
+ * found without a passage vector (keyword search). Ties go to the earlier
+ * passage.
+ */
+export function bestPassageByTerms(chunks: Chunk[], query: string): number {
+  const terms = new Set(words(query));
+  let best = 0;
+  let bestScore = -1;
+  chunks.forEach((chunk, i) => {
+    const score = words(chunk.text).filter(w => terms.has(w)).length;
+    if (score > bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
@@ -0,0 +1,439 @@
+import { parseArgs, type ParseArgsConfig } from 'util';
+import {
+  handleDelete,
+  handleExport,
+  handleGetGraph,
+  handleListRecent,
+  handlePrune,
+  handleSearch,
+  handleStats,
+  handleUpdate,
+} from './tools.js';
+import type {
+  DecayPolicy,
+  Memory,
+  MemoryGraph,
+  MemoryStats,
+  MemoryStore,
+  Metadata,
+  PruneResult,
+  SearchResult,
+} from './types.js';
+
+// ── Command line ──────────────────────────────────────────────────
+//
+// `agent-memory-mcp <command>` runs one operation against the store and
+// exits, for humans inspecting or fixing memory without an agent. Each
+// command goes through the same handler as its MCP tool, so validation
+// and error messages match; the CLI only parses flags and formats the
+// result as a table, or prints the handler's JSON with --json.
+
+export interface CliOutput {
+  out(line: string): void;
+  err(line: string): void;
+}
+
+type Values = Record<string, string | boolean | (string | boolean)[] | undefined>;
+
+interface Command {
+  usage: string;
+  summary: string;
+  options: NonNullable<ParseArgsConfig['options']>;
+  /** Names of the required positional arguments. */
+  args: string[];
+  run(store: MemoryStore, values: Values, args: string[], io: CliOutput): Promise<void>;
+}
+
+const common = {
+  json: { type: 'boolean' },
+  namespace: { type: 'string' },
+} as const;
+
+const COMMANDS: Record<string, Command> = {
+  search: {
+    usage: 'search <query> [--mode hybrid|keyword|semantic] [--category c] [--tag t]... [--limit n] [--min-score s] [--rerank] [--fusion rrf|linear|max] [--keyword-weight w] [--all-namespaces]',
+    summary: 'Search memories',
+    options: {
+      ...common,
+      mode: { type: 'string' },
+      category: { type: 'string' },
+      tag: { type: 'string', multiple: true },
+      limit: { type: 'string' },
+      'min-score': { type: 'string' },
+      rerank: { type: 'boolean' },
+      fusion: { type: 'string' },
+      'keyword-weight': { type: 'string' },
+      'all-namespaces': { type: 'boolean' },
+    },
+    args: ['query'],
+    async run(store, values, [query], io) {
+      const data = await call(handleSearch(store)({
+        query,
+        mode: text(values, 'mode'),
+        namespace: text(values, 'namespace'),
+        all_namespaces: flag(values, 'all-namespaces'),
+        category: text(values, 'category'),
+        tags: values.tag as string[] | undefined,
+        limit: count(values, 'limit'),
+        min_score: number(values, 'min-score'),
+        rerank: flag(values, 'rerank'),
+        fusion: text(values, 'fusion'),
+        keyword_weight: number(values, 'keyword-weight'),
+      }), values, io) as { results: SearchResult[] } | undefined;
+      if (!data) return;
+      if (data.results.length === 0) return io.out('No memories found.');
+      const reranked = data.results.some(r => r.rerankScore !== undefined);
+      io.out(table(
+        ['ID', 'SCORE', ...(reranked ? ['RERANK'] : []), 'CATEGORY', 'TAGS', 'CONTENT'],
+        data.results.map(r => [
+          r.memory.id,
+          r.score.toFixed(3),
+          ...(reranked ? [r.rerankScore?.toFixed(3) ?? '-'] : []),
+          r.memory.category,
+          r.memory.tags.join(','),
+          snippet(r.passage?.text ?? r.memory.content),
+        ]),
+      ));
+    },
+  },
+
+  list: {
+    usage: 'list [--limit n] [--category c]',
+    summary: 'List the most recently created memories',
+    options: { ...common, limit: { type: 'string' }, category: { type: 'string' } },
+    args: [],
+    async run(store, values, _args, io) {
+      const data = await call(handleListRecent(store)({
+        limit: count(values, 'limit'),
+        category: text(values, 'category'),
+        namespace: text(values, 'namespace'),
+      }), values, io) as { memories: Memory[] } | undefined;
+      if (!data) return;
+      if (data.memories.length === 0) return io.out('No memories found.');
+      io.out(table(
+        ['ID', 'CREATED', 'CATEGORY', 'TAGS', 'CONTENT'],
+        data.memories.map(m => [m.id, date(m.createdAt), m.category, m.tags.join(','), snippet(m.content)]),
+      ));
+    },
+  },
+
+  show: {
+    usage: 'show <id>',
+    summary: 'Show one memory in full, with its links',
+    options: { json: common.json },
+    args: ['id'],
+    async run(store, values, [id], io) {
+      const graph = await call(handleGetGraph(store)({ memory_id: id, depth: 1 }), values, io) as MemoryGraph | undefined;
+      if (!graph) return;
+      const nodes = new Map(graph.nodes.map(m => [m.id, m]));
+      io.out(describe(nodes.get(id)!));
+      if (graph.links.length === 0) return;
+      io.out('');
+      io.out('Links:');
+      for (const link of graph.links) {
+        const outgoing = link.sourceId === id;
+        const other = nodes.get(outgoing ? link.targetId : link.sourceId)!;
+        io.out(`  ${outgoing ? '→' : '←'} ${link.relation} ${other.id}  ${snippet(other.content, 50)}`);
+      }
+    },
+  },
+
+  update: {
+    usage: 'update <id> [--content text] [--category c] [--tags a,b] [--metadata json] [--reason text]',
+    summary: 'Edit a memory, keeping the previous version in its history',
+    options: {
+      json: common.json,
+      content: { type: 'string' },
+      category: { type: 'string' },
+      tags: { type: 'string' },
+      metadata: { type: 'string' },
+      reason: { type: 'string' },
+    },
+    args: ['id'],
+    async run(store, values, [id], io) {
+      const tags = text(values, 'tags');
+      const metadata = text(values, 'metadata');
+      const memory = await call(handleUpdate(store)({
+        id,
+        content: text(values, 'content'),
+        category: text(values, 'category'),
+        tags: tags === undefined ? undefined : tags.split(',').map(t => t.trim()).filter(Boolean),
+        metadata: metadata === undefined ? undefined : parseJson(metadata, '--metadata') as Metadata,
+        reason: text(values, 'reason'),
+      }), values, io) as Memory | undefined;
+      if (!memory) return;
+      io.out(`Updated ${memory.id}`);
+      io.out('');
+      io.out(describe(memory));
+    },
+  },
+
+  delete: {
+    usage: 'delete <id>',
+    summary: 'Move a memory to the trash',
+    options: { json: common.json },
+    args: ['id'],
+    async run(store, values, [id], io) {
+      if (await call(handleDelete(store)({ id }), values, io)) {
+        io.out(`Moved ${id} to the trash`);
+      }
+    },
+  },
+
+  stats: {
+    usage: 'stats',
+    summary: 'Show counts by category and namespace, access statistics and the embedding model',
+    options: common,
+    args: [],
+    async run(store, values, _args, io) {
+      const stats = await call(handleStats(store)({ namespace: text(values, 'namespace') }), values, io) as MemoryStats | undefined;
+      if (!stats) return;
+      const lines: [string, string | number][] = [
+        ['Memories', stats.totalMemories],
+        ['In trash', stats.inTrash],
+        ['Oldest', stats.oldestMemory ? date(stats.oldestMemory) : '-'],
+        ['Newest', stats.newestMemory ? date(stats.newestMemory) : '-'],
+        ['Never accessed', stats.neverAccessed],
+        ['Below prune threshold', stats.belowPruneThreshold],
+        ['Average access count', stats.avgAccessCount.toFixed(1)],
+      ];
+      if (stats.embedding) {
+        const { model, dimensions, stale } = stats.embedding;
+        lines.push(['Embedding model', `${model} (${dimensions} dimensions)${stale ? ' — stale, run reembed' : ''}`]);
+      }
+      if (stats.decayPolicy) lines.push(['Decay', describeDecayPolicy(stats.decayPolicy)]);
+      io.out(table([], lines.map(([label, value]) => [`${label}:`, String(value)])));
+      for (const [title, counts] of [['By category', stats.byCategory], ['By namespace', stats.byNamespace]] as const) {
+        io.out('');
+        io.out(`${title}:`);
+        const entries = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+        io.out(table([], entries.map(([name, n]) => [`  ${name}`, String(n)])));
+      }
+    },
+  },
+
+  prune: {
+    usage: 'prune [--apply] [--min-strength n] [--max-dormant-days n] [--all-namespaces]',
+    summary: 'List weak and dormant memories; --apply moves them to the trash',
+    options: {
+      ...common,
+      apply: { type: 'boolean' },
+      'min-strength': { type: 'string' },
+      'max-dormant-days': { type: 'string' },
+      'all-namespaces': { type: 'boolean' },
+    },
+    args: [],
+    async run(store, values, _args, io) {
+      const result = await call(handlePrune(store)({
+        dryRun: !flag(values, 'apply'),
+        minStrength: number(values, 'min-strength') ?? 0.05,
+        maxDormantDays: number(values, 'max-dormant-days') ?? 90,
+        namespace: text(values, 'namespace'),
+        all_namespaces: flag(values, 'all-namespaces'),
+      }), values, io) as PruneResult | undefined;
+      if (!result) return;
+      if (result.candidates.length > 0) {
+        io.out(table(
+          ['ID', 'STRENGTH', 'REASON', 'CONTENT'],
+          result.candidates.map(c => [c.id, c.strength.toFixed(3), c.reason, snippet(c.content)]),
+        ));
+        io.out('');
+      }
+      io.out(result.dryRun
+        ? `${result.candidates.length} of ${result.inspected} memories would be moved to the trash. Run with --apply to prune.`
+        : `Moved ${result.pruned} of ${result.inspected} memories to the trash.`);
+    },
+  },
+
+  export: {
+    usage: 'export [--out file] [--include-vectors] [--include-trash] [--all-namespaces]',
+    summary: 'Write a JSONL archive to a file, or to stdout',
+    options: {
+      namespace: common.namespace,
+      out: { type: 'string' },
+      'include-vectors': { type: 'boolean' },
+      'include-trash': { type: 'boolean' },
+      'all-namespaces': { type: 'boolean' },
+    },
+    args: [],
+    async run(store, values, _args, io) {
+      const path = text(values, 'out');
+      const result = await call(handleExport(store)({
+        path,
+        namespace: text(values, 'namespace'),
+        all_namespaces: flag(values, 'all-namespaces'),
+        // Vectors are opt-in here: they make up most of an archive and are rarely wanted in a terminal.
+        include_vectors: flag(values, 'include-vectors') ?? false,
+        include_trash: flag(values, 'include-trash'),
+      }), {}, io) as { exported: number; archive?: string } | undefined;
+      if (!result) return;
+      // Without --out the archive itself is the output, so it can be piped.
+      if (result.archive !== undefined) {
+        io.out(result.archive.replace(/\n$/, ''));
+      } else {
+        io.err(`Exported ${result.exported} memories to ${path}`);
+      }
+    },
+  },
+};
+
+export const CLI_COMMANDS = Object.keys(COMMANDS);
+
+/** Whether a command-line argument names a CLI command (or asks for help). */
+export function isCliCommand(arg: string | undefined): boolean {
+  return arg !== undefined && (arg in COMMANDS || arg === 'help' || arg === '--help');
+}
+
+/**
+ * Run one CLI command. `argv` starts with the command name. Returns the
+ * process exit code: 0 on success, 1 when the operation failed, 2 for
+ * usage errors.
+ */
+export async function runCli(
+  store: MemoryStore,
+  argv: string[],
+  io: CliOutput = { out: console.log, err: console.error },
+): Promise<number> {
+  const [name, ...rest] = argv;
+  const command = COMMANDS[name];
+  if (!command) {
+    io.out(usage());
+    return name === 'help' || name === '--help' ? 0 : 2;
+  }
+
+  let values: Values;
+  let args: string[];
+  try {
+    ({ values, positionals: args } = parseArgs({ args: rest, options: command.options, allowPositionals: true }));
+    if (args.length !== command.args.length) {
+      throw new Error(`expected ${command.args.map(a => `<${a}>`).join(' ') || 'no arguments'}`);
+    }
+  } catch (err) {
+    io.err(`${name}: ${(err as Error).message}`);
+    io.err(`Usage: agent-memory-mcp ${command.usage}`);
+    return 2;
+  }
+
+  try {
+    await command.run(store, values, args, io);
+    return 0;
+  } catch (err) {
+    io.err((err as Error).message);
+    return 1;
+  }
+}
+
+/** The help text listing every command. */
+export function usage(): string {
+  const width = Math.max(...CLI_COMMANDS.map(c => c.length));
+  return [
+    'Usage: agent-memory-mcp [command] [options]',
+    '',
+    'Without a command, serves MCP over stdio (or HTTP with --http).',
+    '',
+    'Commands:',
+    ...CLI_COMMANDS.map(c => `  ${c.padEnd(width)}  ${COMMANDS[c].summary}`),
+    '',
+    'Every command reads MEMORY_DB_PATH and the other server settings from the environment.',
+    'Add --json for the raw result, and --namespace to pick a namespace where it applies.',
+    '',
+    ...CLI_COMMANDS.map(c => `  agent-memory-mcp ${COMMANDS[c].usage}`),
+  ].join('\n');
+}
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+/**
+ * Unwrap a handler result, throwing its error message. With --json the
+ * handler's JSON is printed as-is and nothing is returned to format.
+ */
+async function call(
+  pending: Promise<{ content: { text: string }[]; isError?: boolean }>,
+  values: Values,
+  io: CliOutput,
+): Promise<unknown> {
+  const result = await pending;
+  const [{ text: body }] = result.content;
+  if (result.isError) throw new Error(body);
+  if (values.json) {
+    io.out(body);
+    return undefined;
+  }
+  return JSON.parse(body);
+}
+
+function text(values: Values, name: string): string | undefined {
+  return values[name] as string | undefined;
+}
+
+function flag(values: Values, name: string): boolean | undefined {
+  return values[name] as boolean | undefined;
+}
+
+function number(values: Values, name: string): number | undefined {
+  const value = text(values, name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed)) throw new Error(`--${name} must be a number, got "${value}"`);
+  return parsed;
+}
+
+function count(values: Values, name: string): number | undefined {
+  const parsed = number(values, name);
+  if (parsed !== undefined && (!Number.isInteger(parsed) || parsed < 1)) {
+    throw new Error(`--${name} must be a positive whole number, got "${text(values, name)}"`);
+  }
+  return parsed;
+}
+
+function parseJson(value: string, option: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`${option} must be JSON, got ${value}`);
+  }
+}
+
+/** Every field of a memory, then its content in full. */
+function describe(memory: Memory): string {
+  const fields = [
+    ['ID:', memory.id],
+    ['Namespace:', memory.namespace],
+    ['Category:', memory.category],
+    ['Tags:', memory.tags.join(', ') || '-'],
+    ['Created:', date(memory.createdAt)],
+    ['Updated:', date(memory.updatedAt)],
+  ];
+  if (Object.keys(memory.metadata).length > 0) fields.push(['Metadata:', JSON.stringify(memory.metadata)]);
+  return `${table([], fields)}\n\n${memory.content}`;
+}
+
+/** Left-aligned columns separated by two spaces; no header row when `headers` is empty. */
+function table(headers: string[], rows: string[][]): string {
+  const all = headers.length > 0 ? [headers, ...rows] : rows;
+  const widths = all[0]?.map((_, i) => Math.max(...all.map(row => row[i].length))) ?? [];
+  return all
+    .map(row => row.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i]))).join('  '))
+    .join('\n');
+}
+
+/** The first line-folded `width` characters of some content. */
+function snippet(content: string, width = 60): string {
+  const flat = content.replace(/\s+/g, ' ').trim();
+  return flat.length > width ? `${flat.slice(0, width - 1)}…` : flat;
+}
+
+/** "30-day half-life; architecture 365, tag:adr never" */
+function describeDecayPolicy(policy: DecayPolicy): string {
+  const days = (halfLife: number | null) => (halfLife === null ? 'never' : String(halfLife));
+  const base = policy.halfLifeDays > 0 ? `${policy.halfLifeDays}-day half-life` : 'off';
+  const rules = [
+    ...Object.entries(policy.categories).map(([category, halfLife]) => `${category} ${days(halfLife)}`),
+    ...Object.entries(policy.tags).map(([tag, halfLife]) => `tag:${tag} ${days(halfLife)}`),
+  ];
+  return rules.length > 0 ? `${base}; ${rules.join(', ')}` : base;
+}
+
+function date(iso: string): string {
+  return iso.slice(0, 16).replace('T', ' ');
+}
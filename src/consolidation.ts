@@ -0,0 +1,115 @@
+import type { MemoryCategory, Metadata } from './types.js';
+
+// ── Consolidation ─────────────────────────────────────────────────
+//
+// Pure helpers behind the consolidate tool: group near-identical memories
+// into clusters and propose a single memory to replace each cluster. The
+// store decides what to scan and applies the result.
+
+export interface ConsolidationItem {
+  id: string;
+  content: string;
+  category: MemoryCategory;
+  tags: string[];
+  metadata: Metadata;
+  createdAt: string;
+  accessCount: number;
+  vector: number[];
+}
+
+export interface Cluster<T extends ConsolidationItem> {
+  members: T[];
+  similarity: number;  // lowest similarity between the seed and any member
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Greedy seed clustering. Items are visited oldest first; each item not yet
+ * in a cluster seeds one and absorbs every later unclustered item of the
+ * same category whose similarity to the seed reaches the threshold.
+ * Comparing against the seed (not any member) stops chains of small steps
+ * from pulling unrelated memories together. Singletons are dropped.
+ */
+export function clusterBySimilarity<T extends ConsolidationItem>(
+  items: T[],
+  threshold: number,
+): Cluster<T>[] {
+  const ordered = [...items].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const clustered = new Set<string>();
+  const clusters: Cluster<T>[] = [];
+
+  for (let i = 0; i < ordered.length; i++) {
+    const seed = ordered[i];
+    if (clustered.has(seed.id)) continue;
+
+    const members = [seed];
+    let lowest = 1;
+    for (let j = i + 1; j < ordered.length; j++) {
+      const other = ordered[j];
+      if (clustered.has(other.id) || other.category !== seed.category) continue;
+      const similarity = cosineSimilarity(seed.vector, other.vector);
+      if (similarity >= threshold) {
+        members.push(other);
+        lowest = Math.min(lowest, similarity);
+      }
+    }
+
+    if (members.length > 1) {
+      members.forEach(m => clustered.add(m.id));
+      clusters.push({ members, similarity: Math.round(lowest * 1000) / 1000 });
+    }
+  }
+  return clusters;
+}
+
+/**
+ * Combine the contents of a cluster, oldest first. Repeats and contents
+ * already contained in another member (ignoring case and whitespace) are
+ * dropped, so the result reads as the union of what the cluster says.
+ */
+export function mergeContent(contents: string[]): string {
+  const normalise = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+  const normalised = contents.map(normalise);
+
+  const kept = contents.filter((_, i) =>
+    normalised[i].length > 0 &&
+    normalised.indexOf(normalised[i]) === i &&
+    !normalised.some((other, j) => j !== i && other !== normalised[i] && other.includes(normalised[i])),
+  );
+  return kept.map(c => c.trim()).join('\n\n');
+}
+
+/**
+ * The memory that would replace a cluster: merged content, unioned tags,
+ * earliest createdAt, summed access counts. Metadata is merged key by key,
+ * newer members overriding older ones.
+ */
+export function proposeMerge(members: ConsolidationItem[]): {
+  content: string;
+  category: MemoryCategory;
+  tags: string[];
+  metadata: Metadata;
+  createdAt: string;
+  accessCount: number;
+} {
+  const ordered = [...members].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  return {
+    content: mergeContent(ordered.map(m => m.content)),
+    category: ordered[0].category,
+    tags: [...new Set(ordered.flatMap(m => m.tags))],
+    metadata: Object.assign({}, ...ordered.map(m => m.metadata)),
+    createdAt: ordered[0].createdAt,
+    accessCount: ordered.reduce((sum, m) => sum + m.accessCount, 0),
+  };
+}
@@ -1,18 +1,81 @@
 import type { Embedder } from './types.js';
 
-const EMBEDDING_DIMENSIONS = 384;
+// ── Configuration ─────────────────────────────────────────────────
+
+export type EmbedderBackend = 'transformers' | 'openai' | 'hash';
+
+const EMBEDDER_BACKENDS: readonly EmbedderBackend[] = ['transformers', 'openai', 'hash'];
+
+export interface EmbedderConfig {
+  backend: EmbedderBackend;
+  /** Model name. transformers: HuggingFace id; openai: the endpoint's model name. */
+  model?: string;
+  /** openai: base URL of the API, e.g. http://localhost:11434/v1. */
+  url?: string;
+  /** openai: sent as a bearer token when set. */
+  apiKey?: string;
+  /** Expected vector size. Detected from the model when omitted (hash: 384). */
+  dimensions?: number;
+}
+
+/** Parse EMBEDDING_BACKEND. Default "transformers". */
+export function parseEmbedderBackend(value: string | undefined): EmbedderBackend {
+  const backend = value?.trim().toLowerCase();
+  if (!backend) return 'transformers';
+  if (!EMBEDDER_BACKENDS.includes(backend as EmbedderBackend)) {
+    throw new Error(`Unknown embedding backend "${value}" — expected one of ${EMBEDDER_BACKENDS.join(', ')}`);
+  }
+  return backend as EmbedderBackend;
+}
+
+/** Parse EMBEDDING_DIMENSIONS. Undefined when unset, so the backend detects it. */
+export function parseEmbeddingDimensions(value: string | undefined): number | undefined {
+  if (value == null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid EMBEDDING_DIMENSIONS "${value}" — expected a positive integer`);
+  }
+  return parsed;
+}
+
+export function createEmbedder(config: EmbedderConfig): Embedder {
+  switch (config.backend) {
+    case 'transformers':
+      return new TransformersEmbedder(config.model, config.dimensions);
+    case 'openai':
+      if (!config.url) throw new Error('The openai embedding backend requires EMBEDDING_URL');
+      if (!config.model) throw new Error('The openai embedding backend requires EMBEDDING_MODEL');
+      return new OpenAIEmbedder({ url: config.url, model: config.model, apiKey: config.apiKey, dimensions: config.dimensions });
+    case 'hash':
+      return new HashEmbedder(config.dimensions);
+  }
+}
+
+// ── Transformers.js ───────────────────────────────────────────────
+//
+// Local ONNX models via transformers.js. The vector size depends on the
+// model (384 for MiniLM, 768 for mpnet/bge-base, …), so unless configured
+// it is read off a probe embedding during initialize().
 
 export class TransformersEmbedder implements Embedder {
   private extractor: ExtractorPipeline | null = null;
-  private readonly modelName: string;
+  private dims: number | null;
 
-  constructor(modelName: string = 'Xenova/all-MiniLM-L6-v2') {
-    this.modelName = modelName;
+  constructor(
+    private readonly modelName: string = 'Xenova/all-MiniLM-L6-v2',
+    dimensions?: number,
+  ) {
+    this.dims = dimensions ?? null;
   }
 
   async initialize(): Promise<void> {
     const { pipeline } = await import('@xenova/transformers');
     this.extractor = await pipeline('feature-extraction', this.modelName) as ExtractorPipeline;
+    const probe = await this.embed('dimension probe');
+    if (this.dims !== null && probe.length !== this.dims) {
+      throw new Error(`${this.modelName} produces ${probe.length}-dimensional vectors, not ${this.dims} as configured`);
+    }
+    this.dims = probe.length;
   }
 
   async embed(text: string): Promise<number[]> {
@@ -34,7 +97,14 @@ export class TransformersEmbedder implements Embedder {
   }
 
   dimensions(): number {
-    return EMBEDDING_DIMENSIONS;
+    if (this.dims === null) {
+      throw new Error('Embedder not initialised. Call initialize() first.');
+    }
+    return this.dims;
+  }
+
+  modelId(): string {
+    return `transformers:${this.modelName}`;
   }
 
   private requireExtractor(): ExtractorPipeline {
@@ -51,3 +121,137 @@ interface ExtractorPipeline {
     data: Float32Array;
   }>;
 }
+
+// ── OpenAI-compatible HTTP ────────────────────────────────────────
+//
+// Any server implementing POST {url}/embeddings in the OpenAI format:
+// OpenAI itself, Ollama (/v1), llama.cpp's server, vLLM, LM Studio…
+
+export interface OpenAIEmbedderOptions {
+  url: string;
+  model: string;
+  apiKey?: string;
+  dimensions?: number;
+  /** Texts per request. Default 64. */
+  batchSize?: number;
+}
+
+interface EmbeddingsResponse {
+  data: { index: number; embedding: number[] }[];
+}
+
+export class OpenAIEmbedder implements Embedder {
+  private readonly endpoint: string;
+  private readonly batchSize: number;
+  private dims: number | null;
+
+  constructor(private readonly options: OpenAIEmbedderOptions) {
+    this.endpoint = `${options.url.replace(/\/+$/, '')}/embeddings`;
+    this.batchSize = options.batchSize ?? 64;
+    this.dims = options.dimensions ?? null;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.dims === null) {
+      const [probe] = await this.request(['dimension probe']);
+      this.dims = probe.length;
+    }
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const [vector] = await this.embedBatch([text]);
+    return vector;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      vectors.push(...await this.request(texts.slice(i, i + this.batchSize)));
+    }
+    const dims = this.dimensions();
+    const wrong = vectors.find(v => v.length !== dims);
+    if (wrong) {
+      throw new Error(`${this.options.model} returned a ${wrong.length}-dimensional vector, expected ${dims}`);
+    }
+    return vectors;
+  }
+
+  dimensions(): number {
+    if (this.dims === null) {
+      throw new Error('Embedder not initialised. Call initialize() first.');
+    }
+    return this.dims;
+  }
+
+  modelId(): string {
+    return `openai:${this.options.model}`;
+  }
+
+  private async request(input: string[]): Promise<number[][]> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.apiKey) headers.Authorization = `Bearer ${this.options.apiKey}`;
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: this.options.model, input }),
+    });
+    if (!response.ok) {
+      const detail = (await response.text()).slice(0, 500);
+      throw new Error(`Embedding request to ${this.endpoint} failed: ${response.status} ${response.statusText} ${detail}`.trim());
+    }
+
+    const body = await response.json() as EmbeddingsResponse;
+    if (!Array.isArray(body.data) || body.data.length !== input.length) {
+      throw new Error(`Embedding response from ${this.endpoint} did not contain ${input.length} embeddings`);
+    }
+    // The API does not promise to keep input order; `index` does.
+    return [...body.data].sort((a, b) => a.index - b.index).map(d => d.embedding);
+  }
+}
+
+// ── Hash ──────────────────────────────────────────────────────────
+//
+// Deterministic feature hashing: each lower-cased word (and word bigram)
+// adds ±1 to a bucket picked by its FNV-1a hash. No model, no network —
+// for tests and offline CI. Texts sharing words land close together, which
+// is enough to exercise search and duplicate detection, not to rank well.
+
+export class HashEmbedder implements Embedder {
+  constructor(private readonly dims: number = 384) {}
+
+  async initialize(): Promise<void> {}
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dims).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const features = [...words, ...words.slice(1).map((w, i) => `${words[i]} ${w}`)];
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      vector[hash % this.dims] += hash & 0x80000000 ? -1 : 1;
+    }
+    const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return magnitude > 0 ? vector.map(v => v / magnitude) : vector;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(t => this.embed(t)));
+  }
+
+  dimensions(): number {
+    return this.dims;
+  }
+
+  modelId(): string {
+    return 'hash';
+  }
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,194 @@
+import type { FusionOptions, FusionStrategy } from './types.js';
+
+// ── Hybrid fusion ─────────────────────────────────────────────────
+//
+// Hybrid search runs a BM25 search and a vector search and merges the
+// two ranked lists. Reciprocal rank fusion only looks at ranks, which is
+// robust when the two scores live on unrelated scales. Linear and max
+// look at the scores themselves, so an exact keyword hit on a short,
+// jargon-heavy memory can outweigh a middling vector match. The keyword
+// weight tilts any of them toward one list.
+
+export const FUSION_STRATEGIES: readonly FusionStrategy[] = ['rrf', 'linear', 'max'];
+
+export const DEFAULT_FUSION: FusionOptions = { strategy: 'rrf', k: 60, keywordWeight: 0.5 };
+
+/**
+ * Parse HYBRID_FUSION, HYBRID_RRF_K and HYBRID_KEYWORD_WEIGHT. As with
+ * the decay half-life, an unset or invalid value keeps its default.
+ */
+export function parseFusion(
+  strategy: string | undefined,
+  k: string | undefined,
+  keywordWeight: string | undefined,
+): FusionOptions {
+  const parsedK = Number(k);
+  const parsedWeight = Number(keywordWeight);
+  return {
+    strategy: isFusionStrategy(strategy) ? strategy : DEFAULT_FUSION.strategy,
+    k: isValidK(parsedK) ? parsedK : DEFAULT_FUSION.k,
+    keywordWeight: keywordWeight?.trim() && isValidWeight(parsedWeight) ? parsedWeight : DEFAULT_FUSION.keywordWeight,
+  };
+}
+
+/** The server-wide defaults, read from the environment once. */
+export const FUSION_DEFAULTS = parseFusion(
+  process.env.HYBRID_FUSION,
+  process.env.HYBRID_RRF_K,
+  process.env.HYBRID_KEYWORD_WEIGHT,
+);
+
+/** Fill the fields a search left unset from `defaults`, rejecting invalid ones. */
+export function resolveFusion(
+  overrides: Partial<FusionOptions> = {},
+  defaults: FusionOptions = FUSION_DEFAULTS,
+): FusionOptions {
+  const { strategy, k, keywordWeight } = overrides;
+  if (strategy != null && !isFusionStrategy(strategy)) {
+    throw new Error(`Invalid fusion strategy "${strategy}" — expected one of ${FUSION_STRATEGIES.join(', ')}`);
+  }
+  if (k != null && !isValidK(k)) {
+    throw new Error(`Invalid RRF k ${k} — expected a positive number`);
+  }
+  if (keywordWeight != null && !isValidWeight(keywordWeight)) {
+    throw new Error(`Invalid keyword weight ${keywordWeight} — expected a number from 0 to 1`);
+  }
+  return {
+    strategy: strategy ?? defaults.strategy,
+    k: k ?? defaults.k,
+    keywordWeight: keywordWeight ?? defaults.keywordWeight,
+  };
+}
+
+// ── Relevance ──────────────────────────────────────────────────────
+//
+// Raw scores do not compare across modes: BM25 is unbounded and grows
+// with the store, cosine distance runs from 0 to 2. Each is mapped onto a
+// 0–1 relevance, so one threshold means the same in every mode.
+
+/** The BM25 score that maps to a keyword relevance of 0.5. */
+export const BM25_MIDPOINT = 2;
+
+/** BM25 squashed to 0–1; a match on one rare term lands near the midpoint. */
+export function keywordRelevance(bm25: number): number {
+  return bm25 > 0 ? bm25 / (bm25 + BM25_MIDPOINT) : 0;
+}
+
+/** Cosine similarity, with opposed vectors counted as unrelated. */
+export function vectorRelevance(distance: number): number {
+  return Math.min(1, Math.max(0, 1 - distance));
+}
+
+/** A keyword hit, best first, with its raw BM25 score. */
+export interface KeywordHit {
+  id: string;
+  bm25: number;
+}
+
+/** A vector hit, nearest first, with its cosine distance (0–2). */
+export interface VectorHit {
+  id: string;
+  distance: number;
+}
+
+/** A memory's fused score and what each list contributed to it. */
+export interface FusedScore {
+  /** Orders the results. */
+  score: number;
+  /** Calibrated 0–1 relevance; the same as `score` except with RRF. */
+  relevance: number;
+  /** Each list's contribution to `score`. */
+  keyword: number;
+  vector: number;
+  /** Each list's own relevance, 0 when the memory does not match that way at all. */
+  keywordRelevance: number;
+  vectorRelevance: number;
+  /** 1-based position in each list the memory appeared in. */
+  keywordRank?: number;
+  vectorRank?: number;
+}
+
+/** Scores of memories that one list found and the other cut off, looked up afterwards. */
+export interface UnrankedHits {
+  keyword?: KeywordHit[];
+  vector?: VectorHit[];
+}
+
+/**
+ * Merge the two lists into one score per memory. With RRF a list
+ * contributes 2 × weight / (k + rank), with rank from 0, so the default
+ * even split is plain RRF. Ranks say nothing about how relevant the top
+ * is, so RRF's relevance is the weighted sum of the two relevances —
+ * which is what linear scores by. Max takes the larger relevance, with the
+ * weights scaled so the heavier list counts in full.
+ *
+ * Each list is cut off at the over-fetch limit, so a memory can be missing
+ * from one only because the other ranked it higher. `unranked` carries
+ * its real score on the missing side: it counts toward relevance (and so
+ * linear and max) but earns no rank. Only a memory that does not match
+ * one way at all gets nothing from it.
+ */
+export function fuse(
+  keywordHits: KeywordHit[],
+  vectorHits: VectorHit[],
+  options: FusionOptions,
+  unranked: UnrankedHits = {},
+): Map<string, FusedScore> {
+  const { strategy, k, keywordWeight } = options;
+  const vectorWeight = 1 - keywordWeight;
+  const scale = strategy === 'max' ? 1 / Math.max(keywordWeight, vectorWeight) : 1;
+  const fused = new Map<string, FusedScore>();
+  const entry = (id: string): FusedScore => {
+    let score = fused.get(id);
+    if (!score) {
+      score = { score: 0, relevance: 0, keyword: 0, vector: 0, keywordRelevance: 0, vectorRelevance: 0 };
+      fused.set(id, score);
+    }
+    return score;
+  };
+
+  keywordHits.forEach((hit, rank) => {
+    const score = entry(hit.id);
+    score.keywordRank = rank + 1;
+    score.keywordRelevance = keywordRelevance(hit.bm25);
+    score.keyword = keywordWeight * scale * (strategy === 'rrf' ? 2 / (k + rank) : score.keywordRelevance);
+  });
+  vectorHits.forEach((hit, rank) => {
+    const score = entry(hit.id);
+    score.vectorRank = rank + 1;
+    score.vectorRelevance = vectorRelevance(hit.distance);
+    score.vector = vectorWeight * scale * (strategy === 'rrf' ? 2 / (k + rank) : score.vectorRelevance);
+  });
+  for (const hit of unranked.keyword ?? []) {
+    const score = fused.get(hit.id);
+    if (!score || score.keywordRank) continue;
+    score.keywordRelevance = keywordRelevance(hit.bm25);
+    if (strategy !== 'rrf') score.keyword = keywordWeight * scale * score.keywordRelevance;
+  }
+  for (const hit of unranked.vector ?? []) {
+    const score = fused.get(hit.id);
+    if (!score || score.vectorRank) continue;
+    score.vectorRelevance = vectorRelevance(hit.distance);
+    if (strategy !== 'rrf') score.vector = vectorWeight * scale * score.vectorRelevance;
+  }
+
+  for (const score of fused.values()) {
+    score.score = strategy === 'max' ? Math.max(score.keyword, score.vector) : score.keyword + score.vector;
+    score.relevance = strategy === 'rrf'
+      ? keywordWeight * score.keywordRelevance + vectorWeight * score.vectorRelevance
+      : score.score;
+  }
+  return fused;
+}
+
+function isFusionStrategy(value: string | undefined): value is FusionStrategy {
+  return FUSION_STRATEGIES.includes(value as FusionStrategy);
+}
+
+function isValidK(k: number): boolean {
+  return Number.isFinite(k) && k > 0;
+}
+
+function isValidWeight(weight: number): boolean {
+  return Number.isFinite(weight) && weight >= 0 && weight <= 1;
+}
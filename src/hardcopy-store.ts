@@ -1,29 +1,91 @@
-import { mkdir, writeFile, unlink } from 'fs/promises';
+import { mkdir, readdir, readFile, writeFile, unlink } from 'fs/promises';
 import { join } from 'path';
+import { archivedToMemory, toArchivedMemory } from './archive.js';
 import type {
+  ArchivedMemory,
+  ConsolidateOptions,
+  ConsolidateResult,
+  EmptyTrashOptions,
+  EmptyTrashResult,
+  ExportOptions,
+  FindRelatedOptions,
+  ImportOptions,
+  ImportResult,
+  LinkRelation,
   Memory,
   MemoryCategory,
+  MemoryGraph,
+  MemoryLink,
+  MemoryRevision,
   MemoryStore,
   MemoryStats,
   PruneOptions,
   PruneResult,
+  RecategorizeOptions,
+  RecategorizeResult,
+  ReembedOptions,
+  ReembedResult,
+  RetagOptions,
+  RetagResult,
   SearchFilters,
   SearchMode,
   SearchResult,
   StoreRequest,
+  StoredMemory,
+  TagUsage,
+  TrashedMemory,
   UpdateRequest,
 } from './types.js';
 
 // ── HardcopyMemoryStore ─────────────────────────────────────────
 //
 // Transparent decorator that mirrors all mutations to plain JSON
-// files on disk. One file per memory, named {id}.json. Read
-// operations delegate straight through — the hardcopy is write-only.
+// files on disk. One file per live memory, named {id}.json — moving
+// a memory to the trash removes its file, restoring writes it back.
+// Read operations delegate straight through.
 //
 // Hardcopy errors are logged to stderr but never propagate.
 // The primary store is the source of truth; the hardcopy is
 // a human-readable escape hatch.
 
+export interface RebuildReport {
+  restored: number;
+  failed: { file: string; error: string }[];
+}
+
+/**
+ * How verifyHardcopy repairs drift:
+ *   none      — report only
+ *   backfill  — the store wins: write missing files, rewrite mismatched ones
+ *   reconcile — two-way: like backfill, but files edited by hand are applied
+ *               to the store, and orphan files are imported as new memories
+ *
+ * A file counts as hand-edited when it disagrees with the store but still
+ * carries the memory's current updatedAt (or a later one). A file left
+ * behind by a later store change, or by a failed write, has an older
+ * updatedAt, so the store wins. A file the store refuses (an unknown
+ * category, say) is reported as failed and the repair carries on.
+ */
+export type HardcopyRepair = 'none' | 'backfill' | 'reconcile';
+
+export interface HardcopyReport {
+  checked: number;
+  missingFiles: string[];
+  orphanFiles: string[];
+  mismatches: { id: string; fields: string[] }[];
+  unreadable: { file: string; error: string }[];
+  repair: HardcopyRepair;
+  written: string[];
+  updated: string[];
+  imported: string[];
+  failed: { file: string; error: string }[];
+}
+
+interface HardcopyEntry {
+  file: string;
+  record: ArchivedMemory;
+}
+
 export class HardcopyMemoryStore implements MemoryStore {
   constructor(
     private readonly inner: MemoryStore,
@@ -37,15 +99,24 @@ export class HardcopyMemoryStore implements MemoryStore {
 
   // ── Mutations (mirrored to disk) ────────────────────────────
 
-  async store(request: StoreRequest): Promise<Memory> {
+  // A rejected near-duplicate changed nothing; a merged one changed the
+  // existing memory, so its file is rewritten like any other update.
+
+  async store(request: StoreRequest): Promise<StoredMemory> {
     const memory = await this.inner.store(request);
-    await this.writeHardcopy(memory);
+    if (memory.duplicate?.action !== 'rejected') {
+      await this.writeHardcopy(memory);
+    }
     return memory;
   }
 
-  async storeBatch(requests: StoreRequest[]): Promise<Memory[]> {
+  async storeBatch(requests: StoreRequest[]): Promise<StoredMemory[]> {
     const memories = await this.inner.storeBatch(requests);
-    await Promise.all(memories.map(m => this.writeHardcopy(m)));
+    await Promise.all(
+      memories
+        .filter(m => m.duplicate?.action !== 'rejected')
+        .map(m => this.writeHardcopy(m)),
+    );
     return memories;
   }
 
@@ -60,26 +131,224 @@ export class HardcopyMemoryStore implements MemoryStore {
     await this.deleteHardcopy(id);
   }
 
+  async restore(id: string): Promise<Memory> {
+    const memory = await this.inner.restore(id);
+    await this.writeHardcopy(memory);
+    return memory;
+  }
+
+  async emptyTrash(options: EmptyTrashOptions): Promise<EmptyTrashResult> {
+    // Trashed memories have no hardcopy file left to remove.
+    return this.inner.emptyTrash(options);
+  }
+
+  async revert(id: string, revisionId: string): Promise<Memory> {
+    const memory = await this.inner.revert(id, revisionId);
+    await this.writeHardcopy(memory);
+    return memory;
+  }
+
+  async importMemories(records: ArchivedMemory[], options: ImportOptions): Promise<ImportResult> {
+    const result = await this.inner.importMemories(records, options);
+    const written = new Set(result.ids);
+    await Promise.all(
+      records
+        // Memories imported into the trash get no file, like trashed ones.
+        .filter(r => written.has(r.id) && !r.deletedAt)
+        .map(r => this.writeHardcopy(archivedToMemory(r))),
+    );
+    return result;
+  }
+
   // ── Reads (pass through) ────────────────────────────────────
 
   async search(query: string, mode: SearchMode, filters: SearchFilters): Promise<SearchResult[]> {
     return this.inner.search(query, mode, filters);
   }
 
-  async findRelated(memoryId: string, limit: number): Promise<SearchResult[]> {
-    return this.inner.findRelated(memoryId, limit);
+  async findRelated(memoryId: string, limit: number, options?: FindRelatedOptions): Promise<SearchResult[]> {
+    return this.inner.findRelated(memoryId, limit, options);
+  }
+
+  async listRecent(limit: number, category?: MemoryCategory, namespace?: string): Promise<Memory[]> {
+    return this.inner.listRecent(limit, category, namespace);
+  }
+
+  // Links live only in the primary store; the hardcopy mirrors memories.
+
+  async link(sourceId: string, targetId: string, relation: LinkRelation): Promise<MemoryLink> {
+    return this.inner.link(sourceId, targetId, relation);
   }
 
-  async listRecent(limit: number, category?: MemoryCategory): Promise<Memory[]> {
-    return this.inner.listRecent(limit, category);
+  async unlink(sourceId: string, targetId: string, relation?: LinkRelation): Promise<number> {
+    return this.inner.unlink(sourceId, targetId, relation);
   }
 
-  async stats(): Promise<MemoryStats> {
-    return this.inner.stats();
+  async getGraph(memoryId: string, depth: number): Promise<MemoryGraph> {
+    return this.inner.getGraph(memoryId, depth);
+  }
+
+  async listTrash(namespace?: string): Promise<TrashedMemory[]> {
+    return this.inner.listTrash(namespace);
+  }
+
+  async history(id: string): Promise<MemoryRevision[]> {
+    return this.inner.history(id);
+  }
+
+  async stats(namespace?: string): Promise<MemoryStats> {
+    return this.inner.stats(namespace);
   }
 
   async prune(options: PruneOptions): Promise<PruneResult> {
-    return this.inner.prune(options);
+    const result = await this.inner.prune(options);
+    if (!result.dryRun) {
+      await Promise.all(result.candidates.map(c => this.deleteHardcopy(c.id)));
+    }
+    return result;
+  }
+
+  async consolidate(options: ConsolidateOptions): Promise<ConsolidateResult> {
+    const result = await this.inner.consolidate(options);
+    for (const cluster of result.clusters) {
+      if (!cluster.merged) continue;
+      await this.writeHardcopy(cluster.merged);
+      await Promise.all(cluster.memoryIds.map(id => this.deleteHardcopy(id)));
+    }
+    return result;
+  }
+
+  async recategorize(options: RecategorizeOptions): Promise<RecategorizeResult> {
+    const result = await this.inner.recategorize(options);
+    if (!result.dryRun) await this.rewriteHardcopies(result.ids);
+    return result;
+  }
+
+  async reembed(options?: ReembedOptions): Promise<ReembedResult> {
+    // Hardcopy files carry no vectors.
+    return this.inner.reembed(options);
+  }
+
+  async listTags(namespace?: string): Promise<TagUsage[]> {
+    return this.inner.listTags(namespace);
+  }
+
+  async renameTag(options: RetagOptions): Promise<RetagResult> {
+    const result = await this.inner.renameTag(options);
+    if (!result.dryRun) await this.rewriteHardcopies(result.ids);
+    return result;
+  }
+
+  async mergeTags(options: RetagOptions): Promise<RetagResult> {
+    const result = await this.inner.mergeTags(options);
+    if (!result.dryRun) await this.rewriteHardcopies(result.ids);
+    return result;
+  }
+
+  async exportMemories(options: ExportOptions): Promise<ArchivedMemory[]> {
+    return this.inner.exportMemories(options);
+  }
+
+  // ── Verification ────────────────────────────────────────────
+
+  /**
+   * Diff the hardcopy directory against the primary store: memories with no
+   * file, files with no memory, and files whose content, category or tags
+   * disagree with the store. Optionally repairs the drift (see HardcopyRepair).
+   */
+  async verifyHardcopy(repair: HardcopyRepair = 'none'): Promise<HardcopyReport> {
+    const memories = await this.inner.exportMemories({ allNamespaces: true, includeVectors: false });
+    const { entries, failed } = await readHardcopyDirectory(this.hardcopyPath);
+    const files = new Map(entries.map(e => [e.record.id, e]));
+
+    const report: HardcopyReport = {
+      checked: memories.length,
+      missingFiles: [],
+      orphanFiles: [],
+      mismatches: [],
+      unreadable: failed,
+      repair,
+      written: [],
+      updated: [],
+      imported: [],
+      failed: [],
+    };
+
+    for (const memory of memories) {
+      const entry = files.get(memory.id);
+      files.delete(memory.id);
+
+      if (!entry) {
+        report.missingFiles.push(memory.id);
+        if (repair !== 'none') {
+          await this.writeHardcopy(archivedToMemory(memory));
+          report.written.push(memory.id);
+        }
+        continue;
+      }
+
+      const fields = diffFields(memory, entry.record);
+      if (fields.length === 0) continue;
+      report.mismatches.push({ id: memory.id, fields });
+
+      if (repair === 'reconcile' && new Date(entry.record.updatedAt).getTime() >= new Date(memory.updatedAt).getTime()) {
+        // Edited by hand since the store last wrote it — the file wins.
+        try {
+          const updated = await this.inner.update(memory.id, {
+            content: entry.record.content,
+            category: entry.record.category,
+            tags: entry.record.tags,
+            metadata: entry.record.metadata,
+          });
+          await this.writeHardcopy(updated);
+          report.updated.push(memory.id);
+        } catch (err) {
+          report.failed.push({ file: entry.file, error: err instanceof Error ? err.message : String(err) });
+        }
+      } else if (repair !== 'none') {
+        await this.writeHardcopy(archivedToMemory(memory));
+        report.written.push(memory.id);
+      }
+    }
+
+    // Whatever is left has no counterpart in the store.
+    const orphans = [...files.values()];
+    report.orphanFiles = orphans.map(e => e.file);
+    if (repair === 'reconcile') {
+      // One at a time, so a file the store refuses doesn't sink the rest.
+      for (const entry of orphans) {
+        try {
+          const result = await this.inner.importMemories([entry.record], { strategy: 'skip' });
+          report.imported.push(...result.ids);
+        } catch (err) {
+          report.failed.push({ file: entry.file, error: err instanceof Error ? err.message : String(err) });
+        }
+      }
+    }
+
+    return report;
+  }
+
+  // ── Recovery ────────────────────────────────────────────────
+
+  /**
+   * Recreate the primary store from the hardcopy directory. Every memory is
+   * re-embedded with the current embedder; ids and timestamps are kept.
+   * Files that fail to parse are reported and skipped. Refuses to run when
+   * no memory could be read, so a wrong path can't wipe the database.
+   */
+  async rebuildFromHardcopy(): Promise<RebuildReport> {
+    const { entries, failed } = await readHardcopyDirectory(this.hardcopyPath);
+    if (entries.length === 0) {
+      throw new Error(`No readable memories in ${this.hardcopyPath}; refusing to rebuild`);
+    }
+
+    const result = await this.inner.importMemories(entries.map(e => e.record), {
+      strategy: 'overwrite',
+      reembed: true,
+      replace: true,
+    });
+    return { restored: result.ids.length, failed };
   }
 
   // ── Private ─────────────────────────────────────────────────
@@ -87,12 +356,28 @@ export class HardcopyMemoryStore implements MemoryStore {
   private async writeHardcopy(memory: Memory): Promise<void> {
     try {
       const filePath = join(this.hardcopyPath, `${memory.id}.json`);
-      await writeFile(filePath, JSON.stringify(memory, null, 2) + '\n');
+      await writeFile(filePath, JSON.stringify(hardcopyOf(memory), null, 2) + '\n');
     } catch (err) {
       console.error(`[hardcopy] Failed to write ${memory.id}:`, err);
     }
   }
 
+  /**
+   * Rewrite the files of memories a bulk relabel touched, from the store,
+   * so they carry its new updatedAt. Trashed memories have no file and
+   * are not exported, so they are skipped.
+   */
+  private async rewriteHardcopies(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const wanted = new Set(ids);
+    const memories = await this.inner.exportMemories({ allNamespaces: true, includeVectors: false });
+    await Promise.all(
+      memories
+        .filter(m => wanted.has(m.id))
+        .map(m => this.writeHardcopy(archivedToMemory(m))),
+    );
+  }
+
   private async deleteHardcopy(id: string): Promise<void> {
     try {
       const filePath = join(this.hardcopyPath, `${id}.json`);
@@ -106,3 +391,43 @@ export class HardcopyMemoryStore implements MemoryStore {
     }
   }
 }
+
+// ── Hardcopy directory reader ─────────────────────────────────────
+
+async function readHardcopyDirectory(
+  hardcopyPath: string,
+): Promise<{ entries: HardcopyEntry[]; failed: RebuildReport['failed'] }> {
+  const files = (await readdir(hardcopyPath)).filter(f => f.endsWith('.json')).sort();
+  const entries: HardcopyEntry[] = [];
+  const failed: RebuildReport['failed'] = [];
+
+  for (const file of files) {
+    try {
+      const filePath = join(hardcopyPath, file);
+      const raw = await readFile(filePath, 'utf-8');
+      entries.push({ file, record: toArchivedMemory(JSON.parse(raw)) });
+    } catch (err) {
+      failed.push({ file, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return { entries, failed };
+}
+
+/**
+ * Just the memory's own fields. Stored and returned memories carry per-call
+ * extras — the duplicate report, the passage count, search data — that do
+ * not belong in the file and would show up as drift.
+ */
+function hardcopyOf(memory: Memory): Memory {
+  const { id, namespace, content, category, tags, metadata, createdAt, updatedAt } = memory;
+  return { id, namespace, content, category, tags, metadata, createdAt, updatedAt };
+}
+
+function diffFields(memory: Memory, hardcopy: Memory): string[] {
+  const fields: string[] = [];
+  if (memory.content !== hardcopy.content) fields.push('content');
+  if (memory.category !== hardcopy.category) fields.push('category');
+  if (JSON.stringify(memory.tags) !== JSON.stringify(hardcopy.tags)) fields.push('tags');
+  if (JSON.stringify(memory.metadata) !== JSON.stringify(hardcopy.metadata)) fields.push('metadata');
+  return fields;
+}
@@ -0,0 +1,229 @@
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+// ── HTTP transport ────────────────────────────────────────────────
+//
+// Over stdio every agent spawns its own server, and with it its own
+// LanceDB handle on the same directory. Over HTTP one process serves
+// them all: each client session gets its own McpServer (a server binds
+// to a single transport), and every one of them shares the same store.
+//
+//   POST|GET|DELETE /mcp   Streamable HTTP
+//   GET /sse               legacy SSE stream
+//   POST /messages         legacy SSE messages (?sessionId=)
+//   GET /health            liveness, never authenticated
+
+export type TransportKind = 'stdio' | 'http';
+
+export const TRANSPORTS: TransportKind[] = ['stdio', 'http'];
+
+export interface HttpOptions {
+  port: number;
+  host: string;
+  /** Bearer token required on every endpoint except /health. */
+  token?: string;
+}
+
+export interface HttpServer {
+  /** Base URL the server listens on, e.g. http://127.0.0.1:3000. */
+  url: string;
+  port: number;
+  close(): Promise<void>;
+}
+
+export const DEFAULT_HTTP_PORT = 3000;
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+/** Parse MEMORY_TRANSPORT. Defaults to stdio. */
+export function parseTransport(value: string | undefined): TransportKind {
+  const transport = value?.trim().toLowerCase();
+  if (!transport) return 'stdio';
+  if (!TRANSPORTS.includes(transport as TransportKind)) {
+    throw new Error(`Unknown transport "${value}" — expected one of ${TRANSPORTS.join(', ')}`);
+  }
+  return transport as TransportKind;
+}
+
+/** Parse MEMORY_HTTP_PORT. Defaults to 3000; 0 picks a free port. */
+export function parseHttpPort(value: string | undefined): number {
+  if (value == null || value.trim() === '') return DEFAULT_HTTP_PORT;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > 65535) {
+    throw new Error(`Invalid MEMORY_HTTP_PORT "${value}" — expected a port number between 0 and 65535`);
+  }
+  return parsed;
+}
+
+/**
+ * Serve MCP over HTTP. `createMcpServer` is called once per client
+ * session. Binding beyond loopback requires a token: the memory store is
+ * readable and writable by anyone who can reach the port.
+ */
+export async function startHttpServer(
+  createMcpServer: () => McpServer,
+  options: HttpOptions,
+): Promise<HttpServer> {
+  const loopback = LOOPBACK_HOSTS.includes(options.host);
+  if (!loopback && !options.token) {
+    throw new Error(`Refusing to listen on ${options.host} without MEMORY_HTTP_TOKEN`);
+  }
+
+  const streamable = new Map<string, StreamableHTTPServerTransport>();
+  const sse = new Map<string, SSEServerTransport>();
+  let port = options.port;
+
+  const server = createHttpServer((req, res) => {
+    route(req, res).catch((err) => {
+      console.error('[http] Request failed:', err);
+      if (!res.headersSent) {
+        sendJson(res, 500, rpcError(-32603, 'Internal server error'));
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  async function route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === '/health') {
+      if (req.method !== 'GET') return sendJson(res, 405, { error: 'Method not allowed' });
+      return sendJson(res, 200, { status: 'ok', sessions: streamable.size + sse.size });
+    }
+
+    // A loopback server is reachable from any web page through DNS
+    // rebinding, so the Host header must name the loopback address too.
+    if (loopback && !isLoopbackHost(req.headers.host, port)) {
+      return sendJson(res, 403, { error: `Host "${req.headers.host}" not allowed` });
+    }
+    if (options.token && !authorized(req, options.token)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return sendJson(res, 401, { error: 'Missing or invalid bearer token' });
+    }
+
+    switch (url.pathname) {
+      case '/mcp':
+        return handleStreamable(req, res);
+      case '/sse':
+        if (req.method !== 'GET') return sendJson(res, 405, { error: 'Method not allowed' });
+        return openSse(res);
+      case '/messages': {
+        if (req.method !== 'POST') return sendJson(res, 405, { error: 'Method not allowed' });
+        const transport = sse.get(url.searchParams.get('sessionId') ?? '');
+        if (!transport) return sendJson(res, 404, rpcError(-32001, 'Session not found'));
+        const body = await readJson(req, res);
+        if (body === undefined) return;
+        return transport.handlePostMessage(req, res, body);
+      }
+      default:
+        return sendJson(res, 404, { error: 'Not found' });
+    }
+  }
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let body: unknown;
+    if (req.method === 'POST') {
+      body = await readJson(req, res);
+      if (body === undefined) return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    let transport = typeof sessionId === 'string' ? streamable.get(sessionId) : undefined;
+    if (!transport) {
+      if (sessionId !== undefined) return sendJson(res, 404, rpcError(-32001, 'Session not found'));
+      if (req.method !== 'POST' || !isInitializeRequest(body)) {
+        return sendJson(res, 400, rpcError(-32000, 'No session — send an initialize request first'));
+      }
+      const created = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => { streamable.set(id, created); },
+      });
+      created.onclose = () => {
+        if (created.sessionId) streamable.delete(created.sessionId);
+      };
+      await createMcpServer().connect(created);
+      transport = created;
+    }
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function openSse(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport('/messages', res);
+    sse.set(transport.sessionId, transport);
+    transport.onclose = () => { sse.delete(transport.sessionId); };
+    await createMcpServer().connect(transport);
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  port = (server.address() as AddressInfo).port;
+  const host = options.host.includes(':') ? `[${options.host}]` : options.host;
+
+  return {
+    url: `http://${host}:${port}`,
+    port,
+    async close() {
+      const transports = [...streamable.values(), ...sse.values()];
+      await Promise.all(transports.map(t => t.close().catch(() => {})));
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      });
+    },
+  };
+}
+
+function isLoopbackHost(header: string | undefined, port: number): boolean {
+  if (!header) return false;
+  const hostname = header.replace(/:\d+$/, '').replace(/^\[(.*)\]$/, '$1');
+  return LOOPBACK_HOSTS.includes(hostname) && (header === hostname || header.endsWith(`:${port}`));
+}
+
+/** Constant-time comparison of the bearer token, hashed so lengths never differ. */
+function authorized(req: IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+/** Read a JSON request body. Sends the error response and returns undefined when it cannot. */
+async function readJson(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      sendJson(res, 413, rpcError(-32600, `Request body exceeds ${MAX_BODY_BYTES} bytes`));
+      return undefined;
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    sendJson(res, 400, rpcError(-32700, 'Parse error: request body is not JSON'));
+    return undefined;
+  }
+}
+
+function rpcError(code: number, message: string) {
+  return { jsonrpc: '2.0', error: { code, message }, id: null };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
@@ -1,38 +1,220 @@
 #!/usr/bin/env node
+import { readFile } from 'fs/promises';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { TransformersEmbedder } from './embedder.js';
+import { parseChunking } from './chunking.js';
+import { isCliCommand, runCli, usage } from './cli.js';
+import { createEmbedder, parseEmbedderBackend, parseEmbeddingDimensions } from './embedder.js';
 import { HardcopyMemoryStore } from './hardcopy-store.js';
-import { LanceMemoryStore } from './memory-store.js';
+import {
+  DEFAULT_HTTP_HOST,
+  parseHttpPort,
+  parseTransport,
+  startHttpServer,
+  type HttpOptions,
+} from './http.js';
+import { ingest } from './ingest.js';
+import {
+  LanceMemoryStore,
+  parseDecayPolicy,
+  parseDuplicatePolicy,
+  parseDuplicateThreshold,
+  parseTrashRetentionDays,
+} from './memory-store.js';
+import { NotifyingMemoryStore } from './notifying-store.js';
+import { CrossEncoderReranker, parseRerank } from './reranker.js';
 import { createServer } from './server.js';
-import type { MemoryStore } from './types.js';
+import { parseTagAliases } from './tags.js';
+import { categoryNames, loadTaxonomy } from './taxonomy.js';
+import type { IngestRule, MemoryStore, TagNormalisation } from './types.js';
 
 async function main(): Promise<void> {
+  const command = isCliCommand(process.argv[2]) ? process.argv[2] : undefined;
+  if (command === 'help' || command === '--help') {
+    console.log(usage());
+    return;
+  }
+
   const dbPath = process.env.MEMORY_DB_PATH;
   if (!dbPath) {
     console.error('MEMORY_DB_PATH environment variable is required');
     process.exit(1);
   }
 
-  const modelName = process.env.EMBEDDING_MODEL ?? 'Xenova/all-MiniLM-L6-v2';
+  const embedderConfig = {
+    backend: parseEmbedderBackend(process.env.EMBEDDING_BACKEND),
+    model: process.env.EMBEDDING_MODEL || undefined,
+    url: process.env.EMBEDDING_URL || undefined,
+    apiKey: process.env.EMBEDDING_API_KEY || undefined,
+    dimensions: parseEmbeddingDimensions(process.env.EMBEDDING_DIMENSIONS),
+  };
+  const defaultNamespace = process.env.MEMORY_NAMESPACE;
+  const trashRetentionDays = parseTrashRetentionDays(process.env.MEMORY_TRASH_RETENTION_DAYS);
+  const duplicatePolicy = parseDuplicatePolicy(process.env.MEMORY_DUPLICATE_POLICY);
+  const duplicateThreshold = parseDuplicateThreshold(process.env.MEMORY_DUPLICATE_THRESHOLD);
+  const caseFold = process.env.MEMORY_TAG_CASE_FOLD === 'true';
+  const tagNormalisation = {
+    caseFold,
+    aliases: parseTagAliases(process.env.MEMORY_TAG_ALIASES, caseFold),
+  };
+  const chunking = parseChunking(process.env.MEMORY_CHUNK_SIZE, process.env.MEMORY_CHUNK_OVERLAP);
+  const rerank = parseRerank(process.env.RERANK_DEFAULT, process.env.RERANK_CANDIDATES);
+  const taxonomy = await loadTaxonomy({
+    file: process.env.MEMORY_CATEGORIES_FILE,
+    list: process.env.MEMORY_CATEGORIES,
+  });
+  const decayPolicy = parseDecayPolicy(process.env.MEMORY_DECAY_POLICY, categoryNames(taxonomy));
+  const rebuildFromHardcopy = process.argv.includes('--rebuild-from-hardcopy');
+  const reembedOnStart = process.argv.includes('--reembed');
+  const ingestPath = argValue('--ingest');
+  const ingestRules = argValue('--ingest-rules');
+  const transport = process.argv.includes('--http') ? 'http' : parseTransport(process.env.MEMORY_TRANSPORT);
+  const http = {
+    port: parseHttpPort(process.env.MEMORY_HTTP_PORT),
+    host: process.env.MEMORY_HTTP_HOST || DEFAULT_HTTP_HOST,
+    token: process.env.MEMORY_HTTP_TOKEN || undefined,
+  };
+  // Over HTTP any client could otherwise read and write the server user's files.
+  const fileRoot = process.env.MEMORY_FILE_ROOT || (transport === 'http' ? null : undefined);
+
+  if (rebuildFromHardcopy && !process.env.HARDCOPY_PATH) {
+    console.error('--rebuild-from-hardcopy requires HARDCOPY_PATH');
+    process.exit(1);
+  }
 
   // ── Compose dependencies ──
-  const embedder = new TransformersEmbedder(modelName);
-  let store: MemoryStore = new LanceMemoryStore(dbPath, embedder);
+  const embedder = createEmbedder(embedderConfig);
+  const lanceStore = new LanceMemoryStore(dbPath, embedder, {
+    defaultNamespace,
+    trashRetentionDays,
+    duplicatePolicy,
+    duplicateThreshold,
+    categories: categoryNames(taxonomy),
+    tagNormalisation,
+    chunking,
+    // Loaded on the first search that reranks.
+    reranker: new CrossEncoderReranker(process.env.RERANK_MODEL || undefined),
+    rerank,
+    decayPolicy,
+  });
+  // Inside the hardcopy decorator, so the verify_hardcopy tool still sees it.
+  const notifying = new NotifyingMemoryStore(lanceStore);
+  let store: MemoryStore = notifying;
 
   if (process.env.ENABLE_HARDCOPY === 'true' && process.env.HARDCOPY_PATH) {
     store = new HardcopyMemoryStore(store, process.env.HARDCOPY_PATH);
     console.error(`[hardcopy] Mirroring mutations to ${process.env.HARDCOPY_PATH}`);
   }
 
-  const server = createServer(store);
-
   // ── Initialise (download model on first run, connect to DB) ──
   await embedder.initialize();
+  if (rebuildFromHardcopy) {
+    await rebuild(lanceStore, process.env.HARDCOPY_PATH!);
+  }
+  // After a rebuild too, so the decorators start from the same state.
   await store.initialize();
+  if (reembedOnStart) {
+    await reembed(store);
+  }
+  if (command) {
+    process.exit(await runCli(store, process.argv.slice(2)));
+  }
+  if (ingestPath) {
+    const failed = await ingestFiles(store, ingestPath, ingestRules, categoryNames(taxonomy), tagNormalisation);
+    process.exit(failed ? 1 : 0);
+  }
 
   // ── Start MCP transport ──
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  const serverOptions = {
+    taxonomy,
+    tagNormalisation,
+    fileRoot,
+    changes: notifying,
+    namespace: defaultNamespace?.trim() || undefined,
+  };
+  if (transport === 'http') {
+    await serveHttp(() => createServer(store, serverOptions), http);
+  } else {
+    await createServer(store, serverOptions).connect(new StdioServerTransport());
+  }
+}
+
+/**
+ * Serve every client from this one process, closing sessions cleanly on
+ * SIGINT/SIGTERM so clients see the server go away rather than hang.
+ */
+async function serveHttp(createMcpServer: () => McpServer, options: HttpOptions): Promise<void> {
+  const server = await startHttpServer(createMcpServer, options);
+  console.error(`[http] Listening on ${server.url}/mcp (SSE: ${server.url}/sse)${options.token ? ', bearer token required' : ''}`);
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      server.close().finally(() => process.exit(0));
+    });
+  }
+}
+
+/**
+ * Recovery mode: recreate the memories table from the hardcopy directory.
+ * The existing table may be the reason we're here, so failing to open it
+ * is logged rather than fatal — the rebuild drops it regardless.
+ */
+async function rebuild(lanceStore: LanceMemoryStore, hardcopyPath: string): Promise<void> {
+  try {
+    await lanceStore.initialize();
+  } catch (err) {
+    console.error('[rebuild] Existing database could not be opened; it will be recreated:', err);
+  }
+
+  console.error(`[rebuild] Rebuilding memories from ${hardcopyPath}`);
+  const report = await new HardcopyMemoryStore(lanceStore, hardcopyPath).rebuildFromHardcopy();
+  console.error(`[rebuild] Restored ${report.restored} memories`);
+  for (const failure of report.failed) {
+    console.error(`[rebuild] Skipped ${failure.file}: ${failure.error}`);
+  }
+}
+
+/** Re-embed every memory before serving, logging progress as batches complete. */
+async function reembed(store: MemoryStore): Promise<void> {
+  console.error('[reembed] Rebuilding vectors with the configured embedding model');
+  const result = await store.reembed({
+    onProgress: ({ done, total }) => console.error(`[reembed] ${done}/${total}`),
+  });
+  console.error(
+    `[reembed] Done: ${result.total} memories on ${result.model} (${result.dimensions} dimensions), ` +
+    `${result.reembedded} embedded now, ${result.resumed} resumed from an earlier run`,
+  );
+}
+
+/**
+ * One-shot ingest from the command line: reads the path into memories,
+ * logs what changed and exits instead of serving. Returns whether any
+ * file failed.
+ */
+async function ingestFiles(
+  store: MemoryStore,
+  path: string,
+  rulesFile: string | undefined,
+  categories: string[],
+  tagNormalisation: TagNormalisation,
+): Promise<boolean> {
+  const rules: IngestRule[] = rulesFile ? JSON.parse(await readFile(rulesFile, 'utf-8')) : [];
+  if (!Array.isArray(rules)) throw new Error(`${rulesFile} must contain a JSON array of rules`);
+
+  const result = await ingest(store, { path, rules, categories, tagNormalisation });
+  console.error(
+    `[ingest] ${result.files} files: ${result.created} created, ${result.updated} updated, ` +
+    `${result.unchanged} unchanged, ${result.removed} removed`,
+  );
+  for (const failure of result.failed) {
+    console.error(`[ingest] Skipped ${failure.file}: ${failure.error}`);
+  }
+  return result.failed.length > 0;
+}
+
+/** The value following a command-line flag, e.g. `--ingest ./docs`. */
+function argValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index === -1 ? undefined : process.argv[index + 1];
 }
 
 main().catch((err) => {
@@ -0,0 +1,375 @@
+import { readdir, readFile, stat } from 'fs/promises';
+import { basename, extname, join, relative, resolve, sep } from 'path';
+import { normaliseTags } from './tags.js';
+import type {
+  IngestOptions,
+  IngestResult,
+  IngestRule,
+  Memory,
+  Metadata,
+  MemoryStore,
+  StoreRequest,
+} from './types.js';
+
+// ── Ingestion ─────────────────────────────────────────────────────
+//
+// Reads Markdown, text and JSON files into memories:
+//
+//   - Markdown is split at headings (levels 1–2 by default). Each section
+//     becomes a memory whose content starts with its heading path, e.g.
+//     "ADR 7: Use LanceDB > Consequences".
+//   - Text files become one memory each; long ones are chunked by the store.
+//   - JSON files holding a memory object or an array of them
+//     ({ content, category?, tags?, metadata?, id? }) become one memory per
+//     entry; any other JSON is stored whole, like text.
+//
+// Category and tags come from front-matter (or the JSON entry), then the
+// first path rule that matches, then the defaults. Every memory records
+// metadata.source = { path, section }; re-ingesting a path updates the
+// memories whose section changed, leaves the rest alone and trashes those
+// whose section (or file) is gone.
+
+const EXTENSIONS = new Set(['.md', '.markdown', '.txt', '.json']);
+const SKIPPED_DIRECTORIES = new Set(['node_modules']);
+
+/** A memory-to-be read from a file, before rules and defaults apply. */
+export interface Section {
+  /** Identifies the section within its file across re-ingests. '' for a whole file. */
+  section: string;
+  content: string;
+  category?: string;
+  tags: string[];
+  metadata: Metadata;
+}
+
+interface Source {
+  path: string;
+  section: string;
+}
+
+export async function ingest(store: MemoryStore, options: IngestOptions): Promise<IngestResult> {
+  const { dryRun = false, headingLevel = 2 } = options;
+  if (!Number.isInteger(headingLevel) || headingLevel < 1 || headingLevel > 6) {
+    throw new Error(`Invalid heading level ${headingLevel} — expected 1 to 6`);
+  }
+  const root = resolve(options.path);
+  const files = await listFiles(root);
+  const result: IngestResult = {
+    dryRun, files: files.length, created: 0, updated: 0, unchanged: 0, removed: 0, ids: [], failed: [],
+  };
+
+  const existing = new Map<string, Memory>();
+  const superfluous: Memory[] = [];
+  for (const memory of await store.exportMemories({ namespace: options.namespace, includeVectors: false })) {
+    const source = sourceOf(memory);
+    if (!source || !isWithin(source.path, root)) continue;
+    const key = sourceKey(source);
+    if (existing.has(key)) superfluous.push(memory);
+    else existing.set(key, memory);
+  }
+
+  const seen = new Set<string>();
+  const unreadable = new Set<string>();
+  const creates: StoreRequest[] = [];
+  for (const file of files) {
+    let requests: StoreRequest[];
+    try {
+      const sections = parseFile(file, await readFile(file, 'utf-8'), headingLevel);
+      const rule = matchRule(rulePath(root, file), options.rules ?? []);
+      requests = sections.map(section => toRequest(section, file, rule, options));
+    } catch (err) {
+      unreadable.add(file);
+      result.failed.push({ file, error: err instanceof Error ? err.message : String(err) });
+      continue;
+    }
+
+    for (const request of requests) {
+      const key = sourceKey(sourceOf(request)!);
+      seen.add(key);
+      const current = existing.get(key);
+      if (!current) {
+        creates.push(request);
+        result.created++;
+      } else if (sameMemory(current, request)) {
+        result.unchanged++;
+      } else {
+        result.updated++;
+        if (!dryRun) {
+          await store.update(current.id, {
+            content: current.content === request.content ? undefined : request.content,
+            category: request.category,
+            tags: request.tags,
+            metadata: request.metadata,
+            reason: 'ingest',
+          });
+          result.ids.push(current.id);
+        }
+      }
+    }
+  }
+
+  if (!dryRun && creates.length > 0) {
+    const stored = await store.storeBatch(creates);
+    result.ids.push(...stored.map(m => m.id));
+  }
+
+  // Sections that vanished from a file that was read, or whose file is gone.
+  const gone = [
+    ...[...existing].filter(([key]) => !seen.has(key)).map(([, memory]) => memory),
+    ...superfluous,
+  ].filter(memory => !unreadable.has(sourceOf(memory)!.path));
+  result.removed = gone.length;
+  if (!dryRun) {
+    for (const memory of gone) await store.delete(memory.id);
+  }
+  return result;
+}
+
+/** Supported files under `root` (or `root` itself), sorted. Dot-files and node_modules are skipped. */
+export async function listFiles(root: string): Promise<string[]> {
+  if (!(await stat(root)).isDirectory()) return [root];
+
+  const files: string[] = [];
+  const visit = async (dir: string): Promise<void> => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith('.')) continue;
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) await visit(path);
+      } else if (entry.isFile() && EXTENSIONS.has(extname(entry.name).toLowerCase())) {
+        files.push(path);
+      }
+    }
+  };
+  await visit(root);
+  return files;
+}
+
+/** The sections of one file, according to its extension. */
+export function parseFile(file: string, text: string, headingLevel: number = 2): Section[] {
+  const extension = extname(file).toLowerCase();
+  if (extension === '.json') return parseJson(text);
+
+  const { data, body } = parseFrontMatter(text);
+  const { category, tags, ...metadata } = data;
+  const sections = extension === '.md' || extension === '.markdown'
+    ? splitMarkdown(body, headingLevel)
+    : [{ section: '', content: body.trim() }].filter(s => s.content);
+  return sections.map(s => ({
+    ...s,
+    category: category == null ? undefined : String(category),
+    tags: toTags(tags),
+    metadata,
+  }));
+}
+
+// ── Markdown ──────────────────────────────────────────────────────
+
+const HEADING = /^(#{1,6})[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE = /^[ \t]*(```|~~~)/;
+
+/**
+ * Split Markdown at headings up to `maxLevel`; deeper headings stay in
+ * their section. Text before the first heading is a section of its own
+ * (''), sections with no text under their heading are dropped, and
+ * repeated heading paths are numbered: "Setup", "Setup (2)".
+ */
+export function splitMarkdown(body: string, maxLevel: number): { section: string; content: string }[] {
+  const sections: { section: string; content: string }[] = [];
+  const counts = new Map<string, number>();
+  const path: string[] = [];
+  let heading = '';
+  let lines: string[] = [];
+  let fence: string | null = null;
+
+  const flush = (): void => {
+    const text = lines.join('\n').trim();
+    lines = [];
+    if (!text) return;
+    const count = (counts.get(heading) ?? 0) + 1;
+    counts.set(heading, count);
+    sections.push({
+      section: count === 1 ? heading : `${heading} (${count})`,
+      content: heading ? `${heading}\n\n${text}` : text,
+    });
+  };
+
+  for (const line of body.split(/\r?\n/)) {
+    const marker = FENCE.exec(line)?.[1];
+    if (marker && (fence === null || fence === marker)) {
+      fence = fence === null ? marker : null;
+    }
+    const match = fence === null ? HEADING.exec(line) : null;
+    if (match && match[1].length <= maxLevel) {
+      flush();
+      const level = match[1].length;
+      path.length = level - 1;
+      path[level - 1] = match[2].trim();
+      heading = path.filter(Boolean).join(' > ');
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+  return sections;
+}
+
+// ── Front-matter ──────────────────────────────────────────────────
+
+/**
+ * Read a leading `---` block of YAML front-matter. Supports the subset
+ * front-matter uses in practice: `key: value` scalars (strings, numbers,
+ * booleans, null), inline lists `[a, b]` and block lists of `- item`.
+ */
+export function parseFrontMatter(text: string): { data: Record<string, unknown>; body: string } {
+  const match = /^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(text);
+  if (!match) return { data: {}, body: text };
+
+  const data: Record<string, unknown> = {};
+  let listKey: string | null = null;
+  match[1].split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim() || line.trimStart().startsWith('#')) return;
+    const item = /^[ \t]*-[ \t]+(.*)$/.exec(line);
+    if (item && listKey) {
+      (data[listKey] as unknown[]).push(scalar(item[1]));
+      return;
+    }
+    const pair = /^([A-Za-z0-9_-]+)[ \t]*:(?:[ \t]+(.*))?$/.exec(line);
+    if (!pair) throw new Error(`Unsupported front-matter on line ${i + 2}: ${line.trim()}`);
+    const [, key, raw = ''] = pair;
+    listKey = null;
+    if (raw.trim() === '') {
+      data[key] = [];
+      listKey = key;
+    } else if (/^\[.*\]$/.test(raw.trim())) {
+      const inner = raw.trim().slice(1, -1).trim();
+      data[key] = inner ? inner.split(',').map(scalar) : [];
+    } else {
+      data[key] = scalar(raw);
+    }
+  });
+  return { data, body: text.slice(match[0].length) };
+}
+
+function scalar(raw: string): string | number | boolean | null {
+  const value = raw.trim();
+  const quoted = /^(["'])(.*)\1$/.exec(value);
+  if (quoted) return quoted[2];
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (value === 'null' || value === '~') return null;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+// ── JSON ──────────────────────────────────────────────────────────
+
+function parseJson(text: string): Section[] {
+  const value: unknown = JSON.parse(text);
+  const entries = Array.isArray(value) ? value : [value];
+  const isMemory = (entry: unknown): entry is Record<string, unknown> =>
+    typeof entry === 'object' && entry !== null && typeof (entry as Record<string, unknown>).content === 'string';
+
+  if (entries.length === 0 || !entries.every(isMemory)) {
+    return [{ section: '', content: text.trim(), tags: [], metadata: {} }];
+  }
+  return entries.map((entry, i) => {
+    const metadata = entry.metadata;
+    if (metadata !== undefined && (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata))) {
+      throw new Error(`Entry ${i}: metadata must be a JSON object`);
+    }
+    return {
+      section: entry.id == null ? String(i) : String(entry.id),
+      content: entry.content as string,
+      category: entry.category == null ? undefined : String(entry.category),
+      tags: toTags(entry.tags),
+      metadata: (metadata ?? {}) as Metadata,
+    };
+  });
+}
+
+// ── Rules and requests ────────────────────────────────────────────
+
+/** The first rule whose glob matches the path. Patterns without a slash match the file name. */
+export function matchRule(path: string, rules: IngestRule[]): IngestRule | undefined {
+  return rules.find(rule => globToRegExp(rule.pattern).test(rule.pattern.includes('/') ? path : basename(path)));
+}
+
+/** `**` matches across directories, `*` and `?` within one. */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (c === '*') {
+      source += '[^/]*';
+    } else if (c === '?') {
+      source += '[^/]';
+    } else {
+      source += c.replace(/[\\^$.+()|[\]{}]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function toRequest(section: Section, file: string, rule: IngestRule | undefined, options: IngestOptions): StoreRequest {
+  const categories = options.categories;
+  const fallback = categories === undefined || categories.includes('other') ? 'other' : undefined;
+  const category = section.category ?? rule?.category ?? options.category ?? fallback;
+  if (!category) {
+    throw new Error('No category: set one in front-matter, a path rule or the category option');
+  }
+  if (categories && !categories.includes(category)) {
+    throw new Error(`Unknown category "${category}"`);
+  }
+
+  const source: Source = { path: file, section: section.section };
+  return {
+    content: section.content,
+    category,
+    // Normalised as the store will, so an unchanged section compares equal to its memory.
+    tags: normaliseTags(
+      [...new Set([...(options.tags ?? []), ...(rule?.tags ?? []), ...section.tags])],
+      options.tagNormalisation,
+    ),
+    metadata: { ...section.metadata, source },
+    namespace: options.namespace,
+    // Sections are tracked by source, so near-duplicate checks would only get in the way.
+    onDuplicate: 'off',
+  };
+}
+
+function toTags(value: unknown): string[] {
+  if (value == null) return [];
+  const list = Array.isArray(value) ? value : String(value).split(',');
+  return list.map(tag => String(tag).trim()).filter(Boolean);
+}
+
+function sourceOf(memory: { metadata?: Metadata }): Source | null {
+  const source = memory.metadata?.source as Partial<Source> | undefined;
+  if (typeof source?.path !== 'string' || typeof source.section !== 'string') return null;
+  return { path: source.path, section: source.section };
+}
+
+function sourceKey(source: Source): string {
+  return `${source.path}\n${source.section}`;
+}
+
+function sameMemory(memory: Memory, request: StoreRequest): boolean {
+  return memory.content === request.content
+    && memory.category === request.category
+    && JSON.stringify(memory.tags) === JSON.stringify(request.tags)
+    && JSON.stringify(memory.metadata) === JSON.stringify(request.metadata);
+}
+
+function isWithin(path: string, root: string): boolean {
+  return path === root || path.startsWith(root.endsWith(sep) ? root : root + sep);
+}
+
+/** Path relative to the ingested root with forward slashes, for matching rules. */
+function rulePath(root: string, file: string): string {
+  return (relative(root, file) || basename(file)).split(sep).join('/');
+}
@@ -1,17 +1,76 @@
 import * as lancedb from '@lancedb/lancedb';
-import type {
-  Embedder,
-  Memory,
-  MemoryCategory,
-  MemoryStore,
-  MemoryStats,
-  PruneOptions,
-  PruneResult,
-  SearchFilters,
-  SearchMode,
-  SearchResult,
-  StoreRequest,
-  UpdateRequest,
+import {
+  DEFAULT_CHUNKING,
+  bestPassageByTerms,
+  centroid,
+  chunkText,
+  needsChunking,
+  type Chunk,
+  type ChunkingOptions,
+} from './chunking.js';
+import { clusterBySimilarity, cosineSimilarity, proposeMerge } from './consolidation.js';
+import { metadataClauses, metadataIndex, validateMetadata } from './metadata.js';
+import {
+  fuse,
+  keywordRelevance,
+  resolveFusion,
+  vectorRelevance,
+  type KeywordHit,
+  type VectorHit,
+} from './fusion.js';
+import { DEFAULT_RERANK, rerankResults, type RerankOptions } from './reranker.js';
+import {
+  TAG_INDEX_SQL,
+  normaliseTags,
+  replaceTags,
+  tagClauses,
+  tagIndex,
+} from './tags.js';
+import {
+  DEFAULT_NAMESPACE,
+  type ArchivedMemory,
+  type ConsolidateOptions,
+  type ConsolidateResult,
+  type ConsolidationCluster,
+  type DecayPolicy,
+  type DuplicatePolicy,
+  type Embedder,
+  type EmbeddingStatus,
+  type EmptyTrashOptions,
+  type EmptyTrashResult,
+  type ExportOptions,
+  type FindRelatedOptions,
+  type ImportOptions,
+  type ImportResult,
+  type LinkRelation,
+  type Memory,
+  type MemoryCategory,
+  type MemoryGraph,
+  type MemoryLink,
+  type MemoryRevision,
+  type MemoryStore,
+  type MemoryStats,
+  type Metadata,
+  type Passage,
+  type PruneOptions,
+  type PruneResult,
+  type RecategorizeOptions,
+  type RecategorizeResult,
+  type ReembedOptions,
+  type ReembedResult,
+  type Reranker,
+  type RetagOptions,
+  type RetagResult,
+  type ScoreExplanation,
+  type SearchFilters,
+  type SearchMode,
+  type SearchResult,
+  type StoreRequest,
+  type StoredMemory,
+  type TagNormalisation,
+  type TagUsage,
+  type TrashedMemory,
+  type UpdateRequest,
 } from './types.js';
 
 // ── LanceDB row type ───────────────────────────────────────────────
@@ -19,14 +78,49 @@ import type {
 
 type MemoryRow = Record<string, unknown> & {
   id: string;
+  namespace: string;
   content: string;
   category: string;
-  tags: string;
+  tags: string;            // JSON array
+  tag_index: string;       // flattened for filtering, see tags.ts
+  metadata: string;        // JSON object
+  metadata_index: string;  // flattened for filtering, see metadata.ts
   created_at: string;
   updated_at: string;
   vector: number[];
   access_count: number;
   last_accessed_at: string;
+  deleted_at: string;      // '' while live, ISO timestamp once in the trash
+  chunk_count: number;     // passages in memory_chunks, 0 when stored whole
+};
+
+/** A passage of a long memory. Its text is the parent's content[start_offset, end_offset). */
+type ChunkRow = Record<string, unknown> & {
+  memory_id: string;
+  position: number;
+  start_offset: number;
+  end_offset: number;
+  vector: number[];
+};
+
+type LinkRow = Record<string, unknown> & {
+  id: string;
+  source_id: string;
+  target_id: string;
+  relation: string;
+  created_at: string;
+};
+
+type RevisionRow = Record<string, unknown> & {
+  id: string;
+  memory_id: string;
+  content: string;
+  category: string;
+  tags: string;
+  metadata: string;
+  updated_at: string;
+  superseded_at: string;
+  reason: string;
 };
 
 // ── Helpers ─────────────────────────────────────────────────────────
@@ -43,52 +137,264 @@ function safeAccessCount(row: Record<string, unknown>): number {
   return Number(v);
 }
 
+/** Predicate selecting memories that are not in the trash. */
+const LIVE = `deleted_at = ''`;
+const TRASHED = `deleted_at != ''`;
+
+/** Schema metadata recording which model produced a table's vectors. */
+const MODEL_KEY = 'embedding_model';
+const DIMENSIONS_KEY = 'embedding_dimensions';
+
+/** Side tables used by reembed: new vectors as they are made, then the rebuilt memories. */
+const STAGING_TABLE = 'memories_reembed';
+const SWAP_TABLE = 'memories_next';
+
+/** Passage vectors of long memories, see chunking.ts. */
+const CHUNKS_TABLE = 'memory_chunks';
+
+/** How often a long-running server purges expired trash, checked as the trash is used. */
+const TRASH_PURGE_INTERVAL_MS = 3_600_000;
+
+/**
+ * Parse MEMORY_TRASH_RETENTION_DAYS. Default 30 days; 0 disables the
+ * automatic purge. Invalid values fall back to the default rather than
+ * risk purging the whole trash.
+ */
+export function parseTrashRetentionDays(value: string | undefined): number {
+  if (value == null || value.trim() === '') return 30;
+  const parsed = Number(value);
+  if (isNaN(parsed) || parsed < 0) return 30;
+  return parsed;
+}
+
+const DUPLICATE_POLICIES: readonly DuplicatePolicy[] = ['reject', 'merge', 'flag', 'off'];
+
+/** Parse MEMORY_DUPLICATE_POLICY. Default "flag". */
+export function parseDuplicatePolicy(value: string | undefined): DuplicatePolicy {
+  const policy = value?.trim().toLowerCase() as DuplicatePolicy | undefined;
+  return policy && DUPLICATE_POLICIES.includes(policy) ? policy : 'flag';
+}
+
+/** Parse MEMORY_DUPLICATE_THRESHOLD (cosine similarity, 0–1). Default 0.95. */
+export function parseDuplicateThreshold(value: string | undefined): number {
+  if (value == null || value.trim() === '') return 0.95;
+  const parsed = Number(value);
+  if (isNaN(parsed) || parsed <= 0 || parsed > 1) return 0.95;
+  return parsed;
+}
+
 // ── LanceMemoryStore ───────────────────────────────────────────────
 
+export interface LanceMemoryStoreOptions {
+  /** Namespace used when a request does not name one. Default: "default". */
+  defaultNamespace?: string;
+  /**
+   * Days a deleted memory stays in the trash before it is purged — on
+   * startup, then at most hourly on delete and listTrash. Default 30; 0
+   * keeps it forever.
+   */
+  trashRetentionDays?: number;
+  /** Near-duplicate handling for store/storeBatch when a request does not choose one. Default "flag". */
+  duplicatePolicy?: DuplicatePolicy;
+  /** Cosine similarity at or above which new content counts as a near-duplicate. Default 0.95. */
+  duplicateThreshold?: number;
+  /** The configured taxonomy. Memories in other categories are reported on startup. */
+  categories?: string[];
+  /** Case folding and aliases applied to tags in store, update and search filters. Default: none. */
+  tagNormalisation?: TagNormalisation;
+  /** How long content is split into passages. Default: 1000-character passages overlapping by 150. */
+  chunking?: ChunkingOptions;
+  /** Cross-encoder for searches that ask to rerank. Without one, such searches fail. */
+  reranker?: Reranker;
+  /** Whether searches rerank by default, and how many candidates. Default: off, 30 candidates. */
+  rerank?: RerankOptions;
+  /** Half-lives by category and tag. Default: MEMORY_DECAY_HALF_LIFE for everything. */
+  decayPolicy?: DecayPolicy;
+}
+
+interface StoredEmbedding {
+  model: string | null;    // null for tables created before the model was recorded
+  dimensions: number;
+}
+
+/** Vectors for content about to be stored: passages are empty for content stored whole. */
+interface Embedding {
+  vector: number[];
+  chunks: ChunkVector[];
+}
+
+type ChunkVector = Chunk & { vector: number[] };
+
+/** The nearest passage of a chunked memory to a search query. */
+interface PassageHit {
+  distance: number;
+  chunk: number;
+  start: number;
+  end: number;
+}
+
+interface DuplicateCandidate {
+  row: Record<string, unknown>;
+  similarity: number;
+  pending: boolean;   // true when the match is an earlier row of the same batch
+}
+
 export class LanceMemoryStore implements MemoryStore {
   private db: lancedb.Connection | null = null;
   private table: lancedb.Table | null = null;
+  private revisions: lancedb.Table | null = null;
+  private links: lancedb.Table | null = null;
+  private chunks: lancedb.Table | null = null;
   private ftsIndexCreated = false;
-  private reranker: lancedb.rerankers.RRFReranker | null = null;
+  private lastTrashPurge = 0;
+  private readonly defaultNamespace: string;
+  private readonly trashRetentionDays: number;
+  private readonly duplicatePolicy: DuplicatePolicy;
+  private readonly duplicateThreshold: number;
+  private readonly categories: string[] | null;
+  private readonly tagNormalisation: TagNormalisation;
+  private readonly chunking: ChunkingOptions;
+  private readonly crossEncoder: Reranker | null;
+  private readonly rerankOptions: RerankOptions;
+  private readonly decayPolicy: DecayPolicy;
+  private storedEmbedding: StoredEmbedding | null = null;
 
   constructor(
     private readonly dbPath: string,
     private readonly embedder: Embedder,
-  ) {}
+    options: LanceMemoryStoreOptions = {},
+  ) {
+    this.defaultNamespace = options.defaultNamespace?.trim() || DEFAULT_NAMESPACE;
+    this.trashRetentionDays = options.trashRetentionDays ?? 30;
+    this.duplicatePolicy = options.duplicatePolicy ?? 'flag';
+    this.duplicateThreshold = options.duplicateThreshold ?? 0.95;
+    this.categories = options.categories ?? null;
+    this.tagNormalisation = options.tagNormalisation ?? {};
+    this.chunking = options.chunking ?? DEFAULT_CHUNKING;
+    this.crossEncoder = options.reranker ?? null;
+    this.rerankOptions = options.rerank ?? DEFAULT_RERANK;
+    this.decayPolicy = options.decayPolicy ?? DEFAULT_DECAY_POLICY;
+  }
 
   async initialize(): Promise<void> {
     this.db = await lancedb.connect(this.dbPath);
-    this.reranker = await lancedb.rerankers.RRFReranker.create(60);
-    const names = await this.db.tableNames();
+    let names = await this.db.tableNames();
+    if (names.includes(SWAP_TABLE)) {
+      await this.recoverSwap(names.includes('memories'));
+      names = await this.db.tableNames();
+    }
     if (names.includes('memories')) {
       this.table = await this.db.openTable('memories');
-      // Migrate schema: add access_count and last_accessed_at columns if missing.
-      // These were introduced in v1.1.2 for importance-driven decay.
-      await this.migrateSchema();
+      this.storedEmbedding = await readEmbedding(this.table);
+      // Migrate schema: add columns introduced after the table was created.
+      await this.migrateSchema(this.table, this.migrationColumns());
       // Recreate FTS index with proper config (stemming, stop words, positions).
       // replace: true makes this idempotent; negligible cost at our scale.
       await this.tryCreateFtsIndex();
     }
+    if (names.includes('memory_revisions')) {
+      this.revisions = await this.db.openTable('memory_revisions');
+      await this.migrateSchema(this.revisions, [{ name: 'metadata', valueSql: `'{}'` }]);
+    }
+    if (names.includes('memory_links')) {
+      this.links = await this.db.openTable('memory_links');
+    }
+    if (names.includes(CHUNKS_TABLE)) {
+      await this.openChunks();
+    }
+    await this.purgeExpiredTrash();
+    await this.validateCategories();
+    this.warnIfStale();
+  }
+
+  /**
+   * Open the passage table. A reembed interrupted between rebuilding it and
+   * swapping in the new memories table leaves passages made by another
+   * model than the memories; those are dropped and the next reembed
+   * rebuilds them. Until then the affected memories match on their own
+   * vector only.
+   */
+  private async openChunks(): Promise<void> {
+    const chunks = await this.db!.openTable(CHUNKS_TABLE);
+    const made = await readEmbedding(chunks);
+    const stored = this.storedEmbedding;
+    if (!stored || made.dimensions !== stored.dimensions || (stored.model !== null && made.model !== stored.model)) {
+      console.error('[MemoryStore] Passage vectors do not match the memories table and were dropped. Run reembed to rebuild them.');
+      await this.db!.dropTable(CHUNKS_TABLE);
+      return;
+    }
+    this.chunks = chunks;
+  }
+
+  /**
+   * Warn when the stored vectors were made by a different model than the
+   * configured one. Similarity against them is meaningless (and with a
+   * different vector size, impossible) until reembed rebuilds them.
+   */
+  private warnIfStale(): void {
+    const status = this.embeddingStatus();
+    if (!status.stale) return;
+    console.error(
+      `[MemoryStore] Stored vectors were made by ${status.storedModel ?? 'an unrecorded model'} ` +
+      `(${status.storedDimensions} dimensions) but the embedder is ${status.model} (${status.dimensions} dimensions). ` +
+      'Run reembed to rebuild them.',
+    );
+  }
+
+  private embeddingStatus(): EmbeddingStatus {
+    const model = this.embedder.modelId();
+    const dimensions = this.embedder.dimensions();
+    const stored = this.storedEmbedding;
+    return {
+      model,
+      dimensions,
+      storedModel: stored?.model ?? null,
+      storedDimensions: stored?.dimensions ?? null,
+      // Tables from before the model was recorded are trusted if the size fits.
+      stale: stored !== null && (stored.dimensions !== dimensions || (stored.model !== null && stored.model !== model)),
+    };
+  }
+
+  /**
+   * Warn about memories whose category is not in the configured taxonomy,
+   * e.g. after a category was removed from the config. They stay readable;
+   * recategorize moves them into a current category.
+   */
+  private async validateCategories(): Promise<void> {
+    if (!this.table || !this.categories) return;
+
+    const allowed = this.categories.map(c => `'${sanitise(c)}'`).join(', ');
+    const rows = await this.table.query().where(`category NOT IN (${allowed})`).select(['category']).toArray();
+    if (rows.length === 0) return;
+
+    const counts: Record<string, number> = {};
+    for (const row of rows) {
+      counts[row.category as string] = (counts[row.category as string] ?? 0) + 1;
+    }
+    const summary = Object.entries(counts).map(([category, n]) => `${category} (${n})`).join(', ');
+    console.error(
+      `[MemoryStore] ${rows.length} memories use categories outside the taxonomy: ${summary}. ` +
+      'Use the recategorize tool to migrate them.',
+    );
   }
 
   /**
    * Migrate the table schema to include columns added in newer versions.
    * Uses LanceDB's addColumns with SQL defaults — a metadata-only operation.
-   * Idempotent: silently skips if columns already exist.
+   * Idempotent: silently skips columns that already exist.
    */
-  private async migrateSchema(): Promise<void> {
-    if (!this.table) return;
-
+  private async migrateSchema(
+    table: lancedb.Table,
+    columns: { name: string; valueSql: string }[],
+  ): Promise<void> {
     try {
-      // Probe for access_count by reading a single row
-      const probe = await this.table.query().limit(1).toArray();
-      if (probe.length > 0 && !('access_count' in probe[0])) {
-        console.log('[MemoryStore] Migrating schema: adding access_count and last_accessed_at columns');
-        await this.table.addColumns([
-          { name: 'access_count', valueSql: '0' },
-          { name: 'last_accessed_at', valueSql: 'updated_at' },
-        ]);
-        console.log('[MemoryStore] Schema migration complete');
+      const schema = await table.schema();
+      const existing = new Set(schema.fields.map(f => f.name));
+      const missing = columns.filter(c => !existing.has(c.name));
+      if (missing.length > 0) {
+        console.error(`[MemoryStore] Migrating schema: adding ${missing.map(c => c.name).join(', ')}`);
+        await table.addColumns(missing);
+        console.error('[MemoryStore] Schema migration complete');
       }
     } catch (err) {
       // Non-fatal: if migration fails, the store degrades gracefully
@@ -97,32 +403,138 @@ export class LanceMemoryStore implements MemoryStore {
     }
   }
 
+  /** Columns added after v1.0, with the SQL used to backfill existing rows. */
+  private migrationColumns(): { name: string; valueSql: string }[] {
+    return [
+      // v1.1.2: importance-driven decay
+      { name: 'access_count', valueSql: '0' },
+      { name: 'last_accessed_at', valueSql: 'updated_at' },
+      // Namespaces: pre-existing memories join the configured default namespace
+      { name: 'namespace', valueSql: `'${sanitise(this.defaultNamespace)}'` },
+      // Soft delete: every pre-existing memory is live
+      { name: 'deleted_at', valueSql: `''` },
+      // Structured metadata: pre-existing memories have none
+      { name: 'metadata', valueSql: `'{}'` },
+      { name: 'metadata_index', valueSql: `''` },
+      // Tag filters in the query: index derived from the existing tags
+      { name: 'tag_index', valueSql: TAG_INDEX_SQL },
+      // Chunking: pre-existing memories are stored whole until reembedded
+      { name: 'chunk_count', valueSql: '0' },
+    ];
+  }
+
   // ── Storage ────────────────────────────────────────────────────
 
-  async store(request: StoreRequest): Promise<Memory> {
-    const row = await this.buildRow(request);
-    const seeded = await this.ensureTable(row);
-    if (!seeded) {
-      await this.table!.add([row]);
-    }
-    return rowToMemory(row);
+  async store(request: StoreRequest): Promise<StoredMemory> {
+    const [memory] = await this.storeBatch([request]);
+    return memory;
   }
 
-  async storeBatch(requests: StoreRequest[]): Promise<Memory[]> {
+  async storeBatch(requests: StoreRequest[]): Promise<StoredMemory[]> {
     if (requests.length === 0) return [];
+    for (const request of requests) this.checkCategory(request.category);
 
-    const vectors = await this.embedder.embedBatch(requests.map(r => r.content));
+    const embeddings = await this.vectorize(requests.map(r => r.content));
     const now = new Date().toISOString();
-    const rows = requests.map((req, i) => toRow(req, vectors[i], now));
+    const rows = requests.map((req, i) =>
+      toRow({ ...req, tags: this.normaliseTags(req.tags) }, this.resolveNamespace(req.namespace), embeddings[i], now),
+    );
+    return this.insertRows(rows, requests, embeddings);
+  }
 
-    const seeded = await this.ensureTable(rows[0]);
-    // If the table was just created, rows[0] was already inserted as
-    // seed data (LanceDB requires initial data to infer schema).
-    const remaining = seeded ? rows.slice(1) : rows;
-    if (remaining.length > 0) {
-      await this.table!.add(remaining);
+  /**
+   * Insert freshly built rows, applying each request's near-duplicate
+   * policy against the table and against earlier rows of the same batch.
+   * Outcomes are resolved after the loop so a pending row that absorbed a
+   * later merge reports its final tags.
+   */
+  private async insertRows(
+    rows: MemoryRow[],
+    requests: StoreRequest[],
+    embeddings: Embedding[],
+  ): Promise<StoredMemory[]> {
+    const accepted: MemoryRow[] = [];
+    const passages: { id: string; chunks: ChunkVector[] }[] = [];
+    const outcomes: (() => StoredMemory)[] = [];
+
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      const policy = requests[i].onDuplicate ?? this.duplicatePolicy;
+      const match = policy === 'off' ? null : await this.findDuplicate(row, accepted);
+
+      if (!match) {
+        accepted.push(row);
+        passages.push({ id: row.id, chunks: embeddings[i].chunks });
+        outcomes.push(() => rowToStored(row));
+        continue;
+      }
+
+      const id = match.row.id as string;
+      const similarity = Math.round(match.similarity * 1000) / 1000;
+      if (policy === 'flag') {
+        accepted.push(row);
+        passages.push({ id: row.id, chunks: embeddings[i].chunks });
+        outcomes.push(() => ({ ...rowToStored(row), duplicate: { id, similarity, action: 'flagged' } }));
+      } else if (policy === 'reject') {
+        outcomes.push(() => ({ ...rowToMemory(match.row), duplicate: { id, similarity, action: 'rejected' } }));
+      } else {
+        const existingTags: string[] = JSON.parse(match.row.tags as string);
+        const tags = [...new Set([...existingTags, ...JSON.parse(row.tags)])];
+        let merged: Memory | null = null;
+        if (match.pending) {
+          Object.assign(match.row, tagColumns(tags));
+        } else if (tags.length > existingTags.length) {
+          merged = await this.update(id, { tags, reason: 'merged near-duplicate' });
+        }
+        outcomes.push(() => ({
+          ...(merged ?? rowToMemory(match.row)),
+          duplicate: { id, similarity, action: 'merged' },
+        }));
+      }
+    }
+
+    if (accepted.length > 0) {
+      const seeded = await this.ensureTable(accepted[0]);
+      // If the table was just created, accepted[0] was already inserted as
+      // seed data (LanceDB requires initial data to infer schema).
+      const remaining = seeded ? accepted.slice(1) : accepted;
+      if (remaining.length > 0) {
+        await this.table!.add(remaining);
+      }
+      await this.addChunks(passages);
+    }
+    return outcomes.map(outcome => outcome());
+  }
+
+  /** The most similar live memory in the row's namespace, if it clears the threshold. */
+  private async findDuplicate(row: MemoryRow, pending: MemoryRow[]): Promise<DuplicateCandidate | null> {
+    let best: DuplicateCandidate | null = null;
+    const consider = (candidate: DuplicateCandidate): void => {
+      if (candidate.similarity >= this.duplicateThreshold && (!best || candidate.similarity > best.similarity)) {
+        best = candidate;
+      }
+    };
+
+    for (const other of pending) {
+      if (other.namespace === row.namespace) {
+        consider({ row: other, similarity: cosineSimilarity(row.vector, other.vector), pending: true });
+      }
+    }
+
+    if (this.table) {
+      const [nearest] = await this.table
+        .query()
+        .nearestTo(row.vector)
+        .distanceType('cosine')
+        .where(`${LIVE} AND namespace = '${sanitise(row.namespace)}'`)
+        .limit(1)
+        .toArray();
+      if (nearest) {
+        // LanceDB's cosine distance is 1 - cosine similarity.
+        consider({ row: nearest, similarity: 1 - (nearest._distance as number), pending: false });
+      }
     }
-    return rows.map(rowToMemory);
+    return best;
   }
 
   // ── Search ─────────────────────────────────────────────────────
@@ -135,19 +547,35 @@ export class LanceMemoryStore implements MemoryStore {
     if (!this.table) return [];
 
     const limit = filters.limit ?? 10;
+    if (filters.minScore != null && !(filters.minScore >= 0 && filters.minScore <= 1)) {
+      throw new Error(`Invalid minScore ${filters.minScore} — expected a number from 0 to 1`);
+    }
+    const scoped: SearchFilters = {
+      ...filters,
+      namespace: this.resolveNamespace(filters.namespace),
+      tags: filters.tags && this.normaliseTags(filters.tags),
+      tagsAll: filters.tagsAll && this.normaliseTags(filters.tagsAll),
+      tagsNone: filters.tagsNone && this.normaliseTags(filters.tagsNone),
+    };
+
+    // Reranking re-scores a wider candidate set, then applies the limit.
+    const rerank = filters.rerank ?? (this.rerankOptions.enabled && this.crossEncoder !== null);
+    if (rerank && !this.crossEncoder) throw new Error('Reranking is not configured on this store');
+    const fetchLimit = rerank ? Math.max(limit, this.rerankOptions.candidates) : limit;
 
     let results: SearchResult[];
     switch (mode) {
       case 'semantic':
-        results = await this.semanticSearch(query, filters, limit);
+        results = await this.semanticSearch(query, scoped, fetchLimit);
         break;
       case 'keyword':
-        results = await this.keywordSearch(query, filters, limit);
+        results = await this.keywordSearch(query, scoped, fetchLimit);
         break;
       case 'hybrid':
-        results = await this.hybridSearch(query, filters, limit);
+        results = await this.hybridSearch(query, scoped, fetchLimit);
         break;
     }
+    if (rerank) results = await rerankResults(this.crossEncoder!, query, results, limit);
 
     // Fire-and-forget access tracking for returned results
     const ids = results.map(r => r.memory.id);
@@ -156,23 +584,38 @@ export class LanceMemoryStore implements MemoryStore {
     return results;
   }
 
-  async findRelated(memoryId: string, limit: number = 5): Promise<SearchResult[]> {
+  /**
+   * Similarity neighbours of a memory. With `includeLinks`, memories
+   * explicitly linked to it come first (score 1), and similarity
+   * neighbours fill the remaining slots.
+   */
+  async findRelated(
+    memoryId: string,
+    limit: number = 5,
+    options: FindRelatedOptions = {},
+  ): Promise<SearchResult[]> {
     if (!this.table) return [];
 
     const original = await this.fetchById(memoryId);
     if (!original) throw new Error(`Memory ${memoryId} not found`);
 
+    // Neighbours are drawn from the source memory's own namespace.
     const results = await this.table
       .query()
       .nearestTo(original.vector as number[])
       .distanceType('cosine')
-      .limit(limit + 1)
+      .where(`${LIVE} AND namespace = '${sanitise(rowNamespace(original))}'`)
+      .limit(limit * 2 + 1)
       .toArray();
 
-    const finalResults = toResults(
-      results.filter((r: Record<string, unknown>) => r.id !== memoryId),
+    const linked = options.includeLinks ? await this.linkedResults(memoryId) : [];
+    const linkedIds = new Set(linked.map(r => r.memory.id));
+    const similar = toResults(
+      results.filter((r: Record<string, unknown>) => r.id !== memoryId && !linkedIds.has(r.id as string)),
       limit,
+      this.decayPolicy,
     );
+    const finalResults = [...linked, ...similar].slice(0, limit);
 
     // Fire-and-forget access tracking
     const ids = finalResults.map(r => r.memory.id);
@@ -181,14 +624,18 @@ export class LanceMemoryStore implements MemoryStore {
     return finalResults;
   }
 
-  async listRecent(limit: number = 10, category?: MemoryCategory): Promise<Memory[]> {
+  async listRecent(
+    limit: number = 10,
+    category?: MemoryCategory,
+    namespace?: string,
+  ): Promise<Memory[]> {
     if (!this.table) return [];
 
-    let q = this.table.query();
+    const clauses = [LIVE, `namespace = '${sanitise(this.resolveNamespace(namespace))}'`];
     if (category) {
-      q = q.where(`category = '${sanitise(category)}'`);
+      clauses.push(`category = '${sanitise(category)}'`);
     }
-    const rows = await q.toArray();
+    const rows = await this.table.query().where(clauses.join(' AND ')).toArray();
 
     return (rows as Record<string, unknown>[])
       .map(rowToMemory)
@@ -203,57 +650,297 @@ export class LanceMemoryStore implements MemoryStore {
 
     const existing = await this.fetchById(id);
     if (!existing) throw new Error(`Memory ${id} not found`);
+    // A memory may keep a retired category; it just cannot be given one.
+    if (updates.category !== undefined && updates.category !== existing.category) {
+      this.checkCategory(updates.category);
+    }
 
     const content = updates.content ?? (existing.content as string);
     const category = updates.category ?? (existing.category as string);
-    const tags = updates.tags ?? JSON.parse(existing.tags as string);
+    const tags = updates.tags ? this.normaliseTags(updates.tags) : JSON.parse(existing.tags as string);
+    const metadata = updates.metadata ?? rowMetadata(existing);
     const now = new Date().toISOString();
 
-    const vector = updates.content
-      ? await this.embedder.embed(content)
-      : existing.vector as number[];
+    await this.recordRevision(existing, now, updates.reason ?? '');
+
+    const embedding = updates.content ? (await this.vectorize([content]))[0] : null;
 
     const updatedRow: MemoryRow = {
       id,
+      namespace: rowNamespace(existing),
       content,
       category,
-      tags: JSON.stringify(tags),
+      ...tagColumns(tags),
+      ...metadataColumns(metadata),
       created_at: existing.created_at as string,
       updated_at: now,
-      vector,
+      vector: embedding ? embedding.vector : Array.from(existing.vector as Iterable<number>),
       access_count: safeAccessCount(existing),
       last_accessed_at: (existing.last_accessed_at as string) ?? (existing.updated_at as string),
+      deleted_at: '',
+      chunk_count: embedding ? embedding.chunks.length : chunkCount(existing),
     };
 
     await this.table.delete(`id = '${sanitise(id)}'`);
     await this.table.add([updatedRow]);
+    if (embedding) {
+      if (chunkCount(existing) > 0) await this.deleteChunks([id]);
+      await this.addChunks([{ id, chunks: embedding.chunks }]);
+    }
 
     return rowToMemory(updatedRow);
   }
 
+  /** Move a memory to the trash. It can be restored until the trash is emptied. */
   async delete(id: string): Promise<void> {
     if (!this.table) throw new Error('No memories stored yet');
-    await this.table.delete(`id = '${sanitise(id)}'`);
+    const existing = await this.fetchById(id);
+    if (!existing) throw new Error(`Memory ${id} not found`);
+
+    await this.table.update({
+      where: `id = '${sanitise(id)}'`,
+      values: { deleted_at: new Date().toISOString() },
+    });
+    await this.purgeExpiredTrash(TRASH_PURGE_INTERVAL_MS);
+  }
+
+  // ── Trash ──────────────────────────────────────────────────────
+
+  async listTrash(namespace?: string): Promise<TrashedMemory[]> {
+    if (!this.table) return [];
+    await this.purgeExpiredTrash(TRASH_PURGE_INTERVAL_MS);
+
+    const rows = await this.table
+      .query()
+      .where(`${TRASHED} AND namespace = '${sanitise(this.resolveNamespace(namespace))}'`)
+      .toArray();
+
+    return (rows as Record<string, unknown>[])
+      .map(row => ({ ...rowToMemory(row), deletedAt: row.deleted_at as string }))
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  async restore(id: string): Promise<Memory> {
+    if (!this.table) throw new Error('No memories stored yet');
+    const trashed = await this.fetchById(id, TRASHED);
+    if (!trashed) throw new Error(`Memory ${id} is not in the trash`);
+
+    await this.table.update({
+      where: `id = '${sanitise(id)}'`,
+      values: { deleted_at: '' },
+    });
+    return rowToMemory(trashed);
+  }
+
+  /**
+   * Purge memories trashed longer than the retention period, unless the
+   * last purge was under `interval` ms ago.
+   */
+  private async purgeExpiredTrash(interval = 0): Promise<void> {
+    if (!this.table || this.trashRetentionDays <= 0) return;
+    if (Date.now() - this.lastTrashPurge < interval) return;
+    this.lastTrashPurge = Date.now();
+    await this.emptyTrash({ olderThanDays: this.trashRetentionDays, allNamespaces: true });
+  }
+
+  /**
+   * Permanently delete trashed memories (and their revision history).
+   * With `olderThanDays`, only memories trashed at least that long ago.
+   */
+  async emptyTrash(options: EmptyTrashOptions = {}): Promise<EmptyTrashResult> {
+    if (!this.table) return { purged: 0, ids: [] };
+
+    const clauses = [TRASHED];
+    if (options.olderThanDays) {
+      const cutoff = new Date(Date.now() - options.olderThanDays * MS_PER_DAY).toISOString();
+      clauses.push(`deleted_at <= '${cutoff}'`);
+    }
+    if (!options.allNamespaces) {
+      clauses.push(`namespace = '${sanitise(this.resolveNamespace(options.namespace))}'`);
+    }
+    const predicate = clauses.join(' AND ');
+
+    const rows = await this.table.query().where(predicate).select(['id']).toArray();
+    const ids = (rows as Record<string, unknown>[]).map(r => r.id as string);
+    if (ids.length === 0) return { purged: 0, ids };
+
+    await this.table.delete(predicate);
+    const list = ids.map(id => `'${sanitise(id)}'`).join(', ');
+    if (this.revisions) {
+      await this.revisions.delete(`memory_id IN (${list})`);
+    }
+    if (this.links) {
+      await this.links.delete(`source_id IN (${list}) OR target_id IN (${list})`);
+    }
+    await this.deleteChunks(ids);
+    return { purged: ids.length, ids };
+  }
+
+  // ── Links ──────────────────────────────────────────────────────
+
+  /** Assert `source <relation> target`. Linking the same pair twice is a no-op. */
+  async link(sourceId: string, targetId: string, relation: LinkRelation): Promise<MemoryLink> {
+    if (sourceId === targetId) throw new Error('A memory cannot be linked to itself');
+    for (const id of [sourceId, targetId]) {
+      if (!(await this.fetchById(id))) throw new Error(`Memory ${id} not found`);
+    }
+
+    const existing = (await this.linksOf([sourceId])).find(
+      l => l.sourceId === sourceId && l.targetId === targetId && l.relation === relation,
+    );
+    if (existing) return existing;
+
+    const row: LinkRow = {
+      id: crypto.randomUUID(),
+      source_id: sourceId,
+      target_id: targetId,
+      relation,
+      created_at: new Date().toISOString(),
+    };
+    if (this.links) {
+      await this.links.add([row]);
+    } else {
+      this.links = await this.db!.createTable('memory_links', [row]);
+    }
+    return rowToLink(row);
+  }
+
+  /** Remove links from source to target — of one relation, or all of them. Returns the count removed. */
+  async unlink(sourceId: string, targetId: string, relation?: LinkRelation): Promise<number> {
+    if (!this.links) return 0;
+    let predicate = `source_id = '${sanitise(sourceId)}' AND target_id = '${sanitise(targetId)}'`;
+    if (relation) {
+      predicate += ` AND relation = '${sanitise(relation)}'`;
+    }
+    const count = await this.links.countRows(predicate);
+    if (count > 0) {
+      await this.links.delete(predicate);
+    }
+    return count;
+  }
+
+  /**
+   * Breadth-first walk along links in both directions, up to `depth` hops.
+   * Trashed memories and the links that lead to them are left out.
+   */
+  async getGraph(memoryId: string, depth: number = 1): Promise<MemoryGraph> {
+    const root = await this.fetchById(memoryId);
+    if (!root) throw new Error(`Memory ${memoryId} not found`);
+
+    const nodes = new Map<string, Memory>([[memoryId, rowToMemory(root)]]);
+    const links = new Map<string, MemoryLink>();
+    let frontier = [memoryId];
+
+    for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+      const edges = await this.linksOf(frontier);
+      const unseen = new Set<string>();
+      for (const edge of edges) {
+        for (const id of [edge.sourceId, edge.targetId]) {
+          if (!nodes.has(id)) unseen.add(id);
+        }
+      }
+
+      const found = await this.fetchManyById([...unseen]);
+      for (const memory of found) nodes.set(memory.id, memory);
+      for (const edge of edges) {
+        if (nodes.has(edge.sourceId) && nodes.has(edge.targetId)) links.set(edge.id, edge);
+      }
+      frontier = found.map(m => m.id);
+    }
+
+    return { rootId: memoryId, depth, nodes: [...nodes.values()], links: [...links.values()] };
+  }
+
+  /** Every link touching any of `ids`, in either direction. */
+  private async linksOf(ids: string[]): Promise<MemoryLink[]> {
+    if (!this.links || ids.length === 0) return [];
+    const list = ids.map(id => `'${sanitise(id)}'`).join(', ');
+    const rows = await this.links
+      .query()
+      .where(`source_id IN (${list}) OR target_id IN (${list})`)
+      .toArray();
+    return (rows as Record<string, unknown>[]).map(rowToLink);
+  }
+
+  private async linkedResults(memoryId: string): Promise<SearchResult[]> {
+    const edges = await this.linksOf([memoryId]);
+    const memories = new Map(
+      (await this.fetchManyById(edges.map(e => (e.sourceId === memoryId ? e.targetId : e.sourceId))))
+        .map(m => [m.id, m]),
+    );
+
+    const results: SearchResult[] = [];
+    const seen = new Set<string>();
+    for (const edge of edges) {
+      const outgoing = edge.sourceId === memoryId;
+      const memory = memories.get(outgoing ? edge.targetId : edge.sourceId);
+      if (!memory || seen.has(memory.id)) continue;
+      seen.add(memory.id);
+      results.push({
+        memory,
+        score: 1,
+        link: { relation: edge.relation, direction: outgoing ? 'outgoing' : 'incoming' },
+      });
+    }
+    return results;
+  }
+
+  // ── History ────────────────────────────────────────────────────
+
+  /** Previous versions of a memory, newest first. */
+  async history(id: string): Promise<MemoryRevision[]> {
+    if (!this.revisions) return [];
+    const rows = await this.revisions.query().where(`memory_id = '${sanitise(id)}'`).toArray();
+    return (rows as Record<string, unknown>[])
+      .map(rowToRevision)
+      .sort((a, b) => b.supersededAt.localeCompare(a.supersededAt));
+  }
+
+  /**
+   * Restore a memory's content, category and tags from a revision. The
+   * revert is itself an update, so the version it replaces is kept too.
+   */
+  async revert(id: string, revisionId: string): Promise<Memory> {
+    const revision = (await this.history(id)).find(r => r.id === revisionId);
+    if (!revision) throw new Error(`Revision ${revisionId} not found for memory ${id}`);
+
+    return this.update(id, {
+      content: revision.content,
+      category: revision.category,
+      tags: revision.tags,
+      metadata: revision.metadata,
+      reason: `revert to revision ${revisionId}`,
+    });
   }
 
   // ── Stats ──────────────────────────────────────────────────────
 
-  async stats(): Promise<MemoryStats> {
+  /**
+   * Database statistics. Covers every namespace unless `namespace` is
+   * given; `byNamespace` always reflects the rows that were counted.
+   */
+  async stats(namespace?: string): Promise<MemoryStats> {
     if (!this.table) {
       return {
-        totalMemories: 0, byCategory: {},
+        totalMemories: 0, byCategory: {}, byNamespace: {}, inTrash: 0,
         oldestMemory: null, newestMemory: null,
         neverAccessed: 0, belowPruneThreshold: 0,
         avgAccessCount: 0, mostAccessed: [],
+        embedding: this.embeddingStatus(),
+        decayPolicy: this.decayPolicy,
       };
     }
 
-    const rows = (await this.table.query().toArray()) as Record<string, unknown>[];
+    const scope = namespace ? ` AND namespace = '${sanitise(namespace)}'` : '';
+    const rows = (await this.table.query().where(LIVE + scope).toArray()) as Record<string, unknown>[];
     const memories = rows.map(rowToMemory);
+    const inTrash = await this.table.countRows(TRASHED + scope);
 
     const byCategory: Record<string, number> = {};
+    const byNamespace: Record<string, number> = {};
     for (const m of memories) {
       byCategory[m.category] = (byCategory[m.category] ?? 0) + 1;
+      byNamespace[m.namespace] = (byNamespace[m.namespace] ?? 0) + 1;
     }
 
     const sorted = [...memories].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
@@ -274,17 +961,10 @@ export class LanceMemoryStore implements MemoryStore {
         count: ac,
       });
 
-      // Check prune eligibility
-      if (!isEvergreen(row)) {
-        const effHL = DECAY_HALF_LIFE_DAYS * importanceMultiplier(row);
-        const ageDays = Math.max(
-          0,
-          (Date.now() - new Date(row.updated_at as string).getTime()) / MS_PER_DAY,
-        );
-        const strength = Math.pow(0.5, ageDays / effHL);
-        if (strength < 0.05 || (ac === 0 && ageDays > 90)) {
-          belowPruneThreshold++;
-        }
+      // Check prune eligibility, with prune's defaults
+      const decay = rowDecay(row, this.decayPolicy);
+      if (decay.halfLifeDays !== null && (decay.factor < 0.05 || (ac === 0 && decay.ageDays > 90))) {
+        belowPruneThreshold++;
       }
     }
 
@@ -293,6 +973,8 @@ export class LanceMemoryStore implements MemoryStore {
     return {
       totalMemories: memories.length,
       byCategory,
+      byNamespace,
+      inTrash,
       oldestMemory: sorted[0]?.createdAt ?? null,
       newestMemory: sorted.at(-1)?.createdAt ?? null,
       neverAccessed,
@@ -301,6 +983,8 @@ export class LanceMemoryStore implements MemoryStore {
         ? Math.round((totalAccessCount / memories.length) * 10) / 10
         : 0,
       mostAccessed: accessCounts.slice(0, 5),
+      embedding: this.embeddingStatus(),
+      decayPolicy: this.decayPolicy,
     };
   }
 
@@ -313,19 +997,19 @@ export class LanceMemoryStore implements MemoryStore {
       return { pruned: 0, inspected: 0, dryRun, candidates: [] };
     }
 
-    const rows = (await this.table.query().toArray()) as MemoryRow[];
+    let predicate = LIVE;
+    if (!options.allNamespaces) {
+      predicate += ` AND namespace = '${sanitise(this.resolveNamespace(options.namespace))}'`;
+    }
+    const rows = (await this.table.query().where(predicate).toArray()) as MemoryRow[];
     const candidates: PruneResult['candidates'] = [];
 
     for (const row of rows) {
-      if (isEvergreen(row)) continue;
+      // Memories that do not decay — evergreen, or under a "never" rule — are kept.
+      const { halfLifeDays, ageDays, factor: strength } = rowDecay(row, this.decayPolicy);
+      if (halfLifeDays === null) continue;
 
       const accessCount = safeAccessCount(row);
-      const effectiveHalfLife = DECAY_HALF_LIFE_DAYS * importanceMultiplier(row);
-      const ageMs = Date.now() - new Date(row.updated_at).getTime();
-      const ageDays = Math.max(0, ageMs / MS_PER_DAY);
-      const strength = effectiveHalfLife > 0
-        ? Math.pow(0.5, ageDays / effectiveHalfLife)
-        : 0;
 
       let reason = '';
       if (strength < minStrength) {
@@ -344,6 +1028,7 @@ export class LanceMemoryStore implements MemoryStore {
       }
     }
 
+    // Pruned memories go to the trash like any other delete.
     let pruned = 0;
     if (!dryRun && candidates.length > 0) {
       for (const c of candidates) {
@@ -360,57 +1045,515 @@ export class LanceMemoryStore implements MemoryStore {
     };
   }
 
-  // ── Access tracking ────────────────────────────────────────────
+  // ── Recategorisation ───────────────────────────────────────────
 
-  private async touchAccessed(ids: string[]): Promise<void> {
-    if (!this.table || ids.length === 0) return;
-    const now = new Date().toISOString();
+  /**
+   * Rename or merge categories in bulk. Trashed memories and revisions are
+   * moved too, so a later restore or revert cannot bring a retired
+   * category back. This is a relabel, not an edit, so no revisions are
+   * recorded: each would hold only the retired category, for a revert to
+   * bring back. updatedAt is bumped, so copies elsewhere — the hardcopy,
+   * an export imported with newer-wins — can tell they are behind.
+   */
+  async recategorize(options: RecategorizeOptions): Promise<RecategorizeResult> {
+    const { dryRun = true, from, to } = options;
+    this.checkCategory(to);
+    const sources = from.filter(c => c !== to);
+    const result: RecategorizeResult = { dryRun, updated: 0, byCategory: {}, ids: [] };
+    if (!this.table || sources.length === 0) return result;
+
+    const categories = `category IN (${sources.map(c => `'${sanitise(c)}'`).join(', ')})`;
+    let predicate = categories;
+    if (!options.allNamespaces) {
+      predicate += ` AND namespace = '${sanitise(this.resolveNamespace(options.namespace))}'`;
+    }
+    const rows = await this.table.query().where(predicate).select(['id', 'category']).toArray();
+    for (const row of rows) {
+      result.byCategory[row.category as string] = (result.byCategory[row.category as string] ?? 0) + 1;
+      result.ids.push(row.id as string);
+    }
 
-    for (const id of ids) {
-      try {
-        const rows = await this.table.query()
-          .where(`id = '${sanitise(id)}'`)
-          .limit(1)
-          .toArray();
+    if (!dryRun && rows.length > 0) {
+      await this.table.update({ where: predicate, values: { category: to, updated_at: new Date().toISOString() } });
+      if (this.revisions) {
+        const ids = result.ids.map(id => `'${sanitise(id)}'`).join(', ');
+        await this.revisions.update({
+          where: `memory_id IN (${ids}) AND ${categories}`,
+          values: { category: to },
+        });
+      }
+      result.updated = rows.length;
+    }
+    return result;
+  }
 
-        if (rows.length === 0) continue;
-        const row = rows[0] as Record<string, unknown>;
-        const lastAccessed = (row.last_accessed_at as string) ?? (row.updated_at as string);
-        const hoursSince = (Date.now() - new Date(lastAccessed).getTime()) / 3_600_000;
+  // ── Re-embedding ───────────────────────────────────────────────
 
-        // Spacing effect: skip increment if accessed within the last hour
-        if (hoursSince < 1) continue;
+  /**
+   * Rebuild the vector of every memory, live or trashed, with the current
+   * embedder. New vectors are staged batch by batch in a side table, so an
+   * interrupted run picks up where it stopped; staged vectors whose memory
+   * has changed since are redone. The memories table is then recreated,
+   * since the vector size is part of its schema. Passages are rebuilt too,
+   * with the current chunking settings.
+   */
+  async reembed(options: ReembedOptions = {}): Promise<ReembedResult> {
+    const { batchSize = 32, onProgress } = options;
+    const model = this.embedder.modelId();
+    const dimensions = this.embedder.dimensions();
+    const result: ReembedResult = { model, dimensions, total: 0, reembedded: 0, resumed: 0 };
+    if (!this.table) return result;
+
+    const rows = await this.table.query().select(['id', 'content']).toArray();
+    result.total = rows.length;
+    if (rows.length === 0) {
+      // Nothing to keep: the next store creates a table for the current model.
+      await this.dropTable();
+      await this.dropChunks();
+      return result;
+    }
 
-        // LanceDB update: delete then re-add with incremented count
-        await this.table.delete(`id = '${sanitise(id)}'`);
-        const updatedRow = {
-          ...row,
-          access_count: safeAccessCount(row) + 1,
-          last_accessed_at: now,
-        };
-        await this.table.add([updatedRow]);
-      } catch {
-        // Access tracking is best-effort — don't fail the search
+    let staging = await this.openStaging();
+    const staged = new Map<string, string>();
+    for (const row of staging ? await staging.query().select(['id', 'content']).toArray() : []) {
+      staged.set(row.id as string, row.content as string);
+    }
+    const pending = rows.filter(row => staged.get(row.id as string) !== row.content);
+    const outdated = pending.filter(row => staged.has(row.id as string));
+    if (staging && outdated.length > 0) {
+      await staging.delete(`id IN (${outdated.map(row => `'${sanitise(row.id as string)}'`).join(', ')})`);
+    }
+    result.resumed = rows.length - pending.length;
+
+    let done = result.resumed;
+    await onProgress?.({ done, total: rows.length });
+    for (let i = 0; i < pending.length; i += batchSize) {
+      const batch = pending.slice(i, i + batchSize);
+      const embeddings = await this.vectorize(batch.map(row => row.content as string), texts => this.embedder.embedBatch(texts));
+      const stagedRows = batch.map((row, j) => ({
+        id: row.id,
+        content: row.content,
+        vector: embeddings[j].vector,
+        chunks: stagedChunks(embeddings[j].chunks),
+      }));
+      if (staging) {
+        await staging.add(stagedRows);
+      } else {
+        staging = await this.createStampedTable(STAGING_TABLE, stagedRows, model);
       }
+      result.reembedded += batch.length;
+      done += batch.length;
+      await onProgress?.({ done, total: rows.length });
     }
+
+    await this.swapVectors(staging!);
+    return result;
   }
 
-  // ── Private: search strategies ─────────────────────────────────
+  /**
+   * The staging table left by an interrupted run for the current model;
+   * others, and those staged before passages were, are dropped.
+   */
+  private async openStaging(): Promise<lancedb.Table | null> {
+    if (!(await this.db!.tableNames()).includes(STAGING_TABLE)) return null;
+    const staging = await this.db!.openTable(STAGING_TABLE);
+    const stored = await readEmbedding(staging);
+    const withChunks = (await staging.schema()).fields.some(f => f.name === 'chunks');
+    if (withChunks && stored.model === this.embedder.modelId() && stored.dimensions === this.embedder.dimensions()) {
+      return staging;
+    }
+    await this.db!.dropTable(STAGING_TABLE);
+    return null;
+  }
 
-  private async semanticSearch(
-    query: string,
-    filters: SearchFilters,
-    limit: number,
-  ): Promise<SearchResult[]> {
-    const vector = await this.embedder.embed(query);
-    const overFetch = limit * 3;
-    let search = this.table!.query().nearestTo(vector).distanceType('cosine').limit(overFetch);
-    search = applyWhereClause(search, filters);
-    const rows = await search.toArray();
-    return toResults(postFilter(rows, filters), limit);
+  /**
+   * Recreate the memories table with the staged vectors. The rebuilt rows
+   * are written to SWAP_TABLE before `memories` is dropped, so a crash in
+   * between is finished by recoverSwap() on the next start. If a write
+   * lands on `memories` while the rows are being built, they are rebuilt.
+   */
+  private async swapVectors(staging: lancedb.Table): Promise<void> {
+    const staged = new Map<string, { content: string; embedding: Embedding }>();
+    for (const row of await staging.query().toArray()) {
+      const content = row.content as string;
+      staged.set(row.id as string, {
+        content,
+        embedding: {
+          vector: Array.from(row.vector as Iterable<number>),
+          chunks: unstagedChunks(row.chunks as string, content),
+        },
+      });
+    }
+
+    let ids: string[];
+    for (;;) {
+      const version = await this.table!.version();
+      const current = await this.table!.query().toArray();
+      // Memories added or edited since they were staged are embedded now.
+      const changed = current.filter(row => staged.get(row.id as string)?.content !== row.content);
+      const fresh = await this.vectorize(changed.map(row => row.content as string), texts => this.embedder.embedBatch(texts));
+      changed.forEach((row, i) => staged.set(row.id as string, { content: row.content as string, embedding: fresh[i] }));
+
+      const rows = current.map(row => {
+        const { embedding } = staged.get(row.id as string)!;
+        return rebuiltRow(row, embedding.vector, embedding.chunks.length);
+      });
+      await this.createStampedTable(SWAP_TABLE, rows, this.embedder.modelId());
+      if (await this.table!.version() === version) {
+        ids = rows.map(row => row.id);
+        break;
+      }
+      await this.db!.dropTable(SWAP_TABLE);
+    }
+
+    // Passages first: if the swap is interrupted now, openChunks() finds
+    // them made by another model than the memories and drops them.
+    await this.dropChunks();
+    await this.addChunks(ids.map(id => ({ id, chunks: staged.get(id)!.embedding.chunks })));
+    await this.dropTable();
+    await this.replaceFromSwap();
+    await this.db!.dropTable(STAGING_TABLE);
   }
 
-  private async keywordSearch(
+  /** Finish a swap interrupted by a crash, or discard one that never got as far as dropping `memories`. */
+  private async recoverSwap(memoriesExists: boolean): Promise<void> {
+    if (memoriesExists) {
+      await this.db!.dropTable(SWAP_TABLE);
+      return;
+    }
+    console.error('[MemoryStore] Finishing an interrupted reembed');
+    await this.replaceFromSwap();
+  }
+
+  private async replaceFromSwap(): Promise<void> {
+    const swap = await this.db!.openTable(SWAP_TABLE);
+    const { model } = await readEmbedding(swap);
+    const rows = (await swap.query().toArray()).map(row =>
+      rebuiltRow(row, Array.from(row.vector as Iterable<number>), chunkCount(row)),
+    );
+    this.table = await this.createStampedTable('memories', rows, model);
+    this.storedEmbedding = await readEmbedding(this.table);
+    await this.db!.dropTable(SWAP_TABLE);
+    await this.tryCreateFtsIndex();
+  }
+
+  // ── Tags ───────────────────────────────────────────────────────
+
+  async listTags(namespace?: string): Promise<TagUsage[]> {
+    if (!this.table) return [];
+
+    const scope = namespace ? ` AND namespace = '${sanitise(namespace)}'` : '';
+    const rows = await this.table.query().where(LIVE + scope).select(['tags', 'updated_at']).toArray();
+    const usage = new Map<string, TagUsage>();
+    for (const row of rows) {
+      const updatedAt = row.updated_at as string;
+      for (const tag of JSON.parse(row.tags as string) as string[]) {
+        const entry = usage.get(tag);
+        if (!entry) {
+          usage.set(tag, { tag, count: 1, lastUsedAt: updatedAt });
+        } else {
+          entry.count++;
+          if (updatedAt > entry.lastUsedAt) entry.lastUsedAt = updatedAt;
+        }
+      }
+    }
+    return [...usage.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  /** Like mergeTags, but refuses to fold the tag into one that is already in use. */
+  async renameTag(options: RetagOptions): Promise<RetagResult> {
+    const to = this.normaliseTags([options.to])[0] ?? options.to;
+    if (this.table && !this.retagSources(options.from).includes(to)) {
+      const taken = await this.table.countRows(
+        `${tagClauses({ tags: [to] })[0]}${options.namespace ? ` AND namespace = '${sanitise(options.namespace)}'` : ''}`,
+      );
+      if (taken > 0) {
+        throw new Error(`Tag "${to}" is already in use — use merge_tags to combine tags`);
+      }
+    }
+    return this.mergeTags(options);
+  }
+
+  /**
+   * Replace the `from` tags with `to` on every memory carrying them, live
+   * or trashed. Like recategorize, this is a relabelling: updatedAt is
+   * bumped but no revisions are recorded, for the same reason.
+   */
+  async mergeTags(options: RetagOptions): Promise<RetagResult> {
+    const { dryRun = true } = options;
+    const to = this.normaliseTags([options.to])[0] ?? options.to;
+    if (to.trim() === '') throw new Error('Target tag must not be empty');
+    const result: RetagResult = { dryRun, to, updated: 0, byTag: {}, ids: [] };
+    const sources = this.retagSources(options.from).filter(tag => tag !== to);
+    if (!this.table || sources.length === 0) return result;
+
+    let predicate = tagClauses({ tags: sources })[0];
+    if (options.namespace) {
+      predicate += ` AND namespace = '${sanitise(options.namespace)}'`;
+    }
+    const rows = await this.table.query().where(predicate).select(['id', 'tags']).toArray();
+
+    // Rows that end up with the same tags are relabelled in one update.
+    const groups = new Map<string, string[]>();
+    for (const row of rows) {
+      const tags: string[] = JSON.parse(row.tags as string);
+      for (const tag of tags.filter(t => sources.includes(t))) {
+        result.byTag[tag] = (result.byTag[tag] ?? 0) + 1;
+      }
+      result.ids.push(row.id as string);
+      const retagged = JSON.stringify(replaceTags(tags, sources, to));
+      groups.set(retagged, [...(groups.get(retagged) ?? []), row.id as string]);
+    }
+
+    if (!dryRun) {
+      const now = new Date().toISOString();
+      for (const [tags, ids] of groups) {
+        await this.table.update({
+          where: `id IN (${ids.map(id => `'${sanitise(id)}'`).join(', ')})`,
+          values: { ...tagColumns(JSON.parse(tags)), updated_at: now },
+        });
+      }
+      result.updated = rows.length;
+    }
+    return result;
+  }
+
+  // ── Consolidation ──────────────────────────────────────────────
+
+  async consolidate(options: ConsolidateOptions = {}): Promise<ConsolidateResult> {
+    const { dryRun = true, threshold = 0.9 } = options;
+    if (!this.table) {
+      return { dryRun, inspected: 0, clusters: [], replaced: 0 };
+    }
+
+    const scope: SearchFilters = {
+      namespace: this.resolveNamespace(options.namespace),
+      category: options.category,
+      tags: options.tags,
+    };
+    const rows = await applyWhereClause(this.table.query(), scope).toArray();
+    const items = rows.map(row => ({
+      ...rowToMemory(row),
+      accessCount: safeAccessCount(row),
+      lastAccessedAt: (row.last_accessed_at as string) ?? (row.updated_at as string),
+      vector: Array.from(row.vector as Iterable<number>),
+    }));
+
+    const clusters: ConsolidationCluster[] = clusterBySimilarity(items, threshold).map(c => ({
+      memoryIds: c.members.map(m => m.id),
+      similarity: c.similarity,
+      proposed: proposeMerge(c.members),
+    }));
+
+    let replaced = 0;
+    if (!dryRun) {
+      for (const cluster of clusters) {
+        const members = items.filter(m => cluster.memoryIds.includes(m.id));
+        const now = new Date().toISOString();
+        const [embedding] = await this.vectorize([cluster.proposed.content]);
+        const row: MemoryRow = {
+          id: crypto.randomUUID(),
+          namespace: scope.namespace!,
+          content: cluster.proposed.content,
+          category: cluster.proposed.category,
+          ...tagColumns(cluster.proposed.tags),
+          ...metadataColumns(cluster.proposed.metadata),
+          created_at: cluster.proposed.createdAt,
+          updated_at: now,
+          vector: embedding.vector,
+          access_count: cluster.proposed.accessCount,
+          last_accessed_at: members.map(m => m.lastAccessedAt).sort().at(-1)!,
+          deleted_at: '',
+          chunk_count: embedding.chunks.length,
+        };
+        await this.table.add([row]);
+        await this.addChunks([{ id: row.id, chunks: embedding.chunks }]);
+
+        // Link before trashing: link() only accepts live memories. The old
+        // memories stay restorable from the trash, still linked.
+        for (const id of cluster.memoryIds) {
+          await this.link(row.id, id, 'supersedes');
+          await this.delete(id);
+          replaced++;
+        }
+        cluster.merged = rowToMemory(row);
+      }
+    }
+
+    return { dryRun, inspected: rows.length, clusters, replaced };
+  }
+
+  // ── Archives ───────────────────────────────────────────────────
+
+  async exportMemories(options: ExportOptions = {}): Promise<ArchivedMemory[]> {
+    if (!this.table) return [];
+    const { includeVectors = true, includeTrash = false } = options;
+
+    const clauses = includeTrash ? [] : [LIVE];
+    if (!options.allNamespaces) {
+      clauses.push(`namespace = '${sanitise(this.resolveNamespace(options.namespace))}'`);
+    }
+    const query = this.table.query();
+    const rows = (await (clauses.length > 0 ? query.where(clauses.join(' AND ')) : query).toArray()) as Record<string, unknown>[];
+
+    return rows
+      .map(row => rowToArchived(row, includeVectors))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Import archived memories, preserving ids, timestamps and access state.
+   * Archived vectors are reused unless `reembed` is set or their dimension
+   * does not match the current embedder; long content is always embedded,
+   * as archives do not carry passage vectors. Records with a deletedAt
+   * land in the trash. An overwritten memory keeps its previous version
+   * in its history, as with update. With `replace`, the memories table is
+   * dropped and recreated from the records alone; revisions and links are
+   * kept only for memories the records bring back, so none point at
+   * missing ids.
+   * A record outside the taxonomy fails the whole import before anything
+   * is written.
+   */
+  async importMemories(
+    records: ArchivedMemory[],
+    options: ImportOptions = {},
+  ): Promise<ImportResult> {
+    const { strategy = 'skip', reembed = false, replace = false } = options;
+    const result: ImportResult = { imported: 0, overwritten: 0, skipped: 0, reembedded: 0, ids: [] };
+    for (const record of records) this.checkCategory(record.category);
+    if (replace) {
+      await this.dropTable();
+      await this.dropChunks();
+      await this.deleteHistoryExcept(new Set(records.map(r => r.id)));
+    }
+    if (records.length === 0) return result;
+
+    const existing = new Map<string, string>();
+    if (this.table) {
+      const rows = await this.table.query().select(['id', 'updated_at']).toArray();
+      for (const row of rows as Record<string, unknown>[]) {
+        existing.set(row.id as string, row.updated_at as string);
+      }
+    }
+
+    // Later duplicates within the same archive win over earlier ones.
+    const incoming = new Map(records.map(r => [r.id, r]));
+    const accepted: ArchivedMemory[] = [];
+    const replaced: string[] = [];
+    for (const record of incoming.values()) {
+      const current = existing.get(record.id);
+      if (current == null) {
+        accepted.push(record);
+        result.imported++;
+      } else if (
+        strategy === 'overwrite' ||
+        (strategy === 'newer-wins' && record.updatedAt > current)
+      ) {
+        accepted.push(record);
+        replaced.push(record.id);
+        result.overwritten++;
+      } else {
+        result.skipped++;
+      }
+    }
+    if (accepted.length === 0) return result;
+
+    const dims = this.embedder.dimensions();
+    const needsEmbedding = accepted.filter(r =>
+      reembed || r.vector?.length !== dims || needsChunking(r.content, this.chunking),
+    );
+    const fresh = await this.vectorize(needsEmbedding.map(r => r.content));
+    const embeddings = new Map(needsEmbedding.map((r, i) => [r.id, fresh[i]]));
+    result.reembedded = needsEmbedding.length;
+
+    const rows = accepted.map(r => archivedToRow(r, embeddings.get(r.id) ?? { vector: r.vector!, chunks: [] }));
+
+    if (this.table && replaced.length > 0) {
+      const list = `id IN (${replaced.map(id => `'${sanitise(id)}'`).join(', ')})`;
+      const now = new Date().toISOString();
+      for (const row of await this.table.query().where(list).toArray()) {
+        await this.recordRevision(row, now, 'import');
+      }
+      await this.table.delete(list);
+      await this.deleteChunks(replaced);
+    }
+    const seeded = await this.ensureTable(rows[0]);
+    const remaining = seeded ? rows.slice(1) : rows;
+    if (remaining.length > 0) {
+      await this.table!.add(remaining);
+    }
+    await this.addChunks([...embeddings].map(([id, embedding]) => ({ id, chunks: embedding.chunks })));
+
+    result.ids = accepted.map(r => r.id);
+    return result;
+  }
+
+  // ── Access tracking ────────────────────────────────────────────
+
+  private async touchAccessed(ids: string[]): Promise<void> {
+    if (!this.table || ids.length === 0) return;
+    const now = new Date().toISOString();
+
+    for (const id of ids) {
+      try {
+        const rows = await this.table.query()
+          .where(`id = '${sanitise(id)}'`)
+          .limit(1)
+          .toArray();
+
+        if (rows.length === 0) continue;
+        const row = rows[0] as Record<string, unknown>;
+        const lastAccessed = (row.last_accessed_at as string) ?? (row.updated_at as string);
+        const hoursSince = (Date.now() - new Date(lastAccessed).getTime()) / 3_600_000;
+
+        // Spacing effect: skip increment if accessed within the last hour
+        if (hoursSince < 1) continue;
+
+        // LanceDB update: delete then re-add with incremented count
+        await this.table.delete(`id = '${sanitise(id)}'`);
+        const updatedRow = {
+          ...row,
+          access_count: safeAccessCount(row) + 1,
+          last_accessed_at: now,
+        };
+        await this.table.add([updatedRow]);
+      } catch {
+        // Access tracking is best-effort — don't fail the search
+      }
+    }
+  }
+
+  // ── Private: search strategies ─────────────────────────────────
+
+  private async semanticSearch(
+    query: string,
+    filters: SearchFilters,
+    limit: number,
+  ): Promise<SearchResult[]> {
+    const vector = await this.embed(query);
+    const overFetch = limit * 3;
+    let search = this.table!.query().nearestTo(vector).distanceType('cosine').limit(overFetch);
+    search = applyWhereClause(search, filters);
+    const hits = await this.passageHits(vector, filters, overFetch);
+    const found = await search.toArray();
+    // Passage hits overwrite _distance, so keep each memory's own first.
+    const distances = new Map(found.map(row => [row.id as string, row._distance as number]));
+    const rows = await this.withPassageHits(found, hits);
+    const explained = filters.explain
+      ? new Map(rows.map(row => {
+        const id = row.id as string;
+        return [id, {
+          mode: 'semantic' as const,
+          distance: distances.get(id),
+          passageDistance: hits.get(id)?.distance,
+          vectorRelevance: vectorRelevance(row._distance as number),
+        }];
+      }))
+      : undefined;
+    return this.attachPassages(toResults(rows, limit, this.decayPolicy, { explained, minScore: filters.minScore }), hits, query);
+  }
+
+  private async keywordSearch(
     query: string,
     filters: SearchFilters,
     limit: number,
@@ -420,7 +1563,14 @@ export class LanceMemoryStore implements MemoryStore {
       let search = this.table!.search(query, 'fts').limit(overFetch);
       search = applyWhereClause(search, filters);
       const rows = await search.toArray();
-      return toResults(postFilter(rows, filters), limit);
+      const explained = filters.explain
+        ? new Map(rows.map(row => [row.id as string, {
+          mode: 'keyword' as const,
+          bm25: row._score as number,
+          keywordRelevance: keywordRelevance(row._score as number),
+        }]))
+        : undefined;
+      return this.attachPassages(toResults(rows, limit, this.decayPolicy, { explained, minScore: filters.minScore }), new Map(), query);
     } catch {
       // FTS index may not exist yet; keyword search degrades gracefully.
       return [];
@@ -432,29 +1582,212 @@ export class LanceMemoryStore implements MemoryStore {
     filters: SearchFilters,
     limit: number,
   ): Promise<SearchResult[]> {
-    if (!this.ftsIndexCreated || !this.reranker) {
+    if (!this.ftsIndexCreated) {
       // FTS index not available — degrade to semantic-only.
       return this.semanticSearch(query, filters, limit);
     }
 
+    const fusion = resolveFusion(filters.fusion);
+    const vector = await this.embed(query);
+    const overFetch = limit * 3;
+    let keywordRows: Record<string, unknown>[];
     try {
-      const vector = await this.embedder.embed(query);
-      const overFetch = limit * 3;
-      let search = this.table!
-        .query()
-        .nearestTo(vector)
-        .distanceType('cosine')
-        .fullTextSearch(query)
-        .rerank(this.reranker)
-        .limit(overFetch);
+      let search = this.table!.search(query, 'fts').limit(overFetch);
       search = applyWhereClause(search, filters);
-      const rows = await search.toArray();
-      return toResults(postFilter(rows, filters), limit);
+      keywordRows = await search.toArray();
     } catch {
-      // Built-in hybrid can fail if FTS index is stale or missing.
-      // Fall back to semantic-only.
+      // The FTS index can be stale or missing. Fall back to semantic-only.
       return this.semanticSearch(query, filters, limit);
     }
+    let search = this.table!.query().nearestTo(vector).distanceType('cosine').limit(overFetch);
+    search = applyWhereClause(search, filters);
+    const found = await search.toArray();
+    const distances = new Map(found.map(row => [row.id as string, row._distance as number]));
+    const hits = await this.passageHits(vector, filters, overFetch);
+    const vectorRows = (await this.withPassageHits(found, hits))
+      .sort((a, b) => (a._distance as number) - (b._distance as number));
+
+    // Score each memory on the side whose over-fetch cut it off, so its
+    // relevance does not depend on `limit`.
+    const unranked = await this.unrankedHits(query, vector, keywordRows, vectorRows, hits);
+    for (const hit of unranked.vector) distances.set(hit.id, hit.distance);
+    const bm25 = new Map<string, number>([
+      ...keywordRows.map(row => [row.id as string, row._score as number] as const),
+      ...unranked.keyword.map(hit => [hit.id, hit.bm25] as const),
+    ]);
+
+    const fused = fuse(
+      keywordRows.map(row => ({ id: row.id as string, bm25: row._score as number })),
+      vectorRows.map(row => ({ id: row.id as string, distance: row._distance as number })),
+      fusion,
+      unranked,
+    );
+    const rows = new Map<string, Record<string, unknown>>();
+    for (const row of [...keywordRows, ...vectorRows]) {
+      const id = row.id as string;
+      const { score, relevance } = fused.get(id)!;
+      if (!rows.has(id)) rows.set(id, { ...row, _relevance_score: relevance, _fused_score: score });
+    }
+
+    let explained: Map<string, RetrievalExplanation> | undefined;
+    if (filters.explain) {
+      explained = new Map([...fused].map(([id, score]) => [id, {
+        mode: 'hybrid' as const,
+        bm25: bm25.get(id),
+        distance: distances.get(id),
+        passageDistance: hits.get(id)?.distance,
+        keywordRank: score.keywordRank,
+        vectorRank: score.vectorRank,
+        keywordRelevance: score.keywordRelevance,
+        vectorRelevance: score.vectorRelevance,
+        fusion: { strategy: fusion.strategy, keyword: score.keyword, vector: score.vector },
+      }]));
+    }
+    const results = toResults([...rows.values()], limit, this.decayPolicy, { explained, minScore: filters.minScore });
+    return this.attachPassages(results, hits, query);
+  }
+
+  /**
+   * The scores hybrid search's two lists left out: the cosine distance of
+   * keyword hits the vector search cut off — their nearest passage when
+   * closer — and the BM25 score of vector hits the keyword search cut off,
+   * if they match at all.
+   */
+  private async unrankedHits(
+    query: string,
+    vector: number[],
+    keywordRows: Record<string, unknown>[],
+    vectorRows: Record<string, unknown>[],
+    hits: Map<string, PassageHit>,
+  ): Promise<{ keyword: KeywordHit[]; vector: VectorHit[] }> {
+    const keywordIds = new Set(keywordRows.map(row => row.id as string));
+    const vectorIds = new Set(vectorRows.map(row => row.id as string));
+
+    const vectorHits = keywordRows
+      .filter(row => !vectorIds.has(row.id as string))
+      .map(row => {
+        const id = row.id as string;
+        const whole = 1 - cosineSimilarity(vector, Array.from(row.vector as Iterable<number>));
+        return { id, distance: Math.min(whole, hits.get(id)?.distance ?? Infinity) };
+      });
+
+    const missing = vectorRows.map(row => row.id as string).filter(id => !keywordIds.has(id));
+    let keywordHits: KeywordHit[] = [];
+    if (missing.length > 0) {
+      try {
+        const rows = await this.table!
+          .search(query, 'fts')
+          .where(`id IN (${missing.map(id => `'${sanitise(id)}'`).join(', ')})`)
+          .select(['id', '_score'])
+          .limit(missing.length)
+          .toArray();
+        keywordHits = rows.map(row => ({ id: row.id as string, bm25: row._score as number }));
+      } catch {
+        // Same degradation as the keyword list: no BM25 to add.
+      }
+    }
+    return { keyword: keywordHits, vector: vectorHits };
+  }
+
+  /**
+   * The nearest passage of each chunked memory matching the filters,
+   * nearest first. Passages carry no filter columns, so the candidate
+   * memories are selected with the filters first and the vector search is
+   * confined to their passages — exact, like the filters on memories.
+   */
+  private async passageHits(
+    vector: number[],
+    filters: SearchFilters,
+    limit: number,
+  ): Promise<Map<string, PassageHit>> {
+    const hits = new Map<string, PassageHit>();
+    if (!this.chunks) return hits;
+
+    const parents = await this.table!
+      .query()
+      .where(`${filterPredicate(filters)} AND chunk_count > 0`)
+      .select(['id'])
+      .toArray();
+    if (parents.length === 0) return hits;
+
+    const list = parents.map(row => `'${sanitise(row.id as string)}'`).join(', ');
+    const rows = await this.chunks
+      .query()
+      .nearestTo(vector)
+      .distanceType('cosine')
+      .where(`memory_id IN (${list})`)
+      // Several passages of one memory can rank together.
+      .limit(limit * 3)
+      .toArray();
+    for (const row of rows) {
+      const id = row.memory_id as string;
+      if (hits.has(id)) continue;
+      hits.set(id, {
+        distance: row._distance as number,
+        chunk: Number(row.position),
+        start: Number(row.start_offset),
+        end: Number(row.end_offset),
+      });
+    }
+    return hits;
+  }
+
+  /**
+   * Fold passage hits into memory-level rows: a chunked memory ranks by
+   * the nearer of its own vector and its best passage. Memories found only
+   * through a passage are fetched and added.
+   */
+  private async withPassageHits(
+    rows: Record<string, unknown>[],
+    hits: Map<string, PassageHit>,
+  ): Promise<Record<string, unknown>[]> {
+    if (hits.size === 0) return rows;
+
+    // Plain copies: query rows only accept writes to their own columns.
+    const byId = new Map(rows.map(row => [row.id as string, { ...row }]));
+    const missing = [...hits.keys()].filter(id => !byId.has(id));
+    if (missing.length > 0) {
+      const list = missing.map(id => `'${sanitise(id)}'`).join(', ');
+      for (const row of await this.table!.query().where(`id IN (${list}) AND ${LIVE}`).toArray()) {
+        byId.set(row.id as string, { ...row });
+      }
+    }
+
+    for (const [id, hit] of hits) {
+      const row = byId.get(id);
+      if (!row) continue;
+      row._distance = Math.min((row._distance as number | undefined) ?? Infinity, hit.distance);
+    }
+    return [...byId.values()];
+  }
+
+  /**
+   * Give results for chunked memories their best passage: the nearest one
+   * from the vector search, or else the one sharing most words with the
+   * query.
+   */
+  private async attachPassages(
+    results: SearchResult[],
+    hits: Map<string, PassageHit>,
+    query: string,
+  ): Promise<SearchResult[]> {
+    const unmatched = results.map(r => r.memory.id).filter(id => !hits.has(id));
+    const stored = await this.chunkOffsets(unmatched);
+
+    for (const result of results) {
+      const { id, content } = result.memory;
+      const hit = hits.get(id);
+      if (hit) {
+        result.passage = toPassage(content, hit.chunk, hit.start, hit.end);
+        continue;
+      }
+      const offsets = stored.get(id);
+      if (!offsets) continue;
+      const chunks = offsets.map(o => ({ text: content.slice(o.start, o.end), start: o.start, end: o.end }));
+      const best = bestPassageByTerms(chunks, query);
+      result.passage = toPassage(content, best, chunks[best].start, chunks[best].end);
+    }
+    return results;
   }
 
   // ── Private: table management ──────────────────────────────────
@@ -469,11 +1802,168 @@ export class LanceMemoryStore implements MemoryStore {
   private async ensureTable(seedRow: MemoryRow): Promise<boolean> {
     if (this.table) return false;
 
-    this.table = await this.db!.createTable('memories', [seedRow]);
+    this.table = await this.createStampedTable('memories', [seedRow], this.embedder.modelId());
+    this.storedEmbedding = await readEmbedding(this.table);
     await this.tryCreateFtsIndex();
     return true;
   }
 
+  /** Create a table whose schema metadata records the model behind its vectors. */
+  private async createStampedTable(
+    name: string,
+    rows: Record<string, unknown>[],
+    model: string | null,
+  ): Promise<lancedb.Table> {
+    const data = lancedb.makeArrowTable(rows);
+    if (model !== null) data.schema.metadata.set(MODEL_KEY, model);
+    data.schema.metadata.set(DIMENSIONS_KEY, String((rows[0].vector as number[]).length));
+    return this.db!.createTable(name, data);
+  }
+
+  /**
+   * Embed through these rather than this.embedder, so vectors of the wrong
+   * size never reach a table built for another model.
+   */
+  private async embed(text: string): Promise<number[]> {
+    this.requireCompatibleVectors();
+    return this.embedder.embed(text);
+  }
+
+  private async embedBatch(texts: string[]): Promise<number[][]> {
+    this.requireCompatibleVectors();
+    return this.embedder.embedBatch(texts);
+  }
+
+  /**
+   * Vectors for content about to be stored, in one embedder batch. Long
+   * content is split into passages, each embedded on its own, and the
+   * memory's vector is their centroid. reembed passes the raw embedder.
+   */
+  private async vectorize(
+    contents: string[],
+    embedBatch: (texts: string[]) => Promise<number[][]> = texts => this.embedBatch(texts),
+  ): Promise<Embedding[]> {
+    const split = contents.map(content =>
+      needsChunking(content, this.chunking) ? chunkText(content, this.chunking) : null,
+    );
+    const vectors = await embedBatch(split.flatMap((chunks, i) => chunks?.map(c => c.text) ?? [contents[i]]));
+
+    let next = 0;
+    return split.map(chunks => {
+      if (!chunks) return { vector: vectors[next++], chunks: [] };
+      const passages = chunks.map(chunk => ({ ...chunk, vector: vectors[next++] }));
+      return { vector: centroid(passages.map(p => p.vector)), chunks: passages };
+    });
+  }
+
+  private requireCompatibleVectors(): void {
+    const stored = this.storedEmbedding;
+    const dimensions = this.embedder.dimensions();
+    if (stored && stored.dimensions !== dimensions) {
+      throw new Error(
+        `The memory database holds ${stored.dimensions}-dimensional vectors but the embedder produces ${dimensions}. ` +
+        'Run reembed to rebuild them for the current model.',
+      );
+    }
+  }
+
+  /** Snapshot a memory row into the revision log before it is replaced. */
+  private async recordRevision(
+    row: Record<string, unknown>,
+    supersededAt: string,
+    reason: string,
+  ): Promise<void> {
+    const revision: RevisionRow = {
+      id: crypto.randomUUID(),
+      memory_id: row.id as string,
+      content: row.content as string,
+      category: row.category as string,
+      tags: row.tags as string,
+      metadata: (row.metadata as string | null | undefined) || '{}',
+      updated_at: row.updated_at as string,
+      superseded_at: supersededAt,
+      reason,
+    };
+    if (this.revisions) {
+      await this.revisions.add([revision]);
+    } else {
+      this.revisions = await this.db!.createTable('memory_revisions', [revision]);
+    }
+  }
+
+  /**
+   * Drop the memories table if it exists. Works from the table name rather
+   * than the open handle so a table that failed to open can still be
+   * removed during recovery.
+   */
+  private async dropTable(): Promise<void> {
+    const names = await this.db!.tableNames();
+    if (names.includes('memories')) {
+      await this.db!.dropTable('memories');
+    }
+    this.table = null;
+    this.storedEmbedding = null;
+    this.ftsIndexCreated = false;
+  }
+
+  /** Delete the revisions and links of every memory not in `keep`. */
+  private async deleteHistoryExcept(keep: Set<string>): Promise<void> {
+    const orphaned = (ids: string[]) => [...new Set(ids.filter(id => !keep.has(id)))];
+    const list = (ids: string[]) => ids.map(id => `'${sanitise(id)}'`).join(', ');
+    if (this.revisions) {
+      const rows = await this.revisions.query().select(['memory_id']).toArray();
+      const ids = orphaned(rows.map(row => row.memory_id as string));
+      if (ids.length > 0) await this.revisions.delete(`memory_id IN (${list(ids)})`);
+    }
+    if (this.links) {
+      const rows = await this.links.query().select(['source_id', 'target_id']).toArray();
+      const ids = orphaned(rows.flatMap(row => [row.source_id as string, row.target_id as string]));
+      if (ids.length > 0) await this.links.delete(`source_id IN (${list(ids)}) OR target_id IN (${list(ids)})`);
+    }
+  }
+
+  /** Store the passages of freshly embedded memories; memories stored whole have none. */
+  private async addChunks(entries: { id: string; chunks: ChunkVector[] }[]): Promise<void> {
+    const rows = entries.flatMap(({ id, chunks }) => chunks.map((chunk, position) => toChunkRow(id, position, chunk)));
+    if (rows.length === 0) return;
+    if (this.chunks) {
+      await this.chunks.add(rows);
+    } else {
+      this.chunks = await this.createStampedTable(CHUNKS_TABLE, rows, this.embedder.modelId());
+    }
+  }
+
+  private async deleteChunks(ids: string[]): Promise<void> {
+    if (!this.chunks || ids.length === 0) return;
+    await this.chunks.delete(`memory_id IN (${ids.map(id => `'${sanitise(id)}'`).join(', ')})`);
+  }
+
+  private async dropChunks(): Promise<void> {
+    if ((await this.db!.tableNames()).includes(CHUNKS_TABLE)) {
+      await this.db!.dropTable(CHUNKS_TABLE);
+    }
+    this.chunks = null;
+  }
+
+  /** Passage offsets of the given memories, in order; memories stored whole are absent. */
+  private async chunkOffsets(ids: string[]): Promise<Map<string, { start: number; end: number }[]>> {
+    const offsets = new Map<string, { start: number; end: number }[]>();
+    if (!this.chunks || ids.length === 0) return offsets;
+
+    const rows = await this.chunks
+      .query()
+      .where(`memory_id IN (${ids.map(id => `'${sanitise(id)}'`).join(', ')})`)
+      .select(['memory_id', 'position', 'start_offset', 'end_offset'])
+      .toArray();
+    rows.sort((a, b) => Number(a.position) - Number(b.position));
+    for (const row of rows) {
+      const id = row.memory_id as string;
+      if (!offsets.has(id)) offsets.set(id, []);
+      offsets.get(id)!.push({ start: Number(row.start_offset), end: Number(row.end_offset) });
+    }
+    return offsets;
+  }
+
   private async tryCreateFtsIndex(): Promise<void> {
     if (this.ftsIndexCreated || !this.table) return;
     try {
@@ -493,50 +1983,226 @@ export class LanceMemoryStore implements MemoryStore {
     }
   }
 
-  private async fetchById(id: string): Promise<Record<string, unknown> | null> {
+  private async fetchById(id: string, state: string = LIVE): Promise<Record<string, unknown> | null> {
     if (!this.table) return null;
-    const rows = await this.table.query().where(`id = '${sanitise(id)}'`).limit(1).toArray();
+    const rows = await this.table.query().where(`id = '${sanitise(id)}' AND ${state}`).limit(1).toArray();
     return (rows[0] as Record<string, unknown>) ?? null;
   }
 
-  private async buildRow(request: StoreRequest): Promise<MemoryRow> {
-    const vector = await this.embedder.embed(request.content);
-    const now = new Date().toISOString();
-    return toRow(request, vector, now);
+  private async fetchManyById(ids: string[]): Promise<Memory[]> {
+    if (!this.table || ids.length === 0) return [];
+    const list = ids.map(id => `'${sanitise(id)}'`).join(', ');
+    const rows = await this.table.query().where(`id IN (${list}) AND ${LIVE}`).toArray();
+    return (rows as Record<string, unknown>[]).map(rowToMemory);
+  }
+
+  private normaliseTags(tags: string[]): string[] {
+    return normaliseTags(tags, this.tagNormalisation);
+  }
+
+  /**
+   * Tags to relabel: each as given and as normalised, so "Foo " finds the
+   * stored "foo" as well as a "Foo " kept from before normalisation.
+   */
+  private retagSources(from: string[]): string[] {
+    return [...new Set([...from, ...this.normaliseTags(from)])];
+  }
+
+  private resolveNamespace(namespace: string | undefined): string {
+    return namespace?.trim() || this.defaultNamespace;
+  }
+
+  /** Reject a category outside the configured taxonomy, for callers that bypass the tool schemas. */
+  private checkCategory(category: string): void {
+    if (this.categories && !this.categories.includes(category)) {
+      throw new Error(`Unknown category "${category}"`);
+    }
   }
 }
 
 // ── Pure functions ─────────────────────────────────────────────────
 
-function toRow(request: StoreRequest, vector: number[], timestamp: string): MemoryRow {
+function toRow(
+  request: StoreRequest,
+  namespace: string,
+  embedding: Embedding,
+  timestamp: string,
+): MemoryRow {
   return {
     id: crypto.randomUUID(),
+    namespace,
     content: request.content,
     category: request.category,
-    tags: JSON.stringify(request.tags),
+    ...tagColumns(request.tags),
+    ...metadataColumns(request.metadata ?? {}),
     created_at: timestamp,
     updated_at: timestamp,
-    vector,
+    vector: embedding.vector,
     access_count: 0,
     last_accessed_at: timestamp,
+    deleted_at: '',
+    chunk_count: embedding.chunks.length,
+  };
+}
+
+function archivedToRow(record: ArchivedMemory, embedding: Embedding): MemoryRow {
+  return {
+    id: record.id,
+    namespace: record.namespace,
+    content: record.content,
+    category: record.category,
+    ...tagColumns(record.tags),
+    ...metadataColumns(record.metadata),
+    created_at: record.createdAt,
+    updated_at: record.updatedAt,
+    vector: embedding.vector,
+    access_count: record.accessCount,
+    last_accessed_at: record.lastAccessedAt,
+    deleted_at: record.deletedAt ?? '',
+    chunk_count: embedding.chunks.length,
   };
 }
 
+function rowToArchived(row: Record<string, unknown>, includeVector: boolean): ArchivedMemory {
+  const archived: ArchivedMemory = {
+    ...rowToMemory(row),
+    accessCount: safeAccessCount(row),
+    lastAccessedAt: (row.last_accessed_at as string) ?? (row.updated_at as string),
+  };
+  if (includeVector) {
+    archived.vector = Array.from(row.vector as Iterable<number>);
+  }
+  if (row.deleted_at) {
+    archived.deletedAt = row.deleted_at as string;
+  }
+  return archived;
+}
+
 function rowToMemory(row: Record<string, unknown>): Memory {
   return {
     id: row.id as string,
+    namespace: rowNamespace(row),
     content: row.content as string,
     category: row.category as MemoryCategory,
     tags: JSON.parse(row.tags as string),
+    metadata: rowMetadata(row),
     createdAt: row.created_at as string,
     updatedAt: row.updated_at as string,
   };
 }
 
+function rowToStored(row: MemoryRow): StoredMemory {
+  const memory = rowToMemory(row);
+  return row.chunk_count > 0 ? { ...memory, chunks: row.chunk_count } : memory;
+}
+
+function rowToLink(row: Record<string, unknown>): MemoryLink {
+  return {
+    id: row.id as string,
+    sourceId: row.source_id as string,
+    targetId: row.target_id as string,
+    relation: row.relation as LinkRelation,
+    createdAt: row.created_at as string,
+  };
+}
+
+function rowToRevision(row: Record<string, unknown>): MemoryRevision {
+  return {
+    id: row.id as string,
+    memoryId: row.memory_id as string,
+    content: row.content as string,
+    category: row.category as MemoryCategory,
+    tags: JSON.parse(row.tags as string),
+    metadata: rowMetadata(row),
+    updatedAt: row.updated_at as string,
+    supersededAt: row.superseded_at as string,
+    reason: row.reason as string,
+  };
+}
+
+/** A stored row with a new vector, normalised to the current MemoryRow shape. */
+function rebuiltRow(row: Record<string, unknown>, vector: number[], chunks: number): MemoryRow {
+  return {
+    id: row.id as string,
+    namespace: rowNamespace(row),
+    content: row.content as string,
+    category: row.category as string,
+    tags: row.tags as string,
+    tag_index: row.tag_index as string,
+    metadata: (row.metadata as string | null | undefined) || '{}',
+    metadata_index: (row.metadata_index as string | null | undefined) ?? '',
+    created_at: row.created_at as string,
+    updated_at: row.updated_at as string,
+    vector,
+    access_count: safeAccessCount(row),
+    last_accessed_at: (row.last_accessed_at as string | null | undefined) ?? (row.updated_at as string),
+    deleted_at: (row.deleted_at as string | null | undefined) ?? '',
+    chunk_count: chunks,
+  };
+}
+
+function toChunkRow(memoryId: string, position: number, chunk: ChunkVector): ChunkRow {
+  return {
+    memory_id: memoryId,
+    position,
+    start_offset: chunk.start,
+    end_offset: chunk.end,
+    vector: chunk.vector,
+  };
+}
+
+function toPassage(content: string, chunk: number, start: number, end: number): Passage {
+  return { text: content.slice(start, end), chunk, start, end };
+}
+
+/** Int64 once backfilled by migration, so it can come back as a BigInt. */
+function chunkCount(row: Record<string, unknown>): number {
+  return Number(row.chunk_count ?? 0);
+}
+
+/** Passage vectors as staged by reembed: offsets and vectors as JSON, the text is the memory's. */
+function stagedChunks(chunks: ChunkVector[]): string {
+  return JSON.stringify(chunks.map(({ start, end, vector }) => ({ start, end, vector })));
+}
+
+function unstagedChunks(json: string, content: string): ChunkVector[] {
+  const staged: { start: number; end: number; vector: number[] }[] = JSON.parse(json);
+  return staged.map(({ start, end, vector }) => ({ text: content.slice(start, end), start, end, vector }));
+}
+
+/** The model recorded in a table's schema metadata, and the size of its vectors. */
+async function readEmbedding(table: lancedb.Table): Promise<StoredEmbedding> {
+  const schema = await table.schema();
+  const vector = schema.fields.find(f => f.name === 'vector');
+  return {
+    model: schema.metadata.get(MODEL_KEY) ?? null,
+    dimensions: (vector?.type as { listSize?: number } | undefined)?.listSize ?? 0,
+  };
+}
+
+function tagColumns(tags: string[]): { tags: string; tag_index: string } {
+  return { tags: JSON.stringify(tags), tag_index: tagIndex(tags) };
+}
+
+function metadataColumns(metadata: Metadata): { metadata: string; metadata_index: string } {
+  const valid = validateMetadata(metadata);
+  return { metadata: JSON.stringify(valid), metadata_index: metadataIndex(valid) };
+}
+
+/** Rows written before metadata existed (or whose migration failed) have none. */
+function rowMetadata(row: Record<string, unknown>): Metadata {
+  return JSON.parse((row.metadata as string | null | undefined) || '{}');
+}
+
+function rowNamespace(row: Record<string, unknown>): string {
+  return (row.namespace as string | undefined) ?? DEFAULT_NAMESPACE;
+}
+
 // ── Temporal decay ──────────────────────────────────────────────────
 // Exponential decay based on memory age. Recent memories score higher
 // when semantic relevance is similar. Configurable via MEMORY_DECAY_HALF_LIFE
 // env var (days). Default 30 days. Set to 0 to disable.
+// MEMORY_DECAY_POLICY overrides the half-life per category and tag.
 // Memories tagged "evergreen" or "never-forget" are exempt.
 
 const DECAY_HALF_LIFE_DAYS = parseDecayHalfLife(process.env.MEMORY_DECAY_HALF_LIFE);
@@ -550,6 +2216,92 @@ export function parseDecayHalfLife(value: string | undefined): number {
   return parsed;
 }
 
+export const DEFAULT_DECAY_POLICY: DecayPolicy = { halfLifeDays: DECAY_HALF_LIFE_DAYS, categories: {}, tags: {} };
+
+/**
+ * Parse MEMORY_DECAY_POLICY: comma-separated `name=days` rules, where a
+ * name is a category or `tag:<tag>` and days is a half-life or `never`,
+ * e.g. "architecture=365, debugging=7, tag:adr=never". Category names are
+ * checked against `categories` when given.
+ */
+export function parseDecayPolicy(value: string | undefined, categories?: string[]): DecayPolicy {
+  const policy: DecayPolicy = { ...DEFAULT_DECAY_POLICY, categories: {}, tags: {} };
+  for (const rule of (value ?? '').split(',')) {
+    if (rule.trim() === '') continue;
+    const [name, days, ...rest] = rule.split('=').map(s => s.trim());
+    const halfLife = days === 'never' ? null : Number(days);
+    const tag = name.startsWith('tag:') ? name.slice(4).trim() : null;
+    if (!name || !days || rest.length > 0 || tag === '' || (halfLife !== null && !(halfLife > 0))) {
+      throw new Error(`Invalid decay rule "${rule.trim()}" — expected category=days or tag:name=days, with days a positive number or "never"`);
+    }
+    if (tag !== null) {
+      policy.tags[tag] = halfLife;
+    } else if (categories && !categories.includes(name)) {
+      throw new Error(`Decay rule for unknown category "${name}" — expected one of: ${categories.join(', ')}`);
+    } else {
+      policy.categories[name] = halfLife;
+    }
+  }
+  return policy;
+}
+
+/** The policy rule that sets a memory's half-life, before the importance multiplier. */
+export interface DecayRule {
+  halfLifeDays: number | null;  // null: the memory does not decay
+  source: string;               // "tag:<tag>", "category:<category>" or "default"
+}
+
+/**
+ * Pick the rule for a memory. Tag rules beat the category rule, and among
+ * several matching tags the slowest decay wins.
+ */
+export function decayRule(policy: DecayPolicy, category: string, tags: string[]): DecayRule {
+  let best: DecayRule | null = null;
+  for (const tag of tags) {
+    const halfLifeDays = EVERGREEN_TAGS.has(tag) ? null : ownRule(policy.tags, tag);
+    if (halfLifeDays === undefined) continue;
+    if (!best || (best.halfLifeDays !== null && (halfLifeDays === null || halfLifeDays > best.halfLifeDays))) {
+      best = { halfLifeDays, source: `tag:${tag}` };
+    }
+  }
+  if (best) return best;
+
+  const categoryHalfLife = ownRule(policy.categories, category);
+  if (categoryHalfLife !== undefined) return { halfLifeDays: categoryHalfLife, source: `category:${category}` };
+  return { halfLifeDays: policy.halfLifeDays > 0 ? policy.halfLifeDays : null, source: 'default' };
+}
+
+function ownRule(rules: Record<string, number | null>, name: string): number | null | undefined {
+  return Object.prototype.hasOwnProperty.call(rules, name) ? rules[name] : undefined;
+}
+
+/** How a stored memory decays right now. */
+interface RowDecay {
+  rule: DecayRule;
+  importance: number;
+  halfLifeDays: number | null;  // the rule's half-life stretched by importance
+  ageDays: number;
+  factor: number;
+}
+
+/**
+ * The one place search scores, stats and prune work out decay, so they
+ * agree on which memories fade and how fast.
+ */
+function rowDecay(row: Record<string, unknown>, policy: DecayPolicy): RowDecay {
+  const rule = decayRule(policy, row.category as string, rowTags(row));
+  const importance = importanceMultiplier(row);
+  const halfLifeDays = rule.halfLifeDays === null ? null : rule.halfLifeDays * importance;
+  const updatedAt = row.updated_at as string;
+  return {
+    rule,
+    importance,
+    halfLifeDays,
+    ageDays: Math.max(0, (Date.now() - new Date(updatedAt).getTime()) / MS_PER_DAY),
+    factor: computeDecayFactor(updatedAt, halfLifeDays ?? 0),
+  };
+}
+
 export function computeDecayFactor(updatedAt: string, halfLifeDays: number): number {
   if (halfLifeDays <= 0) return 1;        // decay disabled
   const ageMs = Date.now() - new Date(updatedAt).getTime();
@@ -582,14 +2334,24 @@ export function importanceMultiplier(row: Record<string, unknown>): number {
 }
 
 function isEvergreen(row: Record<string, unknown>): boolean {
+  return rowTags(row).some(t => EVERGREEN_TAGS.has(t));
+}
+
+function rowTags(row: Record<string, unknown>): string[] {
   try {
-    const tags: string[] = JSON.parse(row.tags as string);
-    return tags.some(t => EVERGREEN_TAGS.has(t));
+    return JSON.parse(row.tags as string);
   } catch {
-    return false;
+    return [];
   }
 }
 
+interface ToResultsOptions {
+  /** The retrieval side of each row's explanation, when the search asked to explain. */
+  explained?: Map<string, RetrievalExplanation>;
+  /** Drop results whose decayed score is below this. */
+  minScore?: number;
+}
+
 /**
  * Convert raw rows to SearchResults with temporal decay applied, then
  * re-sort by decayed score (descending) and trim to the requested limit.
@@ -597,18 +2359,43 @@ function isEvergreen(row: Record<string, unknown>): boolean {
  * relevant but old memory may now score lower than a moderately relevant
  * but recent one.
  */
-function toResults(rows: Record<string, unknown>[], limit: number): SearchResult[] {
+function toResults(
+  rows: Record<string, unknown>[],
+  limit: number,
+  decayPolicy: DecayPolicy,
+  options: ToResultsOptions = {},
+): SearchResult[] {
+  const minScore = options.minScore ?? 0;
   return rows
-    .map(resultToSearchResult)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, limit);
+    .map(row => scoreRow(row, decayPolicy, options.explained?.get(row.id as string)))
+    .filter(({ result }) => result.score >= minScore)
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, limit)
+    .map(({ result }) => result);
 }
 
-function resultToSearchResult(row: Record<string, unknown>): SearchResult {
-  // Three possible score fields depending on search mode:
-  //   _relevance_score — from the RRF reranker (hybrid search), higher = better
+/** The parts of a ScoreExplanation a search strategy knows before decay. */
+type RetrievalExplanation = Pick<
+  ScoreExplanation,
+  | 'mode' | 'bm25' | 'distance' | 'passageDistance' | 'keywordRank' | 'vectorRank'
+  | 'keywordRelevance' | 'vectorRelevance' | 'fusion'
+>;
+
+/**
+ * Score a row: its calibrated relevance with decay applied, and the key
+ * it ranks by. The two only differ under RRF fusion, which orders by rank
+ * but cannot say how relevant a result is. Given the retrieval side of its
+ * explanation, the result also carries the full breakdown.
+ */
+function scoreRow(
+  row: Record<string, unknown>,
+  decayPolicy: DecayPolicy,
+  retrievalParts?: RetrievalExplanation,
+): { result: SearchResult; rank: number } {
+  // Three possible score fields depending on search mode, each mapped to 0–1:
+  //   _relevance_score — from fusion (hybrid search), already 0–1
   //   _distance — from vector search (cosine: 0–2 range), lower = better
-  //   _score — from FTS/BM25 search, higher = better
+  //   _score — from FTS/BM25 search, unbounded, higher = better
   const relevanceScore = row._relevance_score as number | undefined;
   const distance = row._distance as number | undefined;
   const ftsScore = row._score as number | undefined;
@@ -617,55 +2404,62 @@ function resultToSearchResult(row: Record<string, unknown>): SearchResult {
   if (relevanceScore != null) {
     score = relevanceScore;
   } else if (distance != null) {
-    score = 1 / (1 + distance);
+    score = vectorRelevance(distance);
   } else if (ftsScore != null) {
-    score = ftsScore;
+    score = keywordRelevance(ftsScore);
   } else {
     score = 0;
   }
 
-  // Apply importance-modulated temporal decay unless memory is evergreen
-  if (DECAY_HALF_LIFE_DAYS > 0 && !isEvergreen(row)) {
-    const updatedAt = row.updated_at as string;
-    const effectiveHalfLife = DECAY_HALF_LIFE_DAYS * importanceMultiplier(row);
-    score *= computeDecayFactor(updatedAt, effectiveHalfLife);
+  // Apply importance-modulated temporal decay under the decay policy
+  const retrieval = score;
+  const decay = rowDecay(row, decayPolicy);
+  score *= decay.factor;
+  const rank = ((row._fused_score as number | undefined) ?? retrieval) * decay.factor;
+
+  const result: SearchResult = { memory: rowToMemory(row), score };
+  if (retrievalParts) {
+    result.explanation = {
+      ...retrievalParts,
+      retrieval,
+      decayFactor: decay.factor,
+      importanceMultiplier: decay.importance,
+      decayRule: decay.rule.source,
+      halfLifeDays: decay.halfLifeDays,
+      evergreen: isEvergreen(row),
+      ageDays: decay.ageDays,
+    };
   }
-
-  return { memory: rowToMemory(row), score };
+  return { result, rank };
 }
 
 function applyWhereClause<T extends { where(predicate: string): T }>(
   search: T,
   filters: SearchFilters,
 ): T {
-  const clauses: string[] = [];
+  return search.where(filterPredicate(filters));
+}
 
+function filterPredicate(filters: SearchFilters): string {
+  const clauses: string[] = [LIVE];
+
+  if (filters.namespace && !filters.allNamespaces) {
+    clauses.push(`namespace = '${sanitise(filters.namespace)}'`);
+  }
   if (filters.category) {
     clauses.push(`category = '${sanitise(filters.category)}'`);
   }
+  clauses.push(...tagClauses(filters));
+  if (filters.metadata) {
+    clauses.push(...metadataClauses(filters.metadata));
+  }
   if (filters.after) {
     clauses.push(`created_at >= '${sanitise(filters.after)}'`);
   }
   if (filters.before) {
     clauses.push(`created_at <= '${sanitise(filters.before)}'`);
   }
-
-  if (clauses.length > 0) {
-    return search.where(clauses.join(' AND '));
-  }
-  return search;
-}
-
-function postFilter(
-  rows: Record<string, unknown>[],
-  filters: SearchFilters,
-): Record<string, unknown>[] {
-  if (!filters.tags || filters.tags.length === 0) return rows;
-
-  return rows.filter(row => {
-    const tags: string[] = JSON.parse(row.tags as string);
-    return filters.tags!.some(t => tags.includes(t));
-  });
+  return clauses.join(' AND ');
 }
 
 function sanitise(value: string): string {
@@ -0,0 +1,149 @@
+import type { Metadata, MetadataCondition, MetadataFilter, MetadataValue } from './types.js';
+
+// ── Metadata ──────────────────────────────────────────────────────
+//
+// Memories carry an arbitrary JSON metadata object. LanceDB's JSON
+// functions only work on its binary JSONB type, which the JS client
+// cannot write, so filters run against a flattened text index instead:
+// one line per scalar leaf, `<json path>:<json value>`, with the whole
+// index wrapped in newlines. JSON never contains a raw newline, so each
+// line can be matched exactly with strpos (equality, existence) or
+// collected with regexp_replace into a list of values (ranges) — all
+// inside the WHERE clause.
+//
+//   { repo: "api", pr: 42, owner: { team: "core" }, labels: ["a", "b"] }
+//   → \n"repo":"api"\n"pr":42\n"owner.team":"core"\n"labels":"a"\n"labels":"b"\n
+//
+// Nested objects are addressed with dotted paths; an array matches if any
+// of its elements does. Each range bound is checked against the array on
+// its own, so { gt: 5, lt: 3 } matches [10, 1].
+
+/** Check that a value is a plain JSON object, throwing a descriptive error otherwise. */
+export function validateMetadata(value: unknown): Metadata {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Metadata must be a JSON object');
+  }
+  try {
+    return JSON.parse(JSON.stringify(value)) as Metadata;
+  } catch {
+    throw new Error('Metadata must be JSON-serialisable');
+  }
+}
+
+export function metadataIndex(metadata: Metadata): string {
+  const lines = flatten(metadata).map(([path, value]) => `${JSON.stringify(path)}:${JSON.stringify(value)}`);
+  return `\n${lines.join('\n')}\n`;
+}
+
+/**
+ * SQL predicates over the `metadata_index` column, one per condition. A
+ * bare value is shorthand for { eq: value }.
+ */
+export function metadataClauses(filter: MetadataFilter): string[] {
+  const clauses: string[] = [];
+  for (const [path, raw] of Object.entries(filter)) {
+    const condition = normaliseCondition(raw);
+    const key = JSON.stringify(path);
+
+    if (condition.exists !== undefined) {
+      const exists = `(${contains(`\n${key}:`)} OR ${contains(`\n${JSON.stringify(`${path}.`).slice(0, -1)}`)})`;
+      clauses.push(condition.exists ? exists : `NOT ${exists}`);
+    }
+    if (condition.eq !== undefined) {
+      clauses.push(contains(`\n${key}:${JSON.stringify(condition.eq)}\n`));
+    }
+    for (const [op, sql] of [['gt', '>'], ['gte', '>='], ['lt', '<'], ['lte', '<=']] as const) {
+      const bound = condition[op];
+      if (bound === undefined) continue;
+      if (typeof bound === 'number') {
+        if (!Number.isFinite(bound)) throw new Error(`Invalid bound for metadata "${path}": ${bound}`);
+        const values = `TRY_CAST(${extract(key, '(-?[0-9][0-9.eE+-]*)')} AS ARRAY<DOUBLE>)`;
+        clauses.push(`${extreme(op)}(${values}) ${sql} ${bound}`);
+      } else {
+        // A missing key extracts a single empty string, so string
+        // comparisons need an explicit existence check.
+        const values = extract(key, '"((?:[^"\\\\]|\\\\.)*)"');
+        clauses.push(`(${contains(`\n${key}:"`)} AND ${extreme(op)}(${values}) ${sql} ${quote(bound)})`);
+      }
+    }
+  }
+  return clauses;
+}
+
+/** In-memory equivalent of metadataClauses, for stores without SQL. */
+export function matchesMetadata(metadata: Metadata, filter: MetadataFilter): boolean {
+  const leaves = new Map<string, MetadataValue[]>();
+  for (const [path, value] of flatten(metadata)) {
+    leaves.set(path, [...(leaves.get(path) ?? []), value]);
+  }
+
+  return Object.entries(filter).every(([path, raw]) => {
+    const condition = normaliseCondition(raw);
+    const values = leaves.get(path) ?? [];
+    if (condition.exists !== undefined) {
+      const exists = values.length > 0 || [...leaves.keys()].some(k => k.startsWith(`${path}.`));
+      if (exists !== condition.exists) return false;
+    }
+    if (condition.eq !== undefined && !values.includes(condition.eq)) return false;
+    for (const op of ['gt', 'gte', 'lt', 'lte'] as const) {
+      const bound = condition[op];
+      if (bound === undefined) continue;
+      const matched = values.some(value => {
+        if (typeof value !== typeof bound) return false;
+        const v = value as typeof bound;
+        return op === 'gt' ? v > bound : op === 'gte' ? v >= bound : op === 'lt' ? v < bound : v <= bound;
+      });
+      if (!matched) return false;
+    }
+    return true;
+  });
+}
+
+/** Scalar leaves as [dotted path, value] pairs; array elements share their array's path. */
+function flatten(metadata: Metadata): [string, MetadataValue][] {
+  const leaves: [string, MetadataValue][] = [];
+  const visit = (path: string, value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(v => visit(path, v));
+    } else if (typeof value === 'object' && value !== null) {
+      for (const [key, v] of Object.entries(value)) visit(path ? `${path}.${key}` : key, v);
+    } else {
+      leaves.push([path, value as MetadataValue]);
+    }
+  };
+  visit('', metadata);
+  return leaves;
+}
+
+function normaliseCondition(raw: MetadataValue | MetadataCondition): MetadataCondition {
+  return typeof raw === 'object' && raw !== null ? raw : { eq: raw };
+}
+
+function contains(text: string): string {
+  return `strpos(metadata_index, ${quote(text)}) > 0`;
+}
+
+/**
+ * The captures of `valuePattern` on every line for `key`, as a string
+ * array: matching lines are marked with \x01, the rest dropped, and what
+ * remains split on the markers.
+ */
+function extract(key: string, valuePattern: string): string {
+  const line = `(?m)\n${escapeRegex(key)}:${valuePattern}$`;
+  const marked = `regexp_replace(metadata_index, ${quote(line)}, '\n\x01\\1', 'g')`;
+  const kept = `regexp_replace(${marked}, '\n[^\x01\n][^\n]*', '', 'g')`;
+  return `string_to_array(regexp_replace(${kept}, '^\n\x01|\n$', '', 'g'), '\n\x01')`;
+}
+
+/** An array holds an element above a bound if its largest one is, and below if its smallest is. */
+function extreme(op: 'gt' | 'gte' | 'lt' | 'lte'): string {
+  return op === 'gt' || op === 'gte' ? 'array_max' : 'array_min';
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[\\.+*?()|[\]{}^$]/g, '\\$&');
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
@@ -0,0 +1,227 @@
+import type {
+  ArchivedMemory,
+  ConsolidateOptions,
+  ConsolidateResult,
+  EmptyTrashOptions,
+  EmptyTrashResult,
+  ExportOptions,
+  FindRelatedOptions,
+  ImportOptions,
+  ImportResult,
+  LinkRelation,
+  Memory,
+  MemoryCategory,
+  MemoryChange,
+  MemoryChangeListener,
+  MemoryGraph,
+  MemoryLink,
+  MemoryRevision,
+  MemoryStore,
+  MemoryStats,
+  PruneOptions,
+  PruneResult,
+  RecategorizeOptions,
+  RecategorizeResult,
+  ReembedOptions,
+  ReembedResult,
+  RetagOptions,
+  RetagResult,
+  SearchFilters,
+  SearchMode,
+  SearchResult,
+  StoreRequest,
+  StoredMemory,
+  TagUsage,
+  TrashedMemory,
+  UpdateRequest,
+} from './types.js';
+
+// ── NotifyingMemoryStore ────────────────────────────────────────
+//
+// Transparent decorator that tells listeners which memories a mutation
+// touched, once it has succeeded. Every MCP session subscribes, so a
+// memory stored by one agent reaches resource subscribers in all the
+// others sharing the process (see http.ts).
+//
+// Listener errors are logged to stderr but never propagate: the
+// mutation already happened.
+
+export class NotifyingMemoryStore implements MemoryStore {
+  private readonly listeners = new Set<MemoryChangeListener>();
+
+  constructor(private readonly inner: MemoryStore) {}
+
+  /** Call `listener` after every mutation. Returns a function that unsubscribes. */
+  onChange(listener: MemoryChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  async initialize(): Promise<void> {
+    await this.inner.initialize();
+  }
+
+  // ── Mutations (notified) ────────────────────────────────────
+
+  // A rejected near-duplicate changed nothing; a merged one changed the
+  // existing memory without adding to the list.
+
+  async store(request: StoreRequest): Promise<StoredMemory> {
+    const memory = await this.inner.store(request);
+    this.notifyStored([memory]);
+    return memory;
+  }
+
+  async storeBatch(requests: StoreRequest[]): Promise<StoredMemory[]> {
+    const memories = await this.inner.storeBatch(requests);
+    this.notifyStored(memories);
+    return memories;
+  }
+
+  async update(id: string, updates: UpdateRequest): Promise<Memory> {
+    const memory = await this.inner.update(id, updates);
+    this.notify([id], false);
+    return memory;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.inner.delete(id);
+    this.notify([id], true);
+  }
+
+  async restore(id: string): Promise<Memory> {
+    const memory = await this.inner.restore(id);
+    this.notify([id], true);
+    return memory;
+  }
+
+  async emptyTrash(options: EmptyTrashOptions): Promise<EmptyTrashResult> {
+    const result = await this.inner.emptyTrash(options);
+    this.notify(result.ids, true);
+    return result;
+  }
+
+  async revert(id: string, revisionId: string): Promise<Memory> {
+    const memory = await this.inner.revert(id, revisionId);
+    this.notify([id], false);
+    return memory;
+  }
+
+  async importMemories(records: ArchivedMemory[], options: ImportOptions): Promise<ImportResult> {
+    // A replace also removes every memory the records don't bring back.
+    const removed = options.replace
+      ? (await this.inner.exportMemories({ allNamespaces: true, includeVectors: false, includeTrash: true })).map(m => m.id)
+      : [];
+    const result = await this.inner.importMemories(records, options);
+    this.notify([...new Set([...removed, ...result.ids])], result.imported > 0 || options.replace === true);
+    return result;
+  }
+
+  // A memory's resource lists its links, so both ends change.
+
+  async link(sourceId: string, targetId: string, relation: LinkRelation): Promise<MemoryLink> {
+    const link = await this.inner.link(sourceId, targetId, relation);
+    this.notify([sourceId, targetId], false);
+    return link;
+  }
+
+  async unlink(sourceId: string, targetId: string, relation?: LinkRelation): Promise<number> {
+    const removed = await this.inner.unlink(sourceId, targetId, relation);
+    if (removed > 0) this.notify([sourceId, targetId], false);
+    return removed;
+  }
+
+  async prune(options: PruneOptions): Promise<PruneResult> {
+    const result = await this.inner.prune(options);
+    if (!result.dryRun) this.notify(result.candidates.map(c => c.id), true);
+    return result;
+  }
+
+  async consolidate(options: ConsolidateOptions): Promise<ConsolidateResult> {
+    const result = await this.inner.consolidate(options);
+    const merged = result.clusters.filter(c => c.merged);
+    this.notify(merged.flatMap(c => [c.merged!.id, ...c.memoryIds]), true);
+    return result;
+  }
+
+  async recategorize(options: RecategorizeOptions): Promise<RecategorizeResult> {
+    const result = await this.inner.recategorize(options);
+    if (!result.dryRun) this.notify(result.ids, false);
+    return result;
+  }
+
+  async renameTag(options: RetagOptions): Promise<RetagResult> {
+    const result = await this.inner.renameTag(options);
+    if (!result.dryRun) this.notify(result.ids, false);
+    return result;
+  }
+
+  async mergeTags(options: RetagOptions): Promise<RetagResult> {
+    const result = await this.inner.mergeTags(options);
+    if (!result.dryRun) this.notify(result.ids, false);
+    return result;
+  }
+
+  async reembed(options?: ReembedOptions): Promise<ReembedResult> {
+    // Vectors are not part of any resource.
+    return this.inner.reembed(options);
+  }
+
+  // ── Reads (pass through) ────────────────────────────────────
+
+  async search(query: string, mode: SearchMode, filters: SearchFilters): Promise<SearchResult[]> {
+    return this.inner.search(query, mode, filters);
+  }
+
+  async findRelated(memoryId: string, limit: number, options?: FindRelatedOptions): Promise<SearchResult[]> {
+    return this.inner.findRelated(memoryId, limit, options);
+  }
+
+  async listRecent(limit: number, category?: MemoryCategory, namespace?: string): Promise<Memory[]> {
+    return this.inner.listRecent(limit, category, namespace);
+  }
+
+  async getGraph(memoryId: string, depth: number): Promise<MemoryGraph> {
+    return this.inner.getGraph(memoryId, depth);
+  }
+
+  async listTrash(namespace?: string): Promise<TrashedMemory[]> {
+    return this.inner.listTrash(namespace);
+  }
+
+  async history(id: string): Promise<MemoryRevision[]> {
+    return this.inner.history(id);
+  }
+
+  async stats(namespace?: string): Promise<MemoryStats> {
+    return this.inner.stats(namespace);
+  }
+
+  async listTags(namespace?: string): Promise<TagUsage[]> {
+    return this.inner.listTags(namespace);
+  }
+
+  async exportMemories(options: ExportOptions): Promise<ArchivedMemory[]> {
+    return this.inner.exportMemories(options);
+  }
+
+  private notifyStored(memories: StoredMemory[]): void {
+    const written = memories.filter(m => m.duplicate?.action !== 'rejected');
+    this.notify(
+      written.map(m => m.id),
+      written.some(m => m.duplicate?.action !== 'merged'),
+    );
+  }
+
+  private notify(ids: string[], listChanged: boolean): void {
+    if (ids.length === 0) return;
+    const change: MemoryChange = { ids, listChanged };
+    for (const listener of this.listeners) {
+      try {
+        listener(change);
+      } catch (err) {
+        console.error('[notify] Change listener failed:', err);
+      }
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { DEFAULT_TAXONOMY, describeTaxonomy, type Taxonomy } from './taxonomy.js';
+import { handleRecall } from './tools.js';
+import type { MemoryStore } from './types.js';
+
+// ── Prompts ────────────────────────────────────────────────────────
+//
+// The two moments an agent should touch memory without being asked:
+// session start (recall) and session end (store_batch). Clients show
+// prompts as slash commands, so the user can trigger either by name.
+
+export interface PromptOptions {
+  taxonomy?: Taxonomy;  // default: the built-in categories
+}
+
+export function registerPrompts(server: McpServer, store: MemoryStore, options: PromptOptions = {}): void {
+  const taxonomy = options.taxonomy ?? DEFAULT_TAXONOMY;
+
+  server.prompt(
+    'session_start_recall',
+    'Restore context at the start of a session: recalls memories on the given topics plus the most recent ones, and asks the assistant to work from them.',
+    {
+      topics: z.string().describe('Comma-separated topics to recall, e.g. "auth service, deploy process"'),
+      namespace: z.string().optional().describe('Namespace to recall from (default: the configured default namespace)'),
+    },
+    async ({ topics, namespace }) => {
+      const list = topics.split(',').map(t => t.trim()).filter(Boolean);
+      const result: { content: { text: string }[]; isError?: boolean } =
+        await handleRecall(store)({ topics: list, namespace });
+      if (result.isError) throw new Error(result.content[0].text);
+      return message(
+        'Memories recalled for this session',
+        [
+          `We are starting a session on: ${list.join(', ')}.`,
+          'Below is what the memory server recalled for each topic, plus the most recent memories. ' +
+          'Read it before doing anything else, treat it as context from earlier sessions, and say briefly what you now know. ' +
+          'Where a memory looks outdated or contradicts what you find, trust what you find and update or delete the memory. ' +
+          'Use the search and recall tools if you need more.',
+          result.content[0].text,
+        ].join('\n\n'),
+      );
+    },
+  );
+
+  server.prompt(
+    'end_of_session_capture',
+    'Capture what was learnt in this session: asks the assistant to store the durable facts, decisions and lessons with one store_batch call.',
+    {
+      focus: z.string().optional().describe('What to concentrate on, e.g. "the caching decisions"'),
+      namespace: z.string().optional().describe('Namespace to store into (default: the configured default namespace)'),
+    },
+    async ({ focus, namespace }) => message(
+      'Store what this session taught',
+      [
+        'The session is ending. Review it and capture what is worth remembering next time' +
+        (focus ? `, concentrating on ${focus}.` : '.'),
+        'Store it with a single store_batch call' + (namespace ? ` with namespace "${namespace}"` : '') + '. For each memory:',
+        [
+          '- one self-contained fact, decision, preference or lesson, understandable without this conversation',
+          '- the category that fits best, from: ' + describeTaxonomy(taxonomy),
+          '- a few tags a future search would use (project, component, technology)',
+          '- metadata such as repo, file path or ticket where it applies',
+        ].join('\n'),
+        'Skip anything temporary, already in the code or docs, or already stored; update an existing memory instead of storing a near-copy. ' +
+        'When you are done, list what you stored.',
+      ].join('\n\n'),
+    ),
+  );
+}
+
+function message(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
@@ -0,0 +1,99 @@
+import type { Reranker, SearchResult } from './types.js';
+
+// ── Reranking ─────────────────────────────────────────────────────
+//
+// Retrieval scores each memory on its own: BM25 counts terms, the
+// bi-encoder compares two vectors made apart. A cross-encoder reads the
+// query and a candidate together, which ranks far better but costs a
+// model pass per candidate — so it only re-scores the top candidates
+// that retrieval already found.
+
+export interface RerankOptions {
+  /** Rerank searches that do not say whether to. Default false. */
+  enabled: boolean;
+  /** Candidates fetched and re-scored before the result limit applies. Default 30. */
+  candidates: number;
+}
+
+export const DEFAULT_RERANK: RerankOptions = { enabled: false, candidates: 30 };
+
+export const DEFAULT_RERANK_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
+
+/** Parse RERANK_DEFAULT and RERANK_CANDIDATES. */
+export function parseRerank(enabled: string | undefined, candidates: string | undefined): RerankOptions {
+  let parsedCandidates = DEFAULT_RERANK.candidates;
+  if (candidates != null && candidates.trim() !== '') {
+    parsedCandidates = Number(candidates);
+    if (!Number.isInteger(parsedCandidates) || parsedCandidates <= 0) {
+      throw new Error(`Invalid RERANK_CANDIDATES "${candidates}" — expected a positive integer`);
+    }
+  }
+  return { enabled: enabled === 'true', candidates: parsedCandidates };
+}
+
+/**
+ * Re-score results with the reranker and keep the best `limit`. The
+ * retrieval score stays in `score`; the reranker's goes in `rerankScore`.
+ * Long memories are judged by their matched passage, which is what a
+ * cross-encoder's input window can hold.
+ */
+export async function rerankResults(
+  reranker: Reranker,
+  query: string,
+  results: SearchResult[],
+  limit: number,
+): Promise<SearchResult[]> {
+  if (results.length === 0) return results;
+  const scores = await reranker.score(query, results.map(r => r.passage?.text ?? r.memory.content));
+  return results
+    .map((result, i) => ({ ...result, rerankScore: scores[i] }))
+    .sort((a, b) => b.rerankScore - a.rerankScore)
+    .slice(0, limit);
+}
+
+// ── Transformers.js cross-encoder ─────────────────────────────────
+//
+// A local ONNX cross-encoder such as ms-marco-MiniLM. The model is loaded
+// on the first rerank, so servers that never rerank never download it.
+// Its logit is squashed to 0–1 so scores read like probabilities.
+
+export class CrossEncoderReranker implements Reranker {
+  private loading: Promise<CrossEncoder> | null = null;
+
+  constructor(private readonly modelName: string = DEFAULT_RERANK_MODEL) {}
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    const { tokenizer, model } = await this.load();
+    const inputs = tokenizer(documents.map(() => query), {
+      text_pair: documents,
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await model(inputs);
+    return Array.from(logits.data as Float32Array, logit => 1 / (1 + Math.exp(-logit)));
+  }
+
+  modelId(): string {
+    return `transformers:${this.modelName}`;
+  }
+
+  private load(): Promise<CrossEncoder> {
+    this.loading ??= (async () => {
+      const { AutoTokenizer, AutoModelForSequenceClassification } = await import('@xenova/transformers');
+      const [tokenizer, model] = await Promise.all([
+        AutoTokenizer.from_pretrained(this.modelName),
+        AutoModelForSequenceClassification.from_pretrained(this.modelName),
+      ]);
+      return { tokenizer, model } as unknown as CrossEncoder;
+    })();
+    // A failed load (no network, unknown model) is retried on the next call.
+    this.loading.catch(() => { this.loading = null; });
+    return this.loading;
+  }
+}
+
+// Minimal types for the transformers tokenizer and model — avoids importing the full package at type level.
+interface CrossEncoder {
+  tokenizer(text: string[], options: { text_pair: string[]; padding: boolean; truncation: boolean }): unknown;
+  model(inputs: unknown): Promise<{ logits: { data: Float32Array } }>;
+}
@@ -0,0 +1,179 @@
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ReadResourceResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { NotifyingMemoryStore } from './notifying-store.js';
+import { DEFAULT_TAXONOMY, categoryNames, type Taxonomy } from './taxonomy.js';
+import { DEFAULT_NAMESPACE, type Memory, type MemoryChange, type MemoryStore } from './types.js';
+
+// ── Resources ──────────────────────────────────────────────────────
+//
+//   memory://{id}                  one memory, with its links
+//   memory://category/{category}   the newest memories in a category
+//   memory://tag/{tag}             the newest memories carrying a tag
+//
+// Listings cover the default namespace and stop at LIST_LIMIT; clients
+// that need more use the search tools. With a change source, clients can
+// subscribe to any of these URIs and are told when it changes.
+
+export interface ResourceOptions {
+  taxonomy?: Taxonomy;            // default: the built-in categories
+  changes?: NotifyingMemoryStore; // enables resource subscriptions
+  namespace?: string;             // the store's default namespace; default: "default"
+}
+
+const LIST_LIMIT = 100;
+const MIME_TYPE = 'application/json';
+
+export function memoryUri(id: string): string {
+  return `memory://${encodeURIComponent(id)}`;
+}
+
+export function categoryUri(category: string): string {
+  return `memory://category/${encodeURIComponent(category)}`;
+}
+
+export function tagUri(tag: string): string {
+  return `memory://tag/${encodeURIComponent(tag)}`;
+}
+
+export function registerResources(server: McpServer, store: MemoryStore, options: ResourceOptions = {}): void {
+  const taxonomy = options.taxonomy ?? DEFAULT_TAXONOMY;
+  // Without a namespace, listTags spans them all; the tag listing reads only this one.
+  const listTags = () => store.listTags(options.namespace ?? DEFAULT_NAMESPACE);
+
+  // The listings are registered first: their URIs would not match
+  // memory://{id} anyway (a variable stops at "/"), but the order makes
+  // that obvious.
+
+  server.resource(
+    'category',
+    new ResourceTemplate('memory://category/{category}', {
+      list: async () => ({
+        resources: taxonomy.map(({ name, description }) => ({
+          uri: categoryUri(name),
+          name: `Category: ${name}`,
+          description,
+          mimeType: MIME_TYPE,
+        })),
+      }),
+      complete: {
+        category: (value) => categoryNames(taxonomy).filter(name => name.startsWith(value)),
+      },
+    }),
+    { description: `The ${LIST_LIMIT} newest memories in a category`, mimeType: MIME_TYPE },
+    async (uri, variables) => {
+      const category = variable(variables.category);
+      const memories = await store.listRecent(LIST_LIMIT, category);
+      return json(uri, { category, count: memories.length, memories: memories.map(withUri) });
+    },
+  );
+
+  server.resource(
+    'tag',
+    new ResourceTemplate('memory://tag/{tag}', {
+      list: async () => ({
+        resources: (await listTags()).slice(0, LIST_LIMIT).map(({ tag, count }) => ({
+          uri: tagUri(tag),
+          name: `Tag: ${tag}`,
+          description: `${count} ${count === 1 ? 'memory' : 'memories'}`,
+          mimeType: MIME_TYPE,
+        })),
+      }),
+      complete: {
+        tag: async (value) => (await listTags()).map(t => t.tag).filter(tag => tag.startsWith(value)),
+      },
+    }),
+    { description: `The ${LIST_LIMIT} newest memories carrying a tag`, mimeType: MIME_TYPE },
+    async (uri, variables) => {
+      const tag = variable(variables.tag);
+      const memories = (await store.exportMemories({ includeVectors: false }))
+        .filter(m => m.tags.includes(tag))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, LIST_LIMIT)
+        .map(({ accessCount: _accessCount, lastAccessedAt: _lastAccessedAt, ...memory }) => memory);
+      return json(uri, { tag, count: memories.length, memories: memories.map(withUri) });
+    },
+  );
+
+  server.resource(
+    'memory',
+    new ResourceTemplate('memory://{id}', {
+      list: async () => ({
+        resources: (await store.listRecent(LIST_LIMIT)).map(memory => ({
+          uri: memoryUri(memory.id),
+          name: title(memory.content),
+          description: [memory.category, ...memory.tags].join(', '),
+          mimeType: MIME_TYPE,
+        })),
+      }),
+    }),
+    { description: 'A single memory with its links', mimeType: MIME_TYPE },
+    async (uri, variables) => {
+      const id = variable(variables.id);
+      const graph = await store.getGraph(id, 1);
+      const memory = graph.nodes.find(m => m.id === id)!;
+      return json(uri, { ...memory, links: graph.links });
+    },
+  );
+
+  if (options.changes) registerSubscriptions(server, options.changes);
+}
+
+/**
+ * Track this session's subscriptions and forward store changes to them.
+ * A memory's URI is updated when that memory changes; listings are
+ * updated on every change, since the memory may have left the category
+ * or tag it was in.
+ */
+function registerSubscriptions(server: McpServer, changes: NotifyingMemoryStore): void {
+  const subscribed = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async ({ params }) => {
+    subscribed.add(params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async ({ params }) => {
+    subscribed.delete(params.uri);
+    return {};
+  });
+
+  const unsubscribe = changes.onChange((change: MemoryChange) => {
+    if (!server.isConnected()) return;
+    const changed = new Set(change.ids.map(memoryUri));
+    for (const uri of subscribed) {
+      if (changed.has(uri) || uri.startsWith('memory://category/') || uri.startsWith('memory://tag/')) {
+        server.server.sendResourceUpdated({ uri }).catch(err => console.error('[resources] Update notification failed:', err));
+      }
+    }
+    if (change.listChanged) server.sendResourceListChanged();
+  });
+
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    unsubscribe();
+    onclose?.();
+  };
+}
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+function variable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+function withUri(memory: Memory): Memory & { uri: string } {
+  return { uri: memoryUri(memory.id), ...memory };
+}
+
+/** The first line of a memory, shortened, as its resource name. */
+function title(content: string): string {
+  const line = content.trim().split('\n')[0];
+  return line.length > 80 ? `${line.slice(0, 79)}…` : line;
+}
+
+function json(uri: URL, data: unknown): ReadResourceResult {
+  return { contents: [{ uri: uri.href, mimeType: MIME_TYPE, text: JSON.stringify(data, null, 2) }] };
+}
@@ -1,14 +1,20 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { MemoryStore } from './types.js';
-import { registerTools } from './tools.js';
+import { registerPrompts } from './prompts.js';
+import { registerResources, type ResourceOptions } from './resources.js';
+import { registerTools, type ToolOptions } from './tools.js';
 
-export function createServer(store: MemoryStore): McpServer {
+export type ServerOptions = ToolOptions & ResourceOptions;
+
+export function createServer(store: MemoryStore, options: ServerOptions = {}): McpServer {
   const server = new McpServer({
     name: 'agent-memory',
     version: '1.0.0',
   });
 
-  registerTools(server, store);
+  registerTools(server, store, options);
+  registerResources(server, store, options);
+  registerPrompts(server, store, options);
 
   return server;
 }
@@ -0,0 +1,97 @@
+import type { SearchFilters, TagNormalisation } from './types.js';
+
+// ── Tags ──────────────────────────────────────────────────────────
+//
+// Tags are stored twice: as a JSON array in `tags` (what callers see) and
+// as a newline-delimited index in `tag_index` for filtering inside the
+// LanceDB query. Each tag is JSON-encoded on its own line, so
+// strpos('\n"typescript"\n') matches that exact tag and nothing else —
+// JSON never contains a raw newline. Same scheme as metadata.ts.
+//
+//   ["typescript", "build"]  →  \n"typescript"\n"build"\n
+
+export function tagIndex(tags: string[]): string {
+  return `\n${tags.map(tag => JSON.stringify(tag)).join('\n')}\n`;
+}
+
+/**
+ * Derive `tag_index` from the `tags` JSON column in SQL, for backfilling
+ * rows written before the index existed. JSON.stringify puts `","`
+ * between elements and nowhere else (quotes inside a tag are escaped).
+ */
+export const TAG_INDEX_SQL =
+  `concat(chr(10), replace(substr(tags, 2, length(tags) - 2), '","', concat('"', chr(10), '"')), chr(10))`;
+
+/** SQL predicates for the tag filters: any-of, all-of and none-of. */
+export function tagClauses(filters: Pick<SearchFilters, 'tags' | 'tagsAll' | 'tagsNone'>): string[] {
+  const clauses: string[] = [];
+  if (filters.tags && filters.tags.length > 0) {
+    clauses.push(`(${filters.tags.map(hasTag).join(' OR ')})`);
+  }
+  for (const tag of filters.tagsAll ?? []) {
+    clauses.push(hasTag(tag));
+  }
+  for (const tag of filters.tagsNone ?? []) {
+    clauses.push(`NOT ${hasTag(tag)}`);
+  }
+  return clauses;
+}
+
+/** In-memory equivalent of tagClauses, for stores without SQL. */
+export function matchesTags(
+  tags: string[],
+  filters: Pick<SearchFilters, 'tags' | 'tagsAll' | 'tagsNone'>,
+): boolean {
+  if (filters.tags && filters.tags.length > 0 && !filters.tags.some(t => tags.includes(t))) return false;
+  if (filters.tagsAll && !filters.tagsAll.every(t => tags.includes(t))) return false;
+  if (filters.tagsNone && filters.tagsNone.some(t => tags.includes(t))) return false;
+  return true;
+}
+
+function hasTag(tag: string): string {
+  const line = `\n${JSON.stringify(tag)}\n`;
+  return `strpos(tag_index, '${line.replace(/'/g, "''")}') > 0`;
+}
+
+// ── Normalisation ─────────────────────────────────────────────────
+
+/**
+ * Apply the configured normalisation to tags on their way in: trim, fold
+ * case, resolve aliases and drop the duplicates that produces. With no
+ * normalisation configured, tags are stored exactly as given.
+ */
+export function normaliseTags(tags: string[], normalisation: TagNormalisation = {}): string[] {
+  const { caseFold = false, aliases = {} } = normalisation;
+  if (!caseFold && Object.keys(aliases).length === 0) return tags;
+
+  const normalised = tags
+    .map(tag => (caseFold ? tag.trim().toLowerCase() : tag.trim()))
+    .map(tag => (Object.prototype.hasOwnProperty.call(aliases, tag) ? aliases[tag] : tag))
+    .filter(tag => tag.length > 0);
+  return [...new Set(normalised)];
+}
+
+/**
+ * Parse MEMORY_TAG_ALIASES: comma-separated `alias=tag` pairs, e.g.
+ * "ts=typescript, js=javascript". Keys are case-folded when `caseFold` is
+ * set so they match folded input.
+ */
+export function parseTagAliases(value: string | undefined, caseFold = false): Record<string, string> {
+  const aliases: Record<string, string> = {};
+  for (const pair of (value ?? '').split(',')) {
+    if (pair.trim() === '') continue;
+    const [alias, tag, ...rest] = pair.split('=').map(s => s.trim());
+    if (!alias || !tag || rest.length > 0) {
+      throw new Error(`Invalid tag alias "${pair.trim()}" — expected alias=tag`);
+    }
+    aliases[caseFold ? alias.toLowerCase() : alias] = caseFold ? tag.toLowerCase() : tag;
+  }
+  return aliases;
+}
+
+// ── Renaming ──────────────────────────────────────────────────────
+
+/** Replace every tag in `from` with `to`, keeping order and dropping the duplicates that creates. */
+export function replaceTags(tags: string[], from: string[], to: string): string[] {
+  return [...new Set(tags.map(tag => (from.includes(tag) ? to : tag)))];
+}
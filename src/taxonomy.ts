@@ -0,0 +1,110 @@
+import { readFile } from 'fs/promises';
+import { MEMORY_CATEGORIES } from './types.js';
+
+// ── Category taxonomy ─────────────────────────────────────────────
+//
+// The set of categories a server accepts, each with a description that is
+// shown to the agent in the tool schemas. Defaults to the built-in
+// categories; teams replace it with a JSON file (MEMORY_CATEGORIES_FILE)
+// or a comma-separated list (MEMORY_CATEGORIES).
+
+export interface CategoryDefinition {
+  name: string;
+  description: string;
+}
+
+export type Taxonomy = CategoryDefinition[];
+
+const BUILT_IN_DESCRIPTIONS: Record<(typeof MEMORY_CATEGORIES)[number], string> = {
+  'code-solution': 'A working solution or snippet worth reusing',
+  'bug-fix': 'A bug, its cause, and how it was fixed',
+  'architecture': 'How a system is structured and why',
+  'learning': 'Something learnt that is not tied to one piece of code',
+  'tool-usage': 'How to use a tool, command, or library',
+  'debugging': 'Techniques and clues for tracking down problems',
+  'performance': 'Performance findings, measurements, and optimisations',
+  'security': 'Security concerns, decisions, and fixes',
+  'observation': 'Something noticed that may matter later',
+  'personal': 'Preferences and facts about the user',
+  'relationship': 'People, teams, and how to work with them',
+  'other': 'Anything that fits no other category',
+};
+
+export const DEFAULT_TAXONOMY: Taxonomy = MEMORY_CATEGORIES.map(name => ({
+  name,
+  description: BUILT_IN_DESCRIPTIONS[name],
+}));
+
+const CATEGORY_NAME = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Validate a taxonomy definition. Accepts either an object mapping names to
+ * descriptions or an array of names / { name, description } entries.
+ */
+export function parseTaxonomy(value: unknown): Taxonomy {
+  let entries: CategoryDefinition[];
+  if (Array.isArray(value)) {
+    entries = value.map(entry =>
+      typeof entry === 'string'
+        ? { name: entry, description: '' }
+        : { name: entry?.name, description: entry?.description ?? '' },
+    );
+  } else if (typeof value === 'object' && value !== null) {
+    entries = Object.entries(value).map(([name, description]) => ({ name, description: description as string }));
+  } else {
+    throw new Error('Taxonomy must be an object or an array');
+  }
+
+  if (entries.length === 0) throw new Error('Taxonomy must define at least one category');
+  const seen = new Set<string>();
+  for (const { name, description } of entries) {
+    if (typeof name !== 'string' || !CATEGORY_NAME.test(name)) {
+      throw new Error(`Invalid category name ${JSON.stringify(name)}: use lower-case letters, digits and hyphens`);
+    }
+    if (typeof description !== 'string') {
+      throw new Error(`Description for "${name}" must be a string`);
+    }
+    if (seen.has(name)) throw new Error(`Duplicate category "${name}"`);
+    seen.add(name);
+  }
+  return entries;
+}
+
+/**
+ * Resolve the taxonomy from the environment: MEMORY_CATEGORIES_FILE wins
+ * over MEMORY_CATEGORIES, and with neither set the built-ins are used.
+ * Built-in categories listed by name keep their descriptions.
+ */
+export async function loadTaxonomy(env: { file?: string; list?: string }): Promise<Taxonomy> {
+  let taxonomy: Taxonomy;
+  if (env.file) {
+    const text = await readFile(env.file, 'utf-8');
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error(`Invalid JSON in ${env.file}`);
+    }
+    taxonomy = parseTaxonomy(parsed);
+  } else if (env.list?.trim()) {
+    taxonomy = parseTaxonomy(env.list.split(',').map(name => name.trim()).filter(Boolean));
+  } else {
+    return DEFAULT_TAXONOMY;
+  }
+
+  return taxonomy.map(({ name, description }) => ({
+    name,
+    description: description || (BUILT_IN_DESCRIPTIONS as Record<string, string>)[name] || '',
+  }));
+}
+
+export function categoryNames(taxonomy: Taxonomy): string[] {
+  return taxonomy.map(c => c.name);
+}
+
+/** Compact list of the categories and their descriptions, for tool schemas. */
+export function describeTaxonomy(taxonomy: Taxonomy): string {
+  return taxonomy
+    .map(({ name, description }) => (description ? `${name} — ${description}` : name))
+    .join('; ');
+}
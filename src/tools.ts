@@ -1,34 +1,111 @@
+import { readFile, realpath, writeFile } from 'fs/promises';
+import { basename, dirname, isAbsolute, join, relative, resolve } from 'path';
 import { z } from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { parseArchive, serialiseArchive } from './archive.js';
+import { resolveFusion } from './fusion.js';
+import { HardcopyMemoryStore, type HardcopyRepair } from './hardcopy-store.js';
+import { ingest } from './ingest.js';
+import { DEFAULT_TAXONOMY, categoryNames, describeTaxonomy, type Taxonomy } from './taxonomy.js';
 import {
-  MEMORY_CATEGORIES,
+  LINK_RELATIONS,
+  type DuplicatePolicy,
+  type FusionStrategy,
+  type ImportStrategy,
+  type LinkRelation,
   type MemoryStore,
+  type Metadata,
+  type MetadataFilter,
   type SearchMode,
   type SearchResult,
   type StoreRequest,
+  type TagNormalisation,
 } from './types.js';
 
 // ── Zod schemas ────────────────────────────────────────────────────
 
-const categorySchema = z.enum(
-  MEMORY_CATEGORIES as unknown as [string, ...string[]],
-);
+/** Category enum for the server's taxonomy, which is only known at registration. */
+function categorySchemaFor(taxonomy: Taxonomy) {
+  return z.enum(categoryNames(taxonomy) as [string, ...string[]]);
+}
 
 const tagsSchema = z.array(z.string()).describe('Free-form tags for organisation');
 
-const filtersSchema = {
-  category: categorySchema.optional().describe('Filter by category'),
-  tags: z.array(z.string()).optional().describe('Filter: memory must have at least one of these tags'),
-  after: z.string().optional().describe('Filter: created after this ISO 8601 date'),
-  before: z.string().optional().describe('Filter: created before this ISO 8601 date'),
-  limit: z.number().optional().describe('Max results to return (default 10)'),
-};
+const namespaceSchema = z
+  .string()
+  .optional()
+  .describe('Namespace (project/workspace) to use. Defaults to the server\'s MEMORY_NAMESPACE');
+
+const metadataSchema = z
+  .record(z.unknown())
+  .describe('Structured fields such as repo, file path, ticket or author, e.g. { "repo": "api", "pr": 42 }');
+
+const metadataValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+const metadataBoundSchema = z.union([z.number(), z.string()]).optional();
+
+const metadataFilterSchema = z
+  .record(z.union([
+    metadataValueSchema,
+    z.object({
+      eq: metadataValueSchema.optional(),
+      exists: z.boolean().optional(),
+      gt: metadataBoundSchema,
+      gte: metadataBoundSchema,
+      lt: metadataBoundSchema,
+      lte: metadataBoundSchema,
+    }),
+  ]))
+  .optional()
+  .describe('Filter on metadata. Keys are dotted paths ("owner.team"); values are either a value to match or { eq, exists, gt, gte, lt, lte }');
+
+const allNamespacesSchema = z
+  .boolean()
+  .optional()
+  .describe('Search across every namespace instead of a single one (default false)');
+
+function filtersSchemaFor(categorySchema: ReturnType<typeof categorySchemaFor>) {
+  return {
+    namespace: namespaceSchema,
+    all_namespaces: allNamespacesSchema,
+    category: categorySchema.optional().describe('Filter by category'),
+    tags: z.array(z.string()).optional().describe('Filter: memory must have at least one of these tags'),
+    tags_all: z.array(z.string()).optional().describe('Filter: memory must have every one of these tags'),
+    tags_none: z.array(z.string()).optional().describe('Filter: memory must have none of these tags'),
+    metadata: metadataFilterSchema,
+    after: z.string().optional().describe('Filter: created after this ISO 8601 date'),
+    before: z.string().optional().describe('Filter: created before this ISO 8601 date'),
+    limit: z.number().optional().describe('Max results to return (default 10)'),
+  };
+}
+
+const onDuplicateSchema = z
+  .enum(['reject', 'merge', 'flag', 'off'])
+  .optional()
+  .describe('What to do when the content nearly matches an existing memory: reject, merge (add tags to the existing one), flag (store anyway), or off. Defaults to the server\'s MEMORY_DUPLICATE_POLICY');
+
+const relationSchema = z
+  .enum(LINK_RELATIONS as unknown as [string, ...string[]])
+  .describe('How the source relates to the target: supersedes, contradicts, depends-on, explains, or related-to');
 
 const modeSchema = z
   .enum(['hybrid', 'keyword', 'semantic'])
   .optional()
   .describe('Search mode: hybrid (default), keyword-only, or semantic-only');
 
+const minScoreSchema = z
+  .number()
+  .min(0)
+  .max(1)
+  .optional()
+  .describe('Only return results scoring at least this much (0–1), even if fewer than limit remain. Scores mean the same in every mode; around 0.3 drops weak matches');
+
+const explainSchema = z
+  .boolean()
+  .optional()
+  .describe('Attach a score breakdown to each result: BM25 score, vector distance, rank in each list and fusion contributions, decay factor, importance multiplier, effective half-life and evergreen status (default false)');
+
 // ── Tool result helpers ────────────────────────────────────────────
 // Returns plain objects compatible with the MCP SDK's CallToolResult
 // (which requires an index signature [key: string]: unknown).
@@ -41,15 +118,53 @@ function error(message: string) {
   return { content: [{ type: 'text' as const, text: message }], isError: true };
 }
 
+// ── File paths ─────────────────────────────────────────────────────
+// export, import and ingest read and write files as the server's user.
+// A fileRoot of null refuses path arguments; a directory confines them
+// to it, symlinks included. Relative paths are taken from the root.
+
+/**
+ * Where `path` arguments may point: anywhere (undefined), only inside a
+ * directory, or nowhere (null).
+ */
+export type FileRoot = string | null | undefined;
+
+async function confinePath(path: string, fileRoot: FileRoot): Promise<string> {
+  if (fileRoot === undefined) return path;
+  if (fileRoot === null) {
+    throw new Error('file paths are disabled on this server; set MEMORY_FILE_ROOT to allow them');
+  }
+  const root = await realpath(fileRoot);
+  const target = resolve(root, path);
+  // The target may not exist yet (export), so resolve the links in its directory.
+  const real = await realpath(target).catch(async () => join(await realpath(dirname(target)), basename(target)));
+  const inside = relative(root, real);
+  if (inside.startsWith('..') || isAbsolute(inside)) {
+    throw new Error(`${path} is outside the file root ${fileRoot}`);
+  }
+  return real;
+}
+
 // ── Handler factories ──────────────────────────────────────────────
 // Each factory closes over a MemoryStore, returning a handler function
 // that the MCP server can invoke. This keeps tools testable without
 // an MCP server instance.
 
 export function handleStore(store: MemoryStore) {
-  return async (args: { content: string; category: string; tags: string[] }): Promise<ReturnType<typeof success>> => {
+  return async (args: {
+    content: string;
+    category: string;
+    tags: string[];
+    metadata?: Metadata;
+    namespace?: string;
+    on_duplicate?: string;
+  }): Promise<ReturnType<typeof success>> => {
     try {
-      const memory = await store.store(args as StoreRequest);
+      const { on_duplicate, ...request } = args;
+      const memory = await store.store({
+        ...request,
+        onDuplicate: on_duplicate as DuplicatePolicy | undefined,
+      } as StoreRequest);
       return success(memory);
     } catch (err) {
       return error(`Failed to store memory: ${String(err)}`);
@@ -58,10 +173,21 @@ export function handleStore(store: MemoryStore) {
 }
 
 export function handleStoreBatch(store: MemoryStore) {
-  return async (args: { memories: Array<{ content: string; category: string; tags: string[] }> }): Promise<ReturnType<typeof success>> => {
+  return async (args: {
+    memories: Array<{ content: string; category: string; tags: string[]; metadata?: Metadata; namespace?: string }>;
+    namespace?: string;
+    on_duplicate?: string;
+  }): Promise<ReturnType<typeof success>> => {
     try {
-      const memories = await store.storeBatch(args.memories as StoreRequest[]);
-      return success({ stored: memories.length, memories });
+      const requests = args.memories.map(m => ({
+        ...m,
+        namespace: m.namespace ?? args.namespace,
+        onDuplicate: args.on_duplicate as DuplicatePolicy | undefined,
+      })) as StoreRequest[];
+      const memories = await store.storeBatch(requests);
+      const stored = memories.filter(m => !m.duplicate || m.duplicate.action === 'flagged').length;
+      const duplicates = memories.filter(m => m.duplicate).length;
+      return success({ stored, duplicates, memories });
     } catch (err) {
       return error(`Failed to store batch: ${String(err)}`);
     }
@@ -72,22 +198,46 @@ export function handleSearch(store: MemoryStore) {
   return async (args: {
     query: string;
     mode?: string;
+    namespace?: string;
+    all_namespaces?: boolean;
     category?: string;
     tags?: string[];
+    tags_all?: string[];
+    tags_none?: string[];
+    metadata?: MetadataFilter;
     after?: string;
     before?: string;
     limit?: number;
+    rerank?: boolean;
+    explain?: boolean;
+    fusion?: string;
+    rrf_k?: number;
+    keyword_weight?: number;
+    min_score?: number;
   }): Promise<ReturnType<typeof success>> => {
     try {
       const mode = (args.mode ?? 'hybrid') as SearchMode;
+      // Resolved here so the response can say which fusion was used.
+      const fusion = mode === 'hybrid'
+        ? resolveFusion({ strategy: args.fusion as FusionStrategy | undefined, k: args.rrf_k, keywordWeight: args.keyword_weight })
+        : undefined;
       const results = await store.search(args.query, mode, {
+        namespace: args.namespace,
+        allNamespaces: args.all_namespaces,
         category: args.category as StoreRequest['category'],
         tags: args.tags,
+        tagsAll: args.tags_all,
+        tagsNone: args.tags_none,
+        metadata: args.metadata,
         after: args.after,
         before: args.before,
         limit: args.limit,
+        rerank: args.rerank,
+        explain: args.explain,
+        fusion,
+        minScore: args.min_score,
       });
-      return success({ count: results.length, results });
+      return success({ count: results.length, ...(fusion && { fusion }), results });
     } catch (err) {
       return error(`Search failed: ${String(err)}`);
     }
@@ -99,6 +249,10 @@ export function handleRecall(store: MemoryStore) {
     topics: string[];
     include_recent?: number;
     limit_per_topic?: number;
+    namespace?: string;
+    all_namespaces?: boolean;
+    explain?: boolean;
+    min_score?: number;
   }): Promise<ReturnType<typeof success>> => {
     try {
       const limitPerTopic = args.limit_per_topic ?? 5;
@@ -107,11 +261,18 @@ export function handleRecall(store: MemoryStore) {
       const byTopic: Record<string, SearchResult[]> = {};
       await Promise.all(
         args.topics.map(async (topic) => {
-          byTopic[topic] = await store.search(topic, 'hybrid', { limit: limitPerTopic });
+          byTopic[topic] = await store.search(topic, 'hybrid', {
+            namespace: args.namespace,
+            allNamespaces: args.all_namespaces,
+            limit: limitPerTopic,
+            explain: args.explain,
+            minScore: args.min_score,
+          });
         }),
       );
 
-      const recent = await store.listRecent(includeRecent);
+      // Recent memories always come from a single namespace.
+      const recent = await store.listRecent(includeRecent, undefined, args.namespace);
       return success({ byTopic, recent });
     } catch (err) {
       return error(`Recall failed: ${String(err)}`);
@@ -120,9 +281,15 @@ export function handleRecall(store: MemoryStore) {
 }
 
 export function handleFindRelated(store: MemoryStore) {
-  return async (args: { memory_id: string; limit?: number }): Promise<ReturnType<typeof success>> => {
+  return async (args: {
+    memory_id: string;
+    limit?: number;
+    include_links?: boolean;
+  }): Promise<ReturnType<typeof success>> => {
     try {
-      const results = await store.findRelated(args.memory_id, args.limit ?? 5);
+      const results = await store.findRelated(args.memory_id, args.limit ?? 5, {
+        includeLinks: args.include_links,
+      });
       return success({ count: results.length, results });
     } catch (err) {
       return error(`Find related failed: ${String(err)}`);
@@ -131,11 +298,12 @@ export function handleFindRelated(store: MemoryStore) {
 }
 
 export function handleListRecent(store: MemoryStore) {
-  return async (args: { limit?: number; category?: string }): Promise<ReturnType<typeof success>> => {
+  return async (args: { limit?: number; category?: string; namespace?: string }): Promise<ReturnType<typeof success>> => {
     try {
       const memories = await store.listRecent(
         args.limit ?? 10,
         args.category as StoreRequest['category'],
+        args.namespace,
       );
       return success({ count: memories.length, memories });
     } catch (err) {
@@ -150,12 +318,16 @@ export function handleUpdate(store: MemoryStore) {
     content?: string;
     category?: string;
     tags?: string[];
+    metadata?: Metadata;
+    reason?: string;
   }): Promise<ReturnType<typeof success>> => {
     try {
       const memory = await store.update(args.id, {
         content: args.content,
         category: args.category as StoreRequest['category'],
         tags: args.tags,
+        metadata: args.metadata,
+        reason: args.reason,
       });
       return success(memory);
     } catch (err) {
@@ -175,10 +347,114 @@ export function handleDelete(store: MemoryStore) {
   };
 }
 
+export function handleLink(store: MemoryStore) {
+  return async (args: {
+    source_id: string;
+    target_id: string;
+    relation: string;
+  }): Promise<ReturnType<typeof success>> => {
+    try {
+      const link = await store.link(args.source_id, args.target_id, args.relation as LinkRelation);
+      return success(link);
+    } catch (err) {
+      return error(`Link failed: ${String(err)}`);
+    }
+  };
+}
+
+export function handleUnlink(store: MemoryStore) {
+  return async (args: {
+    source_id: string;
+    target_id: string;
+    relation?: string;
+  }): Promise<ReturnType<typeof success>> => {
+    try {
+      const removed = await store.unlink(args.source_id, args.target_id, args.relation as LinkRelation | undefined);
+      return success({ removed });
+    } catch (err) {
+      return error(`Unlink failed: ${String(err)}`);
+    }
+  };
+}
+
+export function handleGetGraph(store: MemoryStore) {
+  return async (args: { memory_id: string; depth?: number }): Promise<ReturnType<typeof success>> => {
+    try {
+      const graph = await store.getGraph(args.memory_id, args.depth ?? 1);
+      return success(graph);
+    } catch (err) {
+      return error(`Get graph failed: ${String(err)}`);
+    }
+  };
+}
+
+export function handleListTrash(store: MemoryStore) {
+  return async (args: { namespace?: string }): Promise<ReturnType<typeof success>> => {
+    try {
+      const memories = await store.listTrash(args.namespace);
+      return success({ count: memories.length, memories });
+    } catch (err) {
+      return error(`List trash failed: ${String(err)}`);
+    }
+  };
+}
+
+export function handleRestore(store: MemoryStore) {
+  return async (args: { id: string }): Promise<ReturnType<typeof success>> => {
+    try {
+      const memory = await store.restore(args.id);
+      return success(memory);
+    } catch (err) {
+      return error(`Restore failed: ${String(err)}`);
+    }
+  };
+}
+
+export function handleEmptyTrash(store: MemoryStore) {
+  return async (args: {
+    older_than_days?: number;
+    namespace?: string;
+    all_namespaces?: boolean;
+  }): Promise<ReturnType<typeof success>> => {
+    try {
+      const result = await store.emptyTrash({
+        olderThanDays: args.older_than_days,
+        namespace: args.namespace,
+        allNamespaces: args.all_namespaces,
+      });
+      return success(result);
+    } catch (err) {
+      return error(`Empty trash failed: ${String(err)}`);
+    }
+  };
+}
+
+export function handleHistory(store: MemoryStore) {
+  return async (args: { id: string }): Promise<ReturnType<typeof success>> => {
+    try {
+      const revisions = await store.history(args.id);
+      return success({ id: args.id, count: revisions.length, revisions });
+    } catch (err) {
+      return error(`History failed: ${String(err)}`);
+    }
+  };
+}
+
+export function handleRevert(store: MemoryStore) {
+  return async (args: { id: string; revision_id: string }): Promise<ReturnType<typeof success>> => {
+    try {
+      const memory = await store.revert(args.id, args.revision_id);
+      return success(memory);
+    } catch (err) {
+      return error(`Revert failed: ${String(err)}`);
+    }
+  };
+}
+
 export function handleStats(store: MemoryStore) {
-  return async (): Promise<ReturnType<typeof success>> => {
+  return async (args: { namespace?: string } = {}): Promise<ReturnType<typeof success>> => {
     try {
-      const stats = await store.stats();
+      const stats = await store.stats(args.namespace);
       return success(stats);
     } catch (err) {
       return error(`Stats failed: ${String(err)}`);
@@ -186,17 +462,46 @@ export function handleStats(store: MemoryStore) {
   };
 }
 
+/** Sends progress notifications when the client asked for them with a progress token. */
+export function handleReembed(store: MemoryStore) {
+  return async (
+    args: { batch_size?: number },
+    extra?: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): Promise<ReturnType<typeof success>> => {
+    const progressToken = extra?._meta?.progressToken;
+    try {
+      const result = await store.reembed({
+        batchSize: args.batch_size,
+        onProgress: async ({ done, total }) => {
+          if (progressToken === undefined) return;
+          await extra!.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress: done, total, message: `Re-embedded ${done} of ${total} memories` },
+          });
+        },
+      });
+      return success(result);
+    } catch (err) {
+      return error(`Re-embed failed: ${String(err)}`);
+    }
+  };
+}
+
 export function handlePrune(store: MemoryStore) {
   return async (args: {
     dryRun?: boolean;
     minStrength?: number;
     maxDormantDays?: number;
+    namespace?: string;
+    all_namespaces?: boolean;
   }): Promise<ReturnType<typeof success>> => {
     try {
       const result = await store.prune({
         dryRun: args.dryRun,
         minStrength: args.minStrength,
         maxDormantDays: args.maxDormantDays,
+        namespace: args.namespace,
+        allNamespaces: args.all_namespaces,
       });
       return success(result);
     } catch (err) {
@@ -205,18 +510,232 @@ export function handlePrune(store: MemoryStore) {
   };
 }
 
+export function handleRecategorize(store: MemoryStore) {
+  return async (args: {
+    from: string[];
+    to: string;
+    dryRun?: boolean;
+    namespace?: string;
+    all_namespaces?: boolean;
+  }): Promise<ReturnType<typeof success>> => {
+    try {
+      const result = await store.recategorize({
+        from: args.from,
+        to: args.to,
+        dryRun: args.dryRun,
+        namespace: args.namespace,
+        allNamespaces: args.all_namespaces,
+      });
+      return success(result);
+    } catch (err) {
+      return error(`Recategorize failed: ${String(err)}`);
+    }
+  };
+}
+
+export function handleListTags(store: MemoryStore) {
+  return async (args: { namespace?: string }): Promise<ReturnType<typeof success>> => {
+    try {
+      const tags = await store.listTags(args.namespace);
+      return success({ count: tags.length, tags });
+    } catch (err) {
+      return error(`List tags failed: ${String(err)}`);
+    }
+  };
+}
+
+export function handleRenameTag(store: MemoryStore) {
+  return async (args: {
+    from: string;
+    to: string;
+    dryRun?: boolean;
+    namespace?: string;
+  }): Promise<ReturnType<typeof success>> => {
+    try {
+      const result = await store.renameTag({
+        from: [args.from],
+        to: args.to,
+        dryRun: args.dryRun,
+        namespace: args.namespace,
+      });
+      return success(result);
+    } catch (err) {
+      return error(`Rename tag failed: ${String(err)}`);
+    }
+  };
+}
+
+export function handleMergeTags(store: MemoryStore) {
+  return async (args: {
+    from: string[];
+    to: string;
+    dryRun?: boolean;
+    namespace?: string;
+  }): Promise<ReturnType<typeof success>> => {
+    try {
+      const result = await store.mergeTags({
+        from: args.from,
+        to: args.to,
+        dryRun: args.dryRun,
+        namespace: args.namespace,
+      });
+      return success(result);
+    } catch (err) {
+      return error(`Merge tags failed: ${String(err)}`);
+    }
+  };
+}
+
+export function handleConsolidate(store: MemoryStore) {
+  return async (args: {
+    dryRun?: boolean;
+    threshold?: number;
+    category?: string;
+    tags?: string[];
+    namespace?: string;
+  }): Promise<ReturnType<typeof success>> => {
+    try {
+      const result = await store.consolidate({
+        dryRun: args.dryRun,
+        threshold: args.threshold,
+        category: args.category as StoreRequest['category'],
+        tags: args.tags,
+        namespace: args.namespace,
+      });
+      return success(result);
+    } catch (err) {
+      return error(`Consolidation failed: ${String(err)}`);
+    }
+  };
+}
+
+export function handleExport(store: MemoryStore, fileRoot?: FileRoot) {
+  return async (args: {
+    path?: string;
+    namespace?: string;
+    all_namespaces?: boolean;
+    include_vectors?: boolean;
+    include_trash?: boolean;
+  }): Promise<ReturnType<typeof success>> => {
+    try {
+      const memories = await store.exportMemories({
+        namespace: args.namespace,
+        allNamespaces: args.all_namespaces,
+        // Inline archives land in the agent's context; 384 floats a memory is too many.
+        includeVectors: args.include_vectors ?? Boolean(args.path),
+        includeTrash: args.include_trash,
+      });
+      const archive = serialiseArchive(memories);
+      if (args.path) {
+        await writeFile(await confinePath(args.path, fileRoot), archive);
+        return success({ exported: memories.length, path: args.path });
+      }
+      return success({ exported: memories.length, archive });
+    } catch (err) {
+      return error(`Export failed: ${String(err)}`);
+    }
+  };
+}
+
+export function handleImport(store: MemoryStore, fileRoot?: FileRoot) {
+  return async (args: {
+    path?: string;
+    archive?: string;
+    strategy?: string;
+    reembed?: boolean;
+  }): Promise<ReturnType<typeof success>> => {
+    try {
+      if (!args.path && !args.archive) {
+        return error('Import failed: provide either path or archive');
+      }
+      const text = args.path ? await readFile(await confinePath(args.path, fileRoot), 'utf-8') : args.archive!;
+      const records = parseArchive(text);
+      const { ids: _ids, ...result } = await store.importMemories(records, {
+        strategy: args.strategy as ImportStrategy | undefined,
+        reembed: args.reembed,
+      });
+      return success(result);
+    } catch (err) {
+      return error(`Import failed: ${String(err)}`);
+    }
+  };
+}
+
+/**
+ * `categories` is the taxonomy; files naming another category are reported
+ * as failed. `tagNormalisation` is the store's.
+ */
+export function handleIngest(
+  store: MemoryStore,
+  categories?: string[],
+  tagNormalisation?: TagNormalisation,
+  fileRoot?: FileRoot,
+) {
+  return async (args: {
+    path: string;
+    namespace?: string;
+    category?: string;
+    tags?: string[];
+    rules?: { pattern: string; category?: string; tags?: string[] }[];
+    heading_level?: number;
+    dryRun?: boolean;
+  }): Promise<ReturnType<typeof success>> => {
+    try {
+      const result = await ingest(store, {
+        path: await confinePath(args.path, fileRoot),
+        namespace: args.namespace,
+        category: args.category,
+        tags: args.tags,
+        rules: args.rules,
+        headingLevel: args.heading_level,
+        categories,
+        tagNormalisation,
+        dryRun: args.dryRun,
+      });
+      return success(result);
+    } catch (err) {
+      return error(`Ingest failed: ${String(err)}`);
+    }
+  };
+}
+
+export function handleVerifyHardcopy(store: HardcopyMemoryStore) {
+  return async (args: { repair?: string }): Promise<ReturnType<typeof success>> => {
+    try {
+      const report = await store.verifyHardcopy((args.repair ?? 'none') as HardcopyRepair);
+      return success(report);
+    } catch (err) {
+      return error(`Hardcopy verification failed: ${String(err)}`);
+    }
+  };
+}
+
 // ── Registration ───────────────────────────────────────────────────
 
-export function registerTools(server: McpServer, store: MemoryStore): void {
+export interface ToolOptions {
+  taxonomy?: Taxonomy;  // default: the built-in categories
+  tagNormalisation?: TagNormalisation;  // the store's, for ingest; default: none
+  fileRoot?: FileRoot;  // where export, import and ingest may touch files; default: anywhere
+}
+
+export function registerTools(server: McpServer, store: MemoryStore, options: ToolOptions = {}): void {
+  const taxonomy = options.taxonomy ?? DEFAULT_TAXONOMY;
+  const categorySchema = categorySchemaFor(taxonomy);
+  const categoryDescription = `Memory category. One of: ${describeTaxonomy(taxonomy)}`;
+  const filtersSchema = filtersSchemaFor(categorySchema);
+
   // ── Storage tools ──
 
   server.tool(
     'store',
-    'Store a single memory with content, category, and tags. Returns the stored memory with its ID.',
+    'Store a single memory with content, category, and tags. Returns the stored memory with its ID, plus a "duplicate" entry (existing id and similarity) when the content nearly matches an existing memory.',
     {
       content: z.string().describe('The memory content — what you learnt, observed, or want to remember'),
-      category: categorySchema.describe('Memory category'),
+      category: categorySchema.describe(categoryDescription),
       tags: tagsSchema,
+      metadata: metadataSchema.optional(),
+      namespace: namespaceSchema,
+      on_duplicate: onDuplicateSchema,
     },
     handleStore(store),
   );
@@ -227,9 +746,13 @@ export function registerTools(server: McpServer, store: MemoryStore): void {
     {
       memories: z.array(z.object({
         content: z.string().describe('The memory content'),
-        category: categorySchema,
+        category: categorySchema.describe(categoryDescription),
         tags: tagsSchema,
+        metadata: metadataSchema.optional(),
+        namespace: namespaceSchema,
       })).describe('Array of memories to store'),
+      namespace: namespaceSchema.describe('Namespace for every memory in the batch that does not name its own'),
+      on_duplicate: onDuplicateSchema,
     },
     handleStoreBatch(store),
   );
@@ -238,11 +761,17 @@ export function registerTools(server: McpServer, store: MemoryStore): void {
 
   server.tool(
     'search',
-    'Search memories by meaning and/or keywords. Default mode is hybrid (BM25 + vector). Returns ranked results with relevance scores.',
+    'Search memories by meaning and/or keywords. Default mode is hybrid (BM25 + vector). Returns ranked results with relevance scores; results for long memories include the passage that matched best.',
     {
       query: z.string().describe('What to search for — a concept, phrase, or question'),
       mode: modeSchema,
       ...filtersSchema,
+      rerank: z.boolean().optional().describe('Re-score the top candidates with the cross-encoder reranker, reported as rerankScore next to the retrieval score. Slower, more precise. Defaults to the server\'s RERANK_DEFAULT'),
+      explain: explainSchema,
+      min_score: minScoreSchema,
+      fusion: z.enum(['rrf', 'linear', 'max']).optional().describe('How hybrid mode merges keyword and vector results: rrf (by rank), linear (weighted sum of normalised scores) or max (the stronger of the two). Defaults to the server\'s HYBRID_FUSION'),
+      rrf_k: z.number().positive().optional().describe('Rank constant for rrf fusion; larger values flatten the rank curve. Defaults to the server\'s HYBRID_RRF_K (60)'),
+      keyword_weight: z.number().min(0).max(1).optional().describe('Share of the keyword results in hybrid fusion, 0–1; the vector results get the rest. Raise it when exact terms matter. Defaults to the server\'s HYBRID_KEYWORD_WEIGHT (0.5)'),
     },
     handleSearch(store),
   );
@@ -254,6 +783,10 @@ export function registerTools(server: McpServer, store: MemoryStore): void {
       topics: z.array(z.string()).describe('List of topics to search for'),
       include_recent: z.number().optional().describe('Number of recent memories to include (default 5)'),
       limit_per_topic: z.number().optional().describe('Max results per topic (default 5)'),
+      namespace: namespaceSchema,
+      all_namespaces: allNamespacesSchema.describe('Search topics across every namespace (recent memories stay in one namespace)'),
+      explain: explainSchema,
+      min_score: minScoreSchema,
     },
     handleRecall(store),
   );
@@ -264,16 +797,28 @@ export function registerTools(server: McpServer, store: MemoryStore): void {
     {
       memory_id: z.string().describe('ID of the memory to find relatives of'),
       limit: z.number().optional().describe('Max related memories to return (default 5)'),
+      include_links: z.boolean().optional().describe('List explicitly linked memories first, then fill with similar ones (default false)'),
     },
     handleFindRelated(store),
   );
 
+  server.tool(
+    'get_graph',
+    'Walk explicit links out from a memory and return the neighbourhood: every memory within depth hops (in either direction) and the links between them.',
+    {
+      memory_id: z.string().describe('ID of the memory at the centre of the graph'),
+      depth: z.number().int().min(1).max(5).optional().describe('Number of hops to follow (default 1, max 5)'),
+    },
+    handleGetGraph(store),
+  );
+
   server.tool(
     'list_recent',
     'List most recent memories, optionally filtered by category. Use to see what you have been learning lately.',
     {
       limit: z.number().optional().describe('Max memories to return (default 10)'),
       category: categorySchema.optional().describe('Filter by category'),
+      namespace: namespaceSchema,
     },
     handleListRecent(store),
   );
@@ -282,40 +827,245 @@ export function registerTools(server: McpServer, store: MemoryStore): void {
 
   server.tool(
     'update',
-    'Update an existing memory — change its content, category, or tags. If content changes, the embedding is regenerated automatically.',
+    'Update an existing memory — change its content, category, or tags. If content changes, the embedding is regenerated automatically. The previous version is kept in the memory\'s history.',
     {
       id: z.string().describe('ID of the memory to update'),
       content: z.string().optional().describe('New content (triggers re-embedding)'),
-      category: categorySchema.optional().describe('New category'),
+      category: categorySchema.optional().describe(`New category. ${categoryDescription}`),
       tags: tagsSchema.optional().describe('New tags (replaces existing)'),
+      metadata: metadataSchema.optional().describe('New metadata (replaces existing)'),
+      reason: z.string().optional().describe('Why the memory is changing — kept in its revision history'),
     },
     handleUpdate(store),
   );
 
+  server.tool(
+    'link',
+    'Record a directed, typed relationship between two memories, e.g. "source supersedes target" or "source depends-on target".',
+    {
+      source_id: z.string().describe('ID of the memory the relationship starts from'),
+      target_id: z.string().describe('ID of the memory the relationship points to'),
+      relation: relationSchema,
+    },
+    handleLink(store),
+  );
+
+  server.tool(
+    'unlink',
+    'Remove relationships from a source memory to a target memory — one relation, or all of them if relation is omitted.',
+    {
+      source_id: z.string().describe('ID of the memory the relationship starts from'),
+      target_id: z.string().describe('ID of the memory the relationship points to'),
+      relation: relationSchema.optional(),
+    },
+    handleUnlink(store),
+  );
+
+  server.tool(
+    'history',
+    'Show previous versions of a memory (content, category, tags), newest first, with when and why each was replaced.',
+    {
+      id: z.string().describe('ID of the memory'),
+    },
+    handleHistory(store),
+  );
+
+  server.tool(
+    'revert',
+    'Roll a memory back to an earlier version from its history. The version being replaced is kept, so a revert can itself be undone.',
+    {
+      id: z.string().describe('ID of the memory to revert'),
+      revision_id: z.string().describe('ID of the revision to restore (from the history tool)'),
+    },
+    handleRevert(store),
+  );
+
   server.tool(
     'delete',
-    'Permanently remove a memory by ID.',
+    'Move a memory to the trash by ID. Trashed memories are hidden from search, listing and stats, and can be restored until the trash is emptied.',
     {
       id: z.string().describe('ID of the memory to delete'),
     },
     handleDelete(store),
   );
 
+  server.tool(
+    'list_trash',
+    'List memories in the trash, most recently deleted first.',
+    {
+      namespace: namespaceSchema,
+    },
+    handleListTrash(store),
+  );
+
+  server.tool(
+    'restore',
+    'Restore a memory from the trash.',
+    {
+      id: z.string().describe('ID of the trashed memory to restore'),
+    },
+    handleRestore(store),
+  );
+
+  server.tool(
+    'empty_trash',
+    'Permanently delete memories in the trash, along with their version history. This cannot be undone.',
+    {
+      older_than_days: z.number().optional().describe('Only purge memories trashed at least this many days ago (default: everything)'),
+      namespace: namespaceSchema,
+      all_namespaces: allNamespacesSchema.describe('Empty the trash of every namespace (default false)'),
+    },
+    handleEmptyTrash(store),
+  );
+
   server.tool(
     'stats',
-    'Get memory database statistics: total count, breakdown by category, oldest and newest timestamps, access patterns, and prune-eligible counts.',
-    {},
+    'Get memory database statistics: total count, breakdown by category and namespace, oldest and newest timestamps, access patterns, prune-eligible counts, the decay policy (half-lives by category and tag), and whether the stored vectors match the configured embedding model.',
+    {
+      namespace: z.string().optional().describe('Restrict statistics to one namespace (default: all namespaces)'),
+    },
     handleStats(store),
   );
 
+  server.tool(
+    'reembed',
+    'Rebuild the embedding vector of every memory with the configured embedding model — needed after EMBEDDING_MODEL or EMBEDDING_BACKEND changes (stats shows embedding.stale). Works in batches and reports progress; if interrupted, running it again resumes where it stopped.',
+    {
+      batch_size: z.number().int().positive().optional().describe('Memories embedded per batch (default 32)'),
+    },
+    handleReembed(store),
+  );
+
   server.tool(
     'prune',
-    'Prune low-strength and dormant memories. Dry-run by default — shows candidates without deleting. Set dryRun: false to actually prune. Evergreen memories are always preserved.',
+    'Prune low-strength and dormant memories. Dry-run by default — shows candidates without deleting. Set dryRun: false to move them to the trash. Evergreen memories are always preserved.',
     {
       dryRun: z.boolean().optional().default(true).describe('Preview mode — show what would be pruned without deleting'),
       minStrength: z.number().optional().default(0.05).describe('Prune memories with strength below this value'),
       maxDormantDays: z.number().optional().default(90).describe('Prune never-accessed memories older than this many days'),
+      namespace: namespaceSchema,
+      all_namespaces: allNamespacesSchema.describe('Prune across every namespace (default false)'),
     },
     handlePrune(store),
   );
+
+  server.tool(
+    'recategorize',
+    'Rename or merge categories across stored memories — e.g. after the taxonomy changes. Dry-run by default — shows how many memories would move. Set dryRun: false to apply.',
+    {
+      from: z.array(z.string()).min(1).describe('Categories to move memories out of (they need not be in the current taxonomy)'),
+      to: categorySchema.describe('Category to move them into'),
+      dryRun: z.boolean().optional().default(true).describe('Preview mode — count matching memories without changing them'),
+      namespace: namespaceSchema,
+      all_namespaces: allNamespacesSchema.describe('Recategorize across every namespace (default false)'),
+    },
+    handleRecategorize(store),
+  );
+
+  server.tool(
+    'list_tags',
+    'List every tag in use on live memories, with how many memories carry it and when it was last used (latest updatedAt), most used first.',
+    {
+      namespace: z.string().optional().describe('Only count memories in this namespace (default: every namespace)'),
+    },
+    handleListTags(store),
+  );
+
+  server.tool(
+    'rename_tag',
+    'Rename a tag on every memory that carries it, live or trashed. Fails if the new name is already in use — use merge_tags for that. Dry-run by default — shows how many memories would change. Set dryRun: false to apply.',
+    {
+      from: z.string().min(1).describe('Tag to rename'),
+      to: z.string().min(1).describe('New tag name'),
+      dryRun: z.boolean().optional().default(true).describe('Preview mode — count matching memories without changing them'),
+      namespace: z.string().optional().describe('Only rename within this namespace (default: every namespace)'),
+    },
+    handleRenameTag(store),
+  );
+
+  server.tool(
+    'merge_tags',
+    'Merge several tags into one (e.g. "ts" and "TypeScript" into "typescript") on every memory that carries them, live or trashed. Dry-run by default — shows how many memories would change. Set dryRun: false to apply.',
+    {
+      from: z.array(z.string()).min(1).describe('Tags to merge away'),
+      to: z.string().min(1).describe('Tag to merge them into (may be one of the from tags or an existing tag)'),
+      dryRun: z.boolean().optional().default(true).describe('Preview mode — count matching memories without changing them'),
+      namespace: z.string().optional().describe('Only merge within this namespace (default: every namespace)'),
+    },
+    handleMergeTags(store),
+  );
+
+  server.tool(
+    'consolidate',
+    'Find clusters of near-identical memories and merge each into one. Dry-run by default — shows each cluster with the proposed merged memory. Set dryRun: false to store the merged memories (tags unioned, earliest createdAt, access counts summed) and move the originals to the trash.',
+    {
+      dryRun: z.boolean().optional().default(true).describe('Preview mode — show clusters and proposed merges without changing anything'),
+      threshold: z.number().min(0).max(1).optional().describe('Cosine similarity needed to join a cluster (default 0.9)'),
+      category: categorySchema.optional().describe('Only consolidate memories in this category'),
+      tags: z.array(z.string()).optional().describe('Only consolidate memories with at least one of these tags'),
+      namespace: namespaceSchema,
+    },
+    handleConsolidate(store),
+  );
+
+  // ── Archive tools ──
+
+  server.tool(
+    'export',
+    'Export memories as a versioned JSONL archive (ids, timestamps, access counts and, for files, vectors). Writes to a file when path is given, otherwise returns the archive inline. Memories in the trash are left out unless include_trash is set; version history and links are never exported.',
+    {
+      path: z.string().optional().describe('File to write the archive to. Omit to return the archive in the response'),
+      namespace: namespaceSchema,
+      all_namespaces: allNamespacesSchema.describe('Export every namespace (default false)'),
+      include_vectors: z.boolean().optional().describe('Include embedding vectors so import can skip re-embedding (default: true when writing to path, false inline)'),
+      include_trash: z.boolean().optional().describe('Also export memories in the trash, with their deletedAt, so import puts them back in the trash (default false)'),
+    },
+    handleExport(store, options.fileRoot),
+  );
+
+  server.tool(
+    'import',
+    'Import memories from a JSONL archive produced by export. Original ids, timestamps and access counts are preserved; memories exported from the trash go back to the trash.',
+    {
+      path: z.string().optional().describe('Archive file to read'),
+      archive: z.string().optional().describe('Archive contents, as an alternative to path'),
+      strategy: z.enum(['skip', 'overwrite', 'newer-wins']).optional()
+        .describe('What to do when a memory id already exists: skip (default), overwrite, or keep whichever was updated most recently'),
+      reembed: z.boolean().optional().describe('Regenerate embeddings instead of using archived vectors (default false)'),
+    },
+    handleImport(store, options.fileRoot),
+  );
+
+  server.tool(
+    'ingest',
+    'Read Markdown, text and JSON files from a local file or directory into memories. Markdown is split by heading; category and tags come from front-matter, path rules or the defaults given here. Each memory records its source path and section, so ingesting the same path again updates changed sections, skips unchanged ones and trashes removed ones instead of duplicating.',
+    {
+      path: z.string().describe('File or directory to read; directories are read recursively'),
+      namespace: z.string().optional().describe('Namespace to ingest into (default: the configured default namespace)'),
+      category: categorySchema.optional().describe(`Category for files that set none in front-matter or a rule (default "other"). ${categoryDescription}`),
+      tags: z.array(z.string()).optional().describe('Tags added to every ingested memory'),
+      rules: z.array(z.object({
+        pattern: z.string().describe('Glob matched against the path relative to `path`, e.g. "adr/**" or "*.runbook.md"'),
+        category: categorySchema.optional(),
+        tags: z.array(z.string()).optional(),
+      })).optional().describe('Path rules; the first match sets category and adds tags. Front-matter wins over rules'),
+      heading_level: z.number().int().min(1).max(6).optional().describe('Split Markdown at headings up to this level (default 2)'),
+      dryRun: z.boolean().optional().default(false).describe('Report what would be created, updated and removed without writing'),
+    },
+    handleIngest(store, categoryNames(taxonomy), options.tagNormalisation, options.fileRoot),
+  );
+
+  // ── Hardcopy tools (only when mirroring is enabled) ──
+
+  if (store instanceof HardcopyMemoryStore) {
+    server.tool(
+      'verify_hardcopy',
+      'Compare the hardcopy JSON directory with the memory database: missing files, orphan files, and content/category/tag mismatches. Optionally repair the drift.',
+      {
+        repair: z.enum(['none', 'backfill', 'reconcile']).optional()
+          .describe('none (default): report only. backfill: rewrite files from the database. reconcile: also apply hand-edited files and import orphan files into the database'),
+      },
+      handleVerifyHardcopy(store),
+    );
+  }
 }
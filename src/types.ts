@@ -1,4 +1,6 @@
 // ── Category taxonomy ──────────────────────────────────────────────
+// The built-in categories. A server can be configured with its own
+// taxonomy (see taxonomy.ts), so a stored category is any string.
 
 export const MEMORY_CATEGORIES = [
   'code-solution',
@@ -15,27 +17,194 @@ export const MEMORY_CATEGORIES = [
   'other',
 ] as const;
 
-export type MemoryCategory = (typeof MEMORY_CATEGORIES)[number];
+export type MemoryCategory = string;
+
+// ── Namespaces ─────────────────────────────────────────────────────
+// Every memory belongs to exactly one namespace (project, workspace,
+// client…). Reads and writes are scoped to a single namespace unless
+// the caller explicitly opts into cross-namespace search.
+
+export const DEFAULT_NAMESPACE = 'default';
+
+// ── Metadata ───────────────────────────────────────────────────────
+// Arbitrary JSON attached to a memory (repo, file path, ticket, author…).
+// Filters address nested values with dotted paths, e.g. "owner.team".
+
+export type Metadata = Record<string, unknown>;
+
+export type MetadataValue = string | number | boolean | null;
+
+export interface MetadataCondition {
+  eq?: MetadataValue;
+  exists?: boolean;
+  gt?: number | string;
+  gte?: number | string;
+  lt?: number | string;
+  lte?: number | string;
+}
+
+/** Every entry must match. A bare value is shorthand for { eq: value }. */
+export type MetadataFilter = Record<string, MetadataValue | MetadataCondition>;
+
+// ── Link relations ─────────────────────────────────────────────────
+// Directed, typed edges between memories: `source <relation> target`,
+// e.g. "A supersedes B" or "A depends-on B".
+
+export const LINK_RELATIONS = [
+  'supersedes',
+  'contradicts',
+  'depends-on',
+  'explains',
+  'related-to',
+] as const;
+
+export type LinkRelation = (typeof LINK_RELATIONS)[number];
 
 // ── Domain objects ─────────────────────────────────────────────────
 
 export interface Memory {
   id: string;
+  namespace: string;
   content: string;
   category: MemoryCategory;
   tags: string[];
+  metadata: Metadata;
   createdAt: string;
   updatedAt: string;
 }
 
+// ── Near-duplicates ────────────────────────────────────────────────
+
+/**
+ * What store does when new content is nearly identical to an existing
+ * memory in the same namespace:
+ *   reject — store nothing, return the existing memory
+ *   merge  — store nothing, add the new tags to the existing memory
+ *   flag   — store anyway, but report the match
+ *   off    — skip the check
+ */
+export type DuplicatePolicy = 'reject' | 'merge' | 'flag' | 'off';
+
+export interface DuplicateMatch {
+  id: string;
+  similarity: number;
+  action: 'rejected' | 'merged' | 'flagged';
+}
+
+/** Result of store/storeBatch: the memory plus the near-duplicate match, if any. */
+export interface StoredMemory extends Memory {
+  duplicate?: DuplicateMatch;
+  /** Number of passages long content was split into for search. Absent for content stored whole. */
+  chunks?: number;
+}
+
+/** A soft-deleted memory, kept until the trash is emptied or purged. */
+export interface TrashedMemory extends Memory {
+  deletedAt: string;
+}
+
+/**
+ * A previous version of a memory, captured when an update replaced it.
+ * `updatedAt` is when this version was written; `supersededAt` and
+ * `reason` describe the update that replaced it.
+ */
+export interface MemoryRevision {
+  id: string;
+  memoryId: string;
+  content: string;
+  category: MemoryCategory;
+  tags: string[];
+  metadata: Metadata;
+  updatedAt: string;
+  supersededAt: string;
+  reason: string;
+}
+
+export interface MemoryLink {
+  id: string;
+  sourceId: string;
+  targetId: string;
+  relation: LinkRelation;
+  createdAt: string;
+}
+
+/** The n-hop neighbourhood of a memory along explicit links. */
+export interface MemoryGraph {
+  rootId: string;
+  depth: number;
+  nodes: Memory[];
+  links: MemoryLink[];
+}
+
 export interface SearchResult {
   memory: Memory;
+  /** Relevance from 0 to 1 after temporal decay, comparable across search modes. */
   score: number;
+  /** Set when the result came from an explicit link rather than similarity. */
+  link?: { relation: LinkRelation; direction: 'outgoing' | 'incoming' };
+  /** For memories stored as passages: the one that best matched the query. */
+  passage?: Passage;
+  /** Cross-encoder relevance (0–1) when the results were reranked; `score` stays the retrieval score. */
+  rerankScore?: number;
+  /** How `score` was reached; set when the search asked to `explain`. */
+  explanation?: ScoreExplanation;
+}
+
+/**
+ * The parts of a search score. Retrieval ranks the memory — by BM25, by
+ * vector distance, or by fusing both lists in hybrid mode —
+ * and temporal decay then scales the retrieval score by age.
+ */
+export interface ScoreExplanation {
+  /** The mode that ran; hybrid falls back to semantic without a full-text index. */
+  mode: SearchMode;
+  /** Raw BM25 score, when the keyword search matched the memory. */
+  bm25?: number;
+  /** Cosine distance of the memory's own vector (0–2), when the vector search found it. */
+  distance?: number;
+  /** Cosine distance of the nearest passage, for memories stored as passages. */
+  passageDistance?: number;
+  /** Hybrid only: 1-based position in the keyword and vector lists, when the memory was in them. */
+  keywordRank?: number;
+  vectorRank?: number;
+  /** Calibrated 0–1 relevance of the keyword match and of the nearer vector. */
+  keywordRelevance?: number;
+  vectorRelevance?: number;
+  /**
+   * Hybrid only: the strategy and what each list contributed to the fused
+   * score that orders the results. With linear and max fusion the fused
+   * score is `retrieval`; RRF ranks by `keyword + vector`.
+   */
+  fusion?: { strategy: FusionStrategy; keyword: number; vector: number };
+  /** Relevance (0–1) before decay: one of the two relevances, or their fusion. */
+  retrieval: number;
+  /** Multiplier from temporal decay, 1 when decay does not apply. */
+  decayFactor: number;
+  /** How much access history stretches the half-life (1–3). */
+  importanceMultiplier: number;
+  /** The decay policy rule that applied: "tag:<tag>", "category:<category>" or "default". */
+  decayRule: string;
+  /** Half-life after the importance multiplier, or null when the memory does not decay. */
+  halfLifeDays: number | null;
+  evergreen: boolean;
+  /** Days since the memory was last updated. */
+  ageDays: number;
+}
+
+/** A passage of a long memory; `text` is `memory.content.slice(start, end)`. */
+export interface Passage {
+  text: string;
+  /** Position of the passage within the memory, from 0. */
+  chunk: number;
+  start: number;
+  end: number;
 }
 
 export interface MemoryStats {
   totalMemories: number;
   byCategory: Record<string, number>;
+  byNamespace: Record<string, number>;
+  inTrash: number;
   oldestMemory: string | null;
   newestMemory: string | null;
   // Access tracking stats
@@ -43,12 +212,68 @@ export interface MemoryStats {
   belowPruneThreshold: number;
   avgAccessCount: number;
   mostAccessed: { id: string; content: string; count: number }[];
+  embedding?: EmbeddingStatus;
+  decayPolicy?: DecayPolicy;
+}
+
+// ── Temporal decay ─────────────────────────────────────────────────
+
+/**
+ * Half-lives in days by category and by tag; `null` means no decay. A
+ * memory takes the slowest of its tags' rules, else its category's, else
+ * `halfLifeDays`. The evergreen tags never decay whatever the policy says.
+ */
+export interface DecayPolicy {
+  halfLifeDays: number;                       // memories no rule covers; 0 = no decay
+  categories: Record<string, number | null>;
+  tags: Record<string, number | null>;
+}
+
+// ── Embeddings ─────────────────────────────────────────────────────
+
+export interface EmbeddingStatus {
+  model: string;                    // the configured embedder
+  dimensions: number;
+  storedModel: string | null;       // what the stored vectors were made with; null if not recorded
+  storedDimensions: number | null;  // null when there is no memories table yet
+  stale: boolean;                   // true when the stored vectors need reembed
+}
+
+export interface ReembedProgress {
+  done: number;            // memories with a vector from the current model
+  total: number;
+}
+
+export interface ReembedOptions {
+  batchSize?: number;      // default 32
+  onProgress?: (progress: ReembedProgress) => void | Promise<void>;
+}
+
+export interface ReembedResult {
+  model: string;
+  dimensions: number;
+  total: number;
+  reembedded: number;      // embedded by this run
+  resumed: number;         // already embedded by an interrupted earlier run
 }
 
 export interface PruneOptions {
   dryRun?: boolean;        // default true
   minStrength?: number;    // default 0.05
   maxDormantDays?: number; // default 90
+  namespace?: string;      // default: the store's default namespace
+  allNamespaces?: boolean; // default false
+}
+
+export interface EmptyTrashOptions {
+  olderThanDays?: number;  // default 0 — everything in the trash
+  namespace?: string;      // default: the store's default namespace
+  allNamespaces?: boolean; // default false
+}
+
+export interface EmptyTrashResult {
+  purged: number;
+  ids: string[];
 }
 
 export interface PruneResult {
@@ -58,30 +283,221 @@ export interface PruneResult {
   candidates: { id: string; content: string; strength: number; reason: string }[];
 }
 
+// ── Recategorisation ───────────────────────────────────────────────
+
+export interface RecategorizeOptions {
+  from: MemoryCategory[];  // categories to rename or merge
+  to: MemoryCategory;
+  dryRun?: boolean;        // default true
+  namespace?: string;      // default: the store's default namespace
+  allNamespaces?: boolean; // default false
+}
+
+export interface RecategorizeResult {
+  dryRun: boolean;
+  updated: number;
+  byCategory: Record<string, number>;  // matches per source category
+  ids: string[];
+}
+
+// ── Tags ───────────────────────────────────────────────────────────
+
+export interface TagNormalisation {
+  /** Lower-case every tag, so "TypeScript" and "typescript" are one tag. */
+  caseFold?: boolean;
+  /** Alias → canonical tag, e.g. { ts: "typescript" }. Applied after case folding. */
+  aliases?: Record<string, string>;
+}
+
+export interface TagUsage {
+  tag: string;
+  count: number;           // live memories carrying the tag
+  lastUsedAt: string;      // latest updatedAt among them
+}
+
+export interface RetagOptions {
+  from: string[];          // tags to rename or merge
+  to: string;
+  dryRun?: boolean;        // default true
+  namespace?: string;      // default: every namespace
+}
+
+export interface RetagResult {
+  dryRun: boolean;
+  to: string;              // the target tag after normalisation
+  updated: number;
+  byTag: Record<string, number>;  // matches per source tag
+  ids: string[];
+}
+
+// ── Consolidation ──────────────────────────────────────────────────
+
+export interface ConsolidateOptions {
+  dryRun?: boolean;        // default true
+  threshold?: number;      // cosine similarity, default 0.9
+  category?: MemoryCategory;
+  tags?: string[];         // only memories with at least one of these tags
+  namespace?: string;      // default: the store's default namespace
+}
+
+export interface ConsolidationCluster {
+  memoryIds: string[];
+  similarity: number;      // lowest similarity between the cluster's seed and a member
+  proposed: {
+    content: string;
+    category: MemoryCategory;
+    tags: string[];
+    metadata: Metadata;
+    createdAt: string;
+    accessCount: number;
+  };
+  merged?: Memory;         // the replacement memory, once applied
+}
+
+export interface ConsolidateResult {
+  dryRun: boolean;
+  inspected: number;
+  clusters: ConsolidationCluster[];
+  replaced: number;        // memories moved to the trash
+}
+
+// ── Archives ───────────────────────────────────────────────────────
+// A memory as it travels between databases: the domain object plus the
+// access-tracking state and (optionally) its embedding vector.
+
+export interface ArchivedMemory extends Memory {
+  accessCount: number;
+  lastAccessedAt: string;
+  vector?: number[];
+  deletedAt?: string;       // set when the memory was exported from the trash
+}
+
+export interface ExportOptions {
+  namespace?: string;       // default: the store's default namespace
+  allNamespaces?: boolean;  // default false
+  includeVectors?: boolean; // default true
+  includeTrash?: boolean;   // default false
+}
+
+/** How to resolve an imported memory whose id already exists. */
+export type ImportStrategy = 'skip' | 'overwrite' | 'newer-wins';
+
+export interface ImportOptions {
+  strategy?: ImportStrategy; // default 'skip'
+  reembed?: boolean;         // default false — reuse archived vectors where possible
+  replace?: boolean;         // default false — drop every existing memory, and the history and links of memories not imported
+}
+
+export interface ImportResult {
+  imported: number;
+  overwritten: number;
+  skipped: number;
+  reembedded: number;
+  ids: string[];             // ids that were written (imported or overwritten)
+}
+
+// ── Ingestion ──────────────────────────────────────────────────────
+// Files read from disk into memories, one per section. Each memory records
+// where it came from in metadata.source ({ path, section }), which is how
+// a re-ingest finds it again.
+
+/** Category and tags for files whose path (relative to the ingested root) matches a glob. */
+export interface IngestRule {
+  pattern: string;
+  category?: MemoryCategory;
+  tags?: string[];
+}
+
+export interface IngestOptions {
+  path: string;              // a file, or a directory read recursively
+  namespace?: string;        // default: the store's default namespace
+  category?: MemoryCategory; // when neither front-matter nor a rule sets one
+  tags?: string[];           // added to every memory
+  rules?: IngestRule[];      // the first matching rule applies
+  headingLevel?: number;     // Markdown is split at headings up to this level, default 2
+  categories?: string[];     // the taxonomy, to reject unknown categories per file
+  tagNormalisation?: TagNormalisation;  // the store's, so unchanged sections compare equal
+  dryRun?: boolean;          // default false
+}
+
+export interface IngestResult {
+  dryRun: boolean;
+  files: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  removed: number;           // sections gone from their file (or files gone), moved to the trash
+  ids: string[];             // memories created or updated; empty in a dry run
+  failed: { file: string; error: string }[];
+}
+
+// ── Change notifications ───────────────────────────────────────────
+// Emitted after a mutation succeeds, so MCP sessions can tell subscribed
+// clients which memory resources changed.
+
+export interface MemoryChange {
+  ids: string[];             // memories created, modified, trashed or restored
+  listChanged: boolean;      // true when memories were added or removed, not just modified
+}
+
+export type MemoryChangeListener = (change: MemoryChange) => void;
+
 // ── Request shapes ─────────────────────────────────────────────────
 
 export interface StoreRequest {
   content: string;
   category: MemoryCategory;
   tags: string[];
+  metadata?: Metadata;
+  namespace?: string;
+  onDuplicate?: DuplicatePolicy; // default: the store's configured policy
 }
 
 export interface UpdateRequest {
   content?: string;
   category?: MemoryCategory;
   tags?: string[];
+  metadata?: Metadata;       // replaces the existing metadata
+  reason?: string;           // recorded in the revision log
 }
 
 export interface SearchFilters {
+  namespace?: string;
+  allNamespaces?: boolean;
   category?: MemoryCategory;
-  tags?: string[];
+  tags?: string[];           // any of these tags
+  tagsAll?: string[];        // every one of these tags
+  tagsNone?: string[];       // none of these tags
+  metadata?: MetadataFilter;
   after?: string;
   before?: string;
   limit?: number;
+  rerank?: boolean;          // re-score the top candidates with the reranker; default: the store's setting
+  explain?: boolean;         // attach a ScoreExplanation to each result
+  fusion?: Partial<FusionOptions>;  // hybrid mode only; unset fields take the configured defaults
+  minScore?: number;         // 0–1; leave out results whose score is lower, even if fewer than limit remain
 }
 
 export type SearchMode = 'hybrid' | 'keyword' | 'semantic';
 
+/**
+ * How hybrid search combines its keyword and vector results:
+ *   rrf    — reciprocal rank fusion, scored on each list's ranks alone
+ *   linear — weighted sum of the normalised BM25 score and vector similarity
+ *   max    — the larger of the two weighted normalised scores
+ */
+export type FusionStrategy = 'rrf' | 'linear' | 'max';
+
+export interface FusionOptions {
+  strategy: FusionStrategy;
+  k: number;              // RRF rank constant; larger k flattens the rank curve
+  keywordWeight: number;  // 0–1 share of the keyword list; the vector list gets the rest
+}
+
+export interface FindRelatedOptions {
+  includeLinks?: boolean;  // default false — similarity neighbours only
+}
+
 // ── Dependency interfaces ──────────────────────────────────────────
 
 export interface Embedder {
@@ -89,17 +505,42 @@ export interface Embedder {
   embed(text: string): Promise<number[]>;
   embedBatch(texts: string[]): Promise<number[][]>;
   dimensions(): number;
+  /** Identifies the model behind the vectors, e.g. "transformers:Xenova/all-MiniLM-L6-v2". */
+  modelId(): string;
+}
+
+/** Scores how well each document answers the query by reading the two together. Higher is better. */
+export interface Reranker {
+  score(query: string, documents: string[]): Promise<number[]>;
+  /** Identifies the model, e.g. "transformers:Xenova/ms-marco-MiniLM-L-6-v2". */
+  modelId(): string;
 }
 
 export interface MemoryStore {
   initialize(): Promise<void>;
-  store(request: StoreRequest): Promise<Memory>;
-  storeBatch(requests: StoreRequest[]): Promise<Memory[]>;
+  store(request: StoreRequest): Promise<StoredMemory>;
+  storeBatch(requests: StoreRequest[]): Promise<StoredMemory[]>;
   search(query: string, mode: SearchMode, filters: SearchFilters): Promise<SearchResult[]>;
-  findRelated(memoryId: string, limit: number): Promise<SearchResult[]>;
-  listRecent(limit: number, category?: MemoryCategory): Promise<Memory[]>;
+  findRelated(memoryId: string, limit: number, options?: FindRelatedOptions): Promise<SearchResult[]>;
+  listRecent(limit: number, category?: MemoryCategory, namespace?: string): Promise<Memory[]>;
   update(id: string, updates: UpdateRequest): Promise<Memory>;
   delete(id: string): Promise<void>;
-  stats(): Promise<MemoryStats>;
+  listTrash(namespace?: string): Promise<TrashedMemory[]>;
+  restore(id: string): Promise<Memory>;
+  emptyTrash(options: EmptyTrashOptions): Promise<EmptyTrashResult>;
+  link(sourceId: string, targetId: string, relation: LinkRelation): Promise<MemoryLink>;
+  unlink(sourceId: string, targetId: string, relation?: LinkRelation): Promise<number>;
+  getGraph(memoryId: string, depth: number): Promise<MemoryGraph>;
+  history(id: string): Promise<MemoryRevision[]>;
+  revert(id: string, revisionId: string): Promise<Memory>;
+  stats(namespace?: string): Promise<MemoryStats>;
   prune(options: PruneOptions): Promise<PruneResult>;
+  consolidate(options: ConsolidateOptions): Promise<ConsolidateResult>;
+  recategorize(options: RecategorizeOptions): Promise<RecategorizeResult>;
+  reembed(options?: ReembedOptions): Promise<ReembedResult>;
+  listTags(namespace?: string): Promise<TagUsage[]>;
+  renameTag(options: RetagOptions): Promise<RetagResult>;
+  mergeTags(options: RetagOptions): Promise<RetagResult>;
+  exportMemories(options: ExportOptions): Promise<ArchivedMemory[]>;
+  importMemories(records: ArchivedMemory[], options: ImportOptions): Promise<ImportResult>;
 }
@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ARCHIVE_FORMAT, parseArchive, serialiseArchive } from '../src/archive.js';
+import { LanceMemoryStore } from '../src/memory-store.js';
+import { MockEmbedder } from './mocks.js';
+import type { ArchivedMemory } from '../src/types.js';
+
+function archived(overrides: Partial<ArchivedMemory> = {}): ArchivedMemory {
+  return {
+    id: 'mem-1',
+    namespace: 'default',
+    content: 'Archived content',
+    category: 'learning',
+    tags: ['archive'],
+    metadata: {},
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-02T00:00:00.000Z',
+    accessCount: 3,
+    lastAccessedAt: '2025-01-03T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// ── Format ─────────────────────────────────────────────────────────
+
+describe('archive format', () => {
+  it('round-trips memories through JSONL', () => {
+    const text = serialiseArchive([archived(), archived({ id: 'mem-2' })]);
+    const lines = text.trim().split('\n');
+    expect(lines).toHaveLength(3);
+    expect(JSON.parse(lines[0]).format).toBe(ARCHIVE_FORMAT);
+
+    const parsed = parseArchive(text);
+    expect(parsed).toEqual([archived(), archived({ id: 'mem-2' })]);
+  });
+
+  it('rejects files without a header', () => {
+    const text = JSON.stringify(archived()) + '\n';
+    expect(() => parseArchive(text)).toThrow(/Not an agent-memory-archive/);
+  });
+
+  it('rejects unsupported versions', () => {
+    const text = JSON.stringify({ format: ARCHIVE_FORMAT, version: 99 }) + '\n';
+    expect(() => parseArchive(text)).toThrow(/Unsupported archive version 99/);
+  });
+
+  it('reports the line number of invalid records', () => {
+    const text = serialiseArchive([archived()]) + '{"id": "broken"}\n';
+    expect(() => parseArchive(text)).toThrow(/line 3/);
+  });
+
+  it('fills defaults for access tracking and namespace', () => {
+    const { accessCount: _a, lastAccessedAt: _l, namespace: _n, ...plain } = archived();
+    const text = serialiseArchive([plain as ArchivedMemory]);
+    const [parsed] = parseArchive(text);
+    expect(parsed.namespace).toBe('default');
+    expect(parsed.accessCount).toBe(0);
+    expect(parsed.lastAccessedAt).toBe(plain.updatedAt);
+  });
+
+  it('keeps deletedAt for memories exported from the trash', () => {
+    const [parsed] = parseArchive(serialiseArchive([archived({ deletedAt: '2025-02-01T00:00:00.000Z' })]));
+    expect(parsed.deletedAt).toBe('2025-02-01T00:00:00.000Z');
+    expect(parseArchive(serialiseArchive([archived()]))[0]).not.toHaveProperty('deletedAt');
+  });
+});
+
+// ── LanceDB round trip ─────────────────────────────────────────────
+
+describe('LanceMemoryStore export / import', () => {
+  let sourcePath: string;
+  let targetPath: string;
+  let embedder: MockEmbedder;
+  let source: LanceMemoryStore;
+  let target: LanceMemoryStore;
+
+  beforeEach(async () => {
+    sourcePath = await mkdtemp(join(tmpdir(), 'agent-memory-export-'));
+    targetPath = await mkdtemp(join(tmpdir(), 'agent-memory-import-'));
+    embedder = new MockEmbedder();
+    source = new LanceMemoryStore(sourcePath, embedder);
+    target = new LanceMemoryStore(targetPath, embedder);
+    await source.initialize();
+    await target.initialize();
+  });
+
+  afterEach(async () => {
+    await rm(sourcePath, { recursive: true, force: true });
+    await rm(targetPath, { recursive: true, force: true });
+  });
+
+  it('preserves ids, timestamps and access state', async () => {
+    const a = await source.store({ content: 'First to move', category: 'learning', tags: ['x'] });
+    const b = await source.store({ content: 'Second to move', category: 'architecture', tags: [] });
+
+    const exported = await source.exportMemories({});
+    expect(exported).toHaveLength(2);
+    expect(exported[0].vector).toHaveLength(384);
+
+    const result = await target.importMemories(parseArchive(serialiseArchive(exported)), {});
+    expect(result.imported).toBe(2);
+    expect(result.reembedded).toBe(0);
+
+    const restored = await target.exportMemories({});
+    expect(restored.map(m => m.id).sort()).toEqual([a.id, b.id].sort());
+    const first = restored.find(m => m.id === a.id)!;
+    expect(first.createdAt).toBe(a.createdAt);
+    expect(first.updatedAt).toBe(a.updatedAt);
+    expect(first.accessCount).toBe(0);
+    expect(first.tags).toEqual(['x']);
+  });
+
+  it('re-embeds when vectors are missing or reembed is set', async () => {
+    await source.store({ content: 'Needs a vector', category: 'learning', tags: [] });
+    const withoutVectors = await source.exportMemories({ includeVectors: false });
+    expect(withoutVectors[0].vector).toBeUndefined();
+
+    const result = await target.importMemories(withoutVectors, {});
+    expect(result.reembedded).toBe(1);
+
+    const withVectors = await source.exportMemories({});
+    const forced = await target.importMemories(withVectors, { strategy: 'overwrite', reembed: true });
+    expect(forced.reembedded).toBe(1);
+  });
+
+  it('skips existing ids by default', async () => {
+    await target.importMemories([archived({ content: 'Original' })], {});
+    const result = await target.importMemories([archived({ content: 'Replacement' })], {});
+
+    expect(result.skipped).toBe(1);
+    const [memory] = await target.exportMemories({});
+    expect(memory.content).toBe('Original');
+  });
+
+  it('overwrites existing ids without duplicating rows', async () => {
+    await target.importMemories([archived({ content: 'Original' })], {});
+    const result = await target.importMemories([archived({ content: 'Replacement' })], { strategy: 'overwrite' });
+
+    expect(result.overwritten).toBe(1);
+    const stats = await target.stats();
+    expect(stats.totalMemories).toBe(1);
+    const [memory] = await target.exportMemories({});
+    expect(memory.content).toBe('Replacement');
+  });
+
+  it('keeps the overwritten version in the history, where revert can restore it', async () => {
+    await target.importMemories([archived({ content: 'Original' })], {});
+    await target.importMemories([archived({ content: 'Replacement' })], { strategy: 'overwrite' });
+
+    const [revision] = await target.history('mem-1');
+    expect(revision).toMatchObject({ content: 'Original', reason: 'import' });
+    expect((await target.revert('mem-1', revision.id)).content).toBe('Original');
+  });
+
+  it('newer-wins keeps whichever copy was updated last', async () => {
+    await target.importMemories([archived({ content: 'Current', updatedAt: '2025-06-01T00:00:00.000Z' })], {});
+
+    const older = await target.importMemories(
+      [archived({ content: 'Older', updatedAt: '2025-01-01T00:00:00.000Z' })],
+      { strategy: 'newer-wins' },
+    );
+    expect(older.skipped).toBe(1);
+
+    const newer = await target.importMemories(
+      [archived({ content: 'Newer', updatedAt: '2025-12-01T00:00:00.000Z' })],
+      { strategy: 'newer-wins' },
+    );
+    expect(newer.overwritten).toBe(1);
+
+    const [memory] = await target.exportMemories({});
+    expect(memory.content).toBe('Newer');
+  });
+
+  it('exports a single namespace unless asked for all', async () => {
+    await source.store({ content: 'Work', category: 'learning', tags: [], namespace: 'work' });
+    await source.store({ content: 'Home', category: 'learning', tags: [], namespace: 'home' });
+
+    expect(await source.exportMemories({ namespace: 'work' })).toHaveLength(1);
+    expect(await source.exportMemories({ allNamespaces: true })).toHaveLength(2);
+  });
+
+  it('round-trips the trash when asked to', async () => {
+    const live = await source.store({ content: 'Still needed', category: 'learning', tags: [] });
+    const trashed = await source.store({ content: 'Thrown away', category: 'learning', tags: [] });
+    await source.delete(trashed.id);
+
+    expect((await source.exportMemories({})).map(m => m.id)).toEqual([live.id]);
+    const exported = await source.exportMemories({ includeTrash: true });
+    expect(exported.find(m => m.id === trashed.id)?.deletedAt).toBeDefined();
+
+    await target.importMemories(parseArchive(serialiseArchive(exported)), {});
+    expect((await target.exportMemories({})).map(m => m.id)).toEqual([live.id]);
+    expect((await target.listTrash()).map(m => m.id)).toEqual([trashed.id]);
+    expect((await target.restore(trashed.id)).content).toBe('Thrown away');
+  });
+
+  it('replace drops the history and links of memories it does not bring back', async () => {
+    const kept = await target.store({ content: 'Kept memory', category: 'learning', tags: [] });
+    const dropped = await target.store({ content: 'Dropped memory', category: 'learning', tags: [] });
+    await target.update(kept.id, { content: 'Kept memory, edited' });
+    await target.update(dropped.id, { content: 'Dropped memory, edited' });
+    const other = await target.store({ content: 'Another kept memory', category: 'learning', tags: [] });
+    await target.link(kept.id, other.id, 'related');
+    await target.link(kept.id, dropped.id, 'related');
+
+    const archive = (await target.exportMemories({})).filter(m => m.id !== dropped.id);
+    await target.importMemories(archive, { replace: true });
+
+    expect(await target.history(kept.id)).toHaveLength(1);
+    expect(await target.history(dropped.id)).toHaveLength(0);
+    const graph = await target.getGraph(kept.id, 1);
+    expect(graph.links.map(l => l.targetId)).toEqual([other.id]);
+  });
+});
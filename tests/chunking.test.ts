@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import * as lancedb from '@lancedb/lancedb';
+import { bestPassageByTerms, centroid, chunkText, parseChunking } from '../src/chunking.js';
+import { HashEmbedder } from '../src/embedder.js';
+import { LanceMemoryStore } from '../src/memory-store.js';
+import type { ChunkingOptions } from '../src/chunking.js';
+
+// ── Splitting ──────────────────────────────────────────────────────
+
+const SMALL: ChunkingOptions = { size: 200, overlap: 40 };
+
+/** Paragraphs of filler around distinctive sentences. */
+function longDocument(...facts: string[]): string {
+  const filler = 'The team met to review the quarterly plan and agreed to revisit the open items next week.';
+  return facts.map(fact => `${filler} ${fact} ${filler}`).join('\n\n');
+}
+
+describe('chunkText', () => {
+  it('keeps short content whole', () => {
+    expect(chunkText('A short note', SMALL)).toEqual([{ text: 'A short note', start: 0, end: 12 }]);
+    expect(chunkText('x'.repeat(500), { size: 0, overlap: 0 })).toHaveLength(1);
+  });
+
+  it('splits long content into overlapping passages of the original text', () => {
+    const content = longDocument('Deploys go out on Tuesdays.', 'The cache is warmed at boot.', 'Logs rotate daily.');
+    const chunks = chunkText(content, SMALL);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks) {
+      expect(chunk.text).toBe(content.slice(chunk.start, chunk.end));
+      expect(chunk.text.length).toBeLessThanOrEqual(SMALL.size);
+      expect(chunk.text).toBe(chunk.text.trim());
+    }
+    for (let i = 1; i < chunks.length; i++) {
+      // Overlapping, and never starting mid-word.
+      expect(chunks[i].start).toBeLessThan(chunks[i - 1].end);
+      expect(content[chunks[i].start - 1]).toMatch(/\s/);
+    }
+    expect(chunks.at(-1)!.end).toBe(content.length);
+  });
+
+  it('prefers paragraph breaks', () => {
+    const content = `${'a '.repeat(70).trim()}\n\n${'b '.repeat(70).trim()}`;
+    expect(chunkText(content, SMALL)[0].text).toBe('a '.repeat(70).trim());
+  });
+
+  it('cuts text without whitespace at the size limit, without overlap', () => {
+    const chunks = chunkText('x'.repeat(450), SMALL);
+    expect(chunks.map(c => c.text.length)).toEqual([200, 200, 50]);
+  });
+});
+
+describe('parseChunking', () => {
+  it('defaults to 1000-character passages overlapping by 150', () => {
+    expect(parseChunking(undefined, undefined)).toEqual({ size: 1000, overlap: 150 });
+    expect(parseChunking('0', undefined)).toEqual({ size: 0, overlap: 0 });
+    expect(parseChunking('400', '50')).toEqual({ size: 400, overlap: 50 });
+  });
+
+  it('rejects invalid settings', () => {
+    expect(() => parseChunking('big', undefined)).toThrow(/MEMORY_CHUNK_SIZE/);
+    expect(() => parseChunking('400', '200')).toThrow(/less than half/);
+  });
+});
+
+describe('centroid', () => {
+  it('is the normalised mean', () => {
+    expect(centroid([[1, 0], [0, 1]]).map(v => v.toFixed(4))).toEqual(['0.7071', '0.7071']);
+  });
+});
+
+describe('bestPassageByTerms', () => {
+  it('picks the passage sharing most words with the query, earliest on ties', () => {
+    const chunks = ['deploys on tuesday', 'cache warmed at boot', 'boot logs'].map(text => ({ text, start: 0, end: 0 }));
+    expect(bestPassageByTerms(chunks, 'Cache at boot')).toBe(1);
+    expect(bestPassageByTerms(chunks, 'nothing in common')).toBe(0);
+  });
+});
+
+// ── LanceDB ────────────────────────────────────────────────────────
+
+describe('LanceMemoryStore chunking', () => {
+  let dbPath: string;
+  let store: LanceMemoryStore;
+
+  const content = longDocument(
+    'Deploys go out on Tuesdays after the freeze.',
+    'The Redis cache is warmed by a cron job at boot.',
+    'Application logs rotate daily and are shipped to S3.',
+  );
+
+  beforeEach(async () => {
+    dbPath = await mkdtemp(join(tmpdir(), 'agent-memory-chunking-'));
+    store = new LanceMemoryStore(dbPath, new HashEmbedder(), { duplicatePolicy: 'off', chunking: SMALL });
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dbPath, { recursive: true, force: true });
+  });
+
+  async function chunkRows(): Promise<Record<string, unknown>[]> {
+    const db = await lancedb.connect(dbPath);
+    if (!(await db.tableNames()).includes('memory_chunks')) return [];
+    return (await db.openTable('memory_chunks')).query().toArray();
+  }
+
+  it('stores long content as passages and short content whole', async () => {
+    const long = await store.store({ content, category: 'learning', tags: [] });
+    const short = await store.store({ content: 'Use pnpm', category: 'learning', tags: [] });
+
+    expect(long.chunks).toBe(chunkText(content, SMALL).length);
+    expect(short.chunks).toBeUndefined();
+    expect((await chunkRows()).every(row => row.memory_id === long.id)).toBe(true);
+  });
+
+  it('returns the parent memory with the passage that matched', async () => {
+    const memory = await store.store({ content, category: 'learning', tags: ['ops'] });
+    await store.store({ content: 'Redis runs in the staging cluster', category: 'learning', tags: [] });
+
+    for (const mode of ['semantic', 'keyword', 'hybrid'] as const) {
+      const results = await store.search('redis cache warmed cron boot', mode, { tags: ['ops'] });
+      expect(results.map(r => r.memory.id)).toEqual([memory.id]);
+      const { passage } = results[0];
+      expect(passage?.text).toContain('Redis cache is warmed');
+      expect(passage?.text).toBe(content.slice(passage!.start, passage!.end));
+    }
+    expect(await store.search('redis cache', 'semantic', { tagsNone: ['ops'] }))
+      .not.toContainEqual(expect.objectContaining({ passage: expect.anything() }));
+  });
+
+  it('ranks a long memory by its best passage', async () => {
+    const memory = await store.store({ content, category: 'learning', tags: [] });
+    const [result] = await store.search('application logs rotate daily shipped s3', 'semantic', {});
+
+    expect(result.memory.id).toBe(memory.id);
+    const [whole] = await new HashEmbedder().embedBatch([content]);
+    const [query] = await new HashEmbedder().embedBatch(['application logs rotate daily shipped s3']);
+    // The passage is a closer match than the whole document would be.
+    const wholeScore = Math.max(0, dot(whole, query));
+    expect(result.score).toBeGreaterThan(wholeScore);
+  });
+
+  it('re-chunks on update and forgets passages of purged memories', async () => {
+    const memory = await store.store({ content, category: 'learning', tags: [] });
+    const edited = longDocument('Deploys now go out on Thursdays.', 'Feature flags live in LaunchDarkly.');
+    await store.update(memory.id, { content: edited });
+
+    const [result] = await store.search('feature flags launchdarkly', 'semantic', {});
+    expect(result.passage?.text).toContain('LaunchDarkly');
+    expect(await chunkRows()).toHaveLength(chunkText(edited, SMALL).length);
+
+    await store.delete(memory.id);
+    expect(await store.search('feature flags launchdarkly', 'semantic', {})).toHaveLength(0);
+    await store.emptyTrash();
+    expect(await chunkRows()).toHaveLength(0);
+  });
+
+  it('rebuilds passages on reembed, chunking memories stored whole before', async () => {
+    const unchunked = new LanceMemoryStore(dbPath, new HashEmbedder(), { chunking: { size: 0, overlap: 0 } });
+    await unchunked.initialize();
+    const memory = await unchunked.store({ content, category: 'learning', tags: [] });
+    expect(await chunkRows()).toHaveLength(0);
+
+    const chunked = new LanceMemoryStore(dbPath, new HashEmbedder(), { chunking: SMALL });
+    await chunked.initialize();
+    const result = await chunked.reembed();
+    expect(result.reembedded).toBe(1);
+    expect(await chunkRows()).toHaveLength(chunkText(content, SMALL).length);
+    const [found] = await chunked.search('redis cache warmed cron', 'semantic', {});
+    expect(found.memory.id).toBe(memory.id);
+    expect(found.passage?.text).toContain('Redis');
+  });
+
+  it('drops passages made by another model than the memories', async () => {
+    await store.store({ content, category: 'learning', tags: [] });
+    const db = await lancedb.connect(dbPath);
+    const rows = await chunkRows();
+    await db.dropTable('memory_chunks');
+    const data = lancedb.makeArrowTable(rows.map(row => ({ ...row, vector: Array.from(row.vector as Iterable<number>) })));
+    data.schema.metadata.set('embedding_model', 'another');
+    await db.createTable('memory_chunks', data);
+
+    const warn = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const reopened = new LanceMemoryStore(dbPath, new HashEmbedder(), { chunking: SMALL });
+    await reopened.initialize();
+    expect(warn).toHaveBeenCalledWith(expect.stringMatching(/Passage vectors .* Run reembed/));
+    expect(await db.tableNames()).not.toContain('memory_chunks');
+    expect(await reopened.search('redis cache', 'semantic', {})).toHaveLength(1);
+  });
+});
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
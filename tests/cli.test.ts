@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { isCliCommand, runCli } from '../src/cli.js';
+import { LanceMemoryStore } from '../src/memory-store.js';
+import { MockEmbedder, MockMemoryStore } from './mocks.js';
+
+describe('runCli', () => {
+  let store: MockMemoryStore;
+  let out: string[];
+  let err: string[];
+
+  beforeEach(() => {
+    store = new MockMemoryStore();
+    out = [];
+    err = [];
+  });
+
+  function run(...argv: string[]): Promise<number> {
+    return runCli(store, argv, { out: line => out.push(line), err: line => err.push(line) });
+  }
+
+  it('recognises its commands', () => {
+    expect(isCliCommand('search')).toBe(true);
+    expect(isCliCommand('help')).toBe(true);
+    expect(isCliCommand('--http')).toBe(false);
+    expect(isCliCommand(undefined)).toBe(false);
+  });
+
+  it('prints search results as a table', async () => {
+    const memory = await store.store({ content: 'Deploys go out\non Tuesdays', category: 'learning', tags: ['ops', 'deploy'] });
+    expect(await run('search', 'tuesdays')).toBe(0);
+    expect(out.join('\n')).toContain('Deploys go out on Tuesdays');
+    const [header, row] = out[0].split('\n');
+    expect(header).toMatch(/^ID\s+SCORE\s+CATEGORY\s+TAGS\s+CONTENT$/);
+    expect(row.split(/\s{2,}/)).toEqual([memory.id, '0.900', 'learning', 'ops,deploy', 'Deploys go out on Tuesdays']);
+  });
+
+  it('prints the handler JSON with --json', async () => {
+    await store.store({ content: 'Use pnpm', category: 'learning', tags: [] });
+    expect(await run('list', '--json')).toBe(0);
+    expect(JSON.parse(out[0])).toMatchObject({ count: 1, memories: [{ content: 'Use pnpm' }] });
+  });
+
+  it('shows a memory with its links', async () => {
+    const old = await store.store({ content: 'Deploys go out on Mondays', category: 'learning', tags: [] });
+    const current = await store.store({ content: 'Deploys go out on Tuesdays', category: 'learning', tags: [], metadata: { team: 'ops' } });
+    await store.link(current.id, old.id, 'supersedes');
+
+    expect(await run('show', current.id)).toBe(0);
+    const text = out.join('\n');
+    expect(text).toMatch(/Metadata:\s+\{"team":"ops"\}/);
+    expect(text).toContain('\n\nDeploys go out on Tuesdays');
+    expect(text).toContain(`→ supersedes ${old.id}  Deploys go out on Mondays`);
+  });
+
+  it('updates and deletes', async () => {
+    const memory = await store.store({ content: 'Use npm', category: 'learning', tags: [] });
+    expect(await run('update', memory.id, '--content', 'Use pnpm', '--tags', 'js, tooling')).toBe(0);
+    expect((await store.listRecent(1))[0]).toMatchObject({ content: 'Use pnpm', tags: ['js', 'tooling'] });
+
+    expect(await run('delete', memory.id)).toBe(0);
+    expect(out.at(-1)).toBe(`Moved ${memory.id} to the trash`);
+    expect(await store.listRecent(10)).toHaveLength(0);
+  });
+
+  it('rejects an update to a category outside the taxonomy', async () => {
+    const dbPath = await mkdtemp(join(tmpdir(), 'agent-memory-cli-db-'));
+    try {
+      const lance = new LanceMemoryStore(dbPath, new MockEmbedder(), { categories: ['learning', 'runbook'] });
+      await lance.initialize();
+      const memory = await lance.store({ content: 'Use pnpm', category: 'learning', tags: [] });
+
+      const io = { out: (line: string) => out.push(line), err: (line: string) => err.push(line) };
+      expect(await runCli(lance, ['update', memory.id, '--category', 'bogus'], io)).toBe(1);
+      expect(err.at(-1)).toMatch(/Unknown category "bogus"/);
+      expect((await lance.listRecent(1))[0].category).toBe('learning');
+    } finally {
+      await rm(dbPath, { recursive: true, force: true });
+    }
+  });
+
+  it('prunes as a dry run unless --apply is given', async () => {
+    expect(await run('prune')).toBe(0);
+    expect(out.at(-1)).toMatch(/would be moved to the trash\. Run with --apply/);
+    expect(await run('prune', '--apply')).toBe(0);
+    expect(out.at(-1)).toMatch(/^Moved 0 of 0/);
+  });
+
+  it('prints stats', async () => {
+    await store.store({ content: 'Use pnpm', category: 'learning', tags: [] });
+    expect(await run('stats')).toBe(0);
+    expect(out.join('\n')).toMatch(/Memories:\s+1/);
+    expect(out.join('\n')).toMatch(/By category:\n\s+learning\s+1/);
+  });
+
+  it('summarises the decay policy in stats', async () => {
+    const stats = await store.stats();
+    const decayPolicy = { halfLifeDays: 30, categories: { architecture: 365 }, tags: { adr: null } };
+    store.stats = async () => ({ ...stats, decayPolicy });
+    expect(await run('stats')).toBe(0);
+    expect(out.join('\n')).toMatch(/Decay:\s+30-day half-life; architecture 365, tag:adr never/);
+  });
+
+  describe('export', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'agent-memory-cli-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('writes the archive to stdout or a file', async () => {
+      await store.store({ content: 'Use pnpm', category: 'learning', tags: [] });
+      expect(await run('export')).toBe(0);
+      const lines = out[0].split('\n');
+      expect(JSON.parse(lines[1])).toMatchObject({ content: 'Use pnpm' });
+
+      const path = join(dir, 'memories.jsonl');
+      expect(await run('export', '--out', path)).toBe(0);
+      // The same records; only the header's export time can differ.
+      expect((await readFile(path, 'utf-8')).split('\n').slice(1)).toEqual([...lines.slice(1), '']);
+      expect(err).toEqual([`Exported 1 memories to ${path}`]);
+    });
+
+    it('leaves vectors out unless --include-vectors is given', async () => {
+      const exportMemories = vi.spyOn(store, 'exportMemories');
+      await run('export');
+      await run('export', '--include-vectors');
+      expect(exportMemories.mock.calls.map(([options]) => options.includeVectors)).toEqual([false, true]);
+    });
+  });
+
+  it('reports failures and usage errors with exit codes', async () => {
+    expect(await run('show', 'missing')).toBe(1);
+    expect(err[0]).toMatch(/Memory missing not found/);
+
+    expect(await run('show')).toBe(2);
+    expect(await run('list', '--limit', 'lots')).toBe(1);
+    expect(await run('search', 'x', '--colour')).toBe(2);
+    expect(err.at(-1)).toMatch(/^Usage: agent-memory-mcp search <query>/);
+  });
+
+  it('prints usage for help', async () => {
+    expect(await run('help')).toBe(0);
+    expect(out[0]).toMatch(/Commands:[\s\S]*prune\s+List weak and dormant memories/);
+  });
+});
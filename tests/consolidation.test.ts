@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { clusterBySimilarity, mergeContent, proposeMerge, type ConsolidationItem } from '../src/consolidation.js';
+import { LanceMemoryStore } from '../src/memory-store.js';
+import { MockEmbedder } from './mocks.js';
+import type { ArchivedMemory } from '../src/types.js';
+
+function item(id: string, vector: number[], overrides: Partial<ConsolidationItem> = {}): ConsolidationItem {
+  return {
+    id,
+    content: `Content ${id}`,
+    category: 'learning',
+    tags: [],
+    metadata: {},
+    createdAt: `2025-01-0${id}T00:00:00.000Z`,
+    accessCount: 0,
+    vector,
+    ...overrides,
+  };
+}
+
+// ── Clustering ─────────────────────────────────────────────────────
+
+describe('clusterBySimilarity', () => {
+  it('groups items at or above the threshold and drops singletons', () => {
+    const clusters = clusterBySimilarity([
+      item('1', [1, 0]),
+      item('2', [0.99, 0.14]),
+      item('3', [0, 1]),
+    ], 0.95);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].members.map(m => m.id)).toEqual(['1', '2']);
+    expect(clusters[0].similarity).toBeCloseTo(0.99, 2);
+  });
+
+  it('compares against the seed so chains do not merge unrelated items', () => {
+    // 1~2 and 2~3 are close, 1 and 3 are not.
+    const clusters = clusterBySimilarity([
+      item('1', [1, 0]),
+      item('2', [0.97, 0.26]),
+      item('3', [0.87, 0.5]),
+    ], 0.95);
+
+    expect(clusters.map(c => c.members.map(m => m.id))).toEqual([['1', '2']]);
+  });
+
+  it('never clusters across categories', () => {
+    const clusters = clusterBySimilarity([
+      item('1', [1, 0]),
+      item('2', [1, 0], { category: 'architecture' }),
+    ], 0.9);
+    expect(clusters).toHaveLength(0);
+  });
+});
+
+// ── Merging ────────────────────────────────────────────────────────
+
+describe('mergeContent', () => {
+  it('drops repeats and contents contained in another member', () => {
+    expect(mergeContent([
+      'Use pnpm',
+      'use   PNPM',
+      'Use pnpm for installs, never npm',
+      'CI caches the store',
+    ])).toBe('Use pnpm for installs, never npm\n\nCI caches the store');
+  });
+
+  it('keeps the first of identical contents', () => {
+    expect(mergeContent(['Same', 'same'])).toBe('Same');
+  });
+});
+
+describe('proposeMerge', () => {
+  it('unions tags, keeps the earliest createdAt and sums access counts', () => {
+    const proposed = proposeMerge([
+      item('2', [], { tags: ['b', 'c'], accessCount: 2 }),
+      item('1', [], { tags: ['a', 'b'], accessCount: 3 }),
+    ]);
+
+    expect(proposed.tags).toEqual(['a', 'b', 'c']);
+    expect(proposed.createdAt).toBe('2025-01-01T00:00:00.000Z');
+    expect(proposed.accessCount).toBe(5);
+    expect(proposed.content).toBe('Content 1\n\nContent 2');
+  });
+});
+
+// ── LanceDB ────────────────────────────────────────────────────────
+
+describe('LanceMemoryStore consolidate', () => {
+  let dbPath: string;
+  let store: LanceMemoryStore;
+
+  function archived(id: string, content: string, overrides: Partial<ArchivedMemory> = {}): ArchivedMemory {
+    return {
+      id,
+      namespace: 'default',
+      content,
+      category: 'learning',
+      tags: [],
+      metadata: {},
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+      accessCount: 0,
+      lastAccessedAt: '2025-01-01T00:00:00.000Z',
+      ...overrides,
+    };
+  }
+
+  beforeEach(async () => {
+    dbPath = await mkdtemp(join(tmpdir(), 'agent-memory-consolidate-'));
+    store = new LanceMemoryStore(dbPath, new MockEmbedder());
+    await store.initialize();
+    // MockEmbedder scores these two at ~0.99 and everything else below 0.9.
+    await store.importMemories([
+      archived('a', 'Use pnpm for installs', { tags: ['tooling'], accessCount: 2, createdAt: '2025-02-01T00:00:00.000Z' }),
+      archived('b', 'use pnpm for installs.', { tags: ['pnpm'], accessCount: 3 }),
+      archived('c', 'The staging database is reset nightly'),
+    ], {});
+  });
+
+  afterEach(async () => {
+    await rm(dbPath, { recursive: true, force: true });
+  });
+
+  it('proposes clusters without changing anything in dry-run mode', async () => {
+    const result = await store.consolidate({ threshold: 0.95 });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.inspected).toBe(3);
+    expect(result.clusters).toHaveLength(1);
+    expect(result.clusters[0].memoryIds.sort()).toEqual(['a', 'b']);
+    expect(result.clusters[0].proposed).toEqual({
+      content: 'use pnpm for installs.',
+      category: 'learning',
+      tags: ['pnpm', 'tooling'],
+      metadata: {},
+      createdAt: '2025-01-01T00:00:00.000Z',
+      accessCount: 5,
+    });
+    expect(result.replaced).toBe(0);
+    expect((await store.stats()).totalMemories).toBe(3);
+  });
+
+  it('replaces each cluster with one memory and trashes the originals', async () => {
+    const result = await store.consolidate({ threshold: 0.95, dryRun: false });
+    const merged = result.clusters[0].merged!;
+
+    expect(result.replaced).toBe(2);
+    expect(merged.createdAt).toBe('2025-01-01T00:00:00.000Z');
+    expect(merged.tags).toEqual(['pnpm', 'tooling']);
+
+    const [exported] = (await store.exportMemories({})).filter(m => m.id === merged.id);
+    expect(exported.accessCount).toBe(5);
+    expect((await store.stats()).totalMemories).toBe(2);
+    expect((await store.listTrash()).map(m => m.id).sort()).toEqual(['a', 'b']);
+  });
+
+  it('links the merged memory to the memories it supersedes', async () => {
+    const result = await store.consolidate({ threshold: 0.95, dryRun: false });
+    const merged = result.clusters[0].merged!;
+
+    await store.restore('a');
+    const graph = await store.getGraph(merged.id, 1);
+    expect(graph.links).toEqual([
+      expect.objectContaining({ sourceId: merged.id, targetId: 'a', relation: 'supersedes' }),
+    ]);
+  });
+
+  it('only scans the requested tag scope', async () => {
+    const result = await store.consolidate({ threshold: 0.95, tags: ['tooling'] });
+    expect(result.inspected).toBe(1);
+    expect(result.clusters).toHaveLength(0);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  HashEmbedder,
+  OpenAIEmbedder,
+  TransformersEmbedder,
+  createEmbedder,
+  parseEmbedderBackend,
+  parseEmbeddingDimensions,
+} from '../src/embedder.js';
+import { cosineSimilarity } from '../src/consolidation.js';
+
+// ── Configuration ──────────────────────────────────────────────────
+
+describe('embedder configuration', () => {
+  it('parses the backend, defaulting to transformers', () => {
+    expect(parseEmbedderBackend(undefined)).toBe('transformers');
+    expect(parseEmbedderBackend(' OpenAI ')).toBe('openai');
+    expect(() => parseEmbedderBackend('word2vec')).toThrow(/Unknown embedding backend/);
+  });
+
+  it('parses dimensions', () => {
+    expect(parseEmbeddingDimensions('')).toBeUndefined();
+    expect(parseEmbeddingDimensions('768')).toBe(768);
+    expect(() => parseEmbeddingDimensions('-1')).toThrow(/positive integer/);
+  });
+
+  it('creates the configured backend', () => {
+    expect(createEmbedder({ backend: 'transformers' })).toBeInstanceOf(TransformersEmbedder);
+    expect(createEmbedder({ backend: 'hash', dimensions: 64 }).dimensions()).toBe(64);
+    expect(createEmbedder({ backend: 'openai', url: 'http://localhost:1/v1', model: 'm' })).toBeInstanceOf(OpenAIEmbedder);
+    expect(() => createEmbedder({ backend: 'openai', model: 'm' })).toThrow(/EMBEDDING_URL/);
+  });
+
+  it('does not report dimensions before a detecting backend is initialised', () => {
+    expect(() => new TransformersEmbedder().dimensions()).toThrow(/not initialised/);
+  });
+});
+
+// ── Hash ───────────────────────────────────────────────────────────
+
+describe('HashEmbedder', () => {
+  const embedder = new HashEmbedder();
+
+  it('is deterministic and unit length', async () => {
+    const a = await embedder.embed('Use pnpm for installs');
+    expect(a).toHaveLength(384);
+    expect(await embedder.embed('Use pnpm for installs')).toEqual(a);
+    expect(Math.hypot(...a)).toBeCloseTo(1, 6);
+  });
+
+  it('places texts that share words closer than unrelated ones', async () => {
+    const [base, related, unrelated] = await embedder.embedBatch([
+      'Use pnpm for installs in CI',
+      'CI installs use pnpm',
+      'The staging database resets nightly',
+    ]);
+    expect(cosineSimilarity(base, related)).toBeGreaterThan(cosineSimilarity(base, unrelated) + 0.3);
+  });
+});
+
+// ── OpenAI-compatible HTTP ─────────────────────────────────────────
+
+describe('OpenAIEmbedder', () => {
+  let server: Server;
+  let url: string;
+  let requests: { headers: IncomingHttpHeaders; body: { model: string; input: string[] } }[];
+  let respond: (input: string[]) => { status: number; body: unknown };
+
+  beforeEach(async () => {
+    requests = [];
+    // Reverse order, to check that results are matched up by index.
+    respond = input => ({
+      status: 200,
+      body: { data: input.map((text, index) => ({ index, embedding: [text.length, index, 1] })).reverse() },
+    });
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        const body = JSON.parse(raw);
+        requests.push({ headers: req.headers, body });
+        const reply = respond(body.input);
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('detects dimensions and returns embeddings in input order', async () => {
+    const embedder = new OpenAIEmbedder({ url, model: 'nomic-embed-text', apiKey: 'secret' });
+    await embedder.initialize();
+    expect(embedder.dimensions()).toBe(3);
+
+    expect(await embedder.embedBatch(['a', 'bb'])).toEqual([[1, 0, 1], [2, 1, 1]]);
+    expect(requests[1].body).toEqual({ model: 'nomic-embed-text', input: ['a', 'bb'] });
+    expect(requests[1].headers.authorization).toBe('Bearer secret');
+  });
+
+  it('splits large batches', async () => {
+    const embedder = new OpenAIEmbedder({ url, model: 'm', dimensions: 3, batchSize: 2 });
+    await embedder.initialize();
+
+    const vectors = await embedder.embedBatch(['a', 'b', 'c']);
+    expect(vectors).toHaveLength(3);
+    expect(requests.map(r => r.body.input)).toEqual([['a', 'b'], ['c']]);
+  });
+
+  it('rejects vectors of the wrong size', async () => {
+    const embedder = new OpenAIEmbedder({ url, model: 'm', dimensions: 768 });
+    await embedder.initialize();
+    await expect(embedder.embed('a')).rejects.toThrow(/3-dimensional vector, expected 768/);
+  });
+
+  it('surfaces HTTP errors', async () => {
+    respond = () => ({ status: 404, body: { error: 'model not found' } });
+    const embedder = new OpenAIEmbedder({ url, model: 'missing' });
+    await expect(embedder.initialize()).rejects.toThrow(/404.*model not found/);
+  });
+});
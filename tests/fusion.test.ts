@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { HashEmbedder } from '../src/embedder.js';
+import { DEFAULT_FUSION, fuse, keywordRelevance, parseFusion, resolveFusion, vectorRelevance } from '../src/fusion.js';
+import { LanceMemoryStore } from '../src/memory-store.js';
+import { handleSearch } from '../src/tools.js';
+import { MockMemoryStore } from './mocks.js';
+
+// ── Configuration ──────────────────────────────────────────────────
+
+describe('parseFusion', () => {
+  it('defaults to RRF with k 60 and an even split', () => {
+    expect(parseFusion(undefined, undefined, undefined)).toEqual({ strategy: 'rrf', k: 60, keywordWeight: 0.5 });
+    expect(parseFusion('linear', '20', '0.7')).toEqual({ strategy: 'linear', k: 20, keywordWeight: 0.7 });
+  });
+
+  it('keeps the default for invalid values', () => {
+    expect(parseFusion('sum', '0', '1.5')).toEqual(DEFAULT_FUSION);
+    expect(parseFusion(undefined, undefined, '')).toEqual(DEFAULT_FUSION);
+  });
+});
+
+describe('resolveFusion', () => {
+  it('fills unset fields from the defaults', () => {
+    expect(resolveFusion({ keywordWeight: 0.8 }, DEFAULT_FUSION)).toEqual({ strategy: 'rrf', k: 60, keywordWeight: 0.8 });
+  });
+
+  it('rejects invalid overrides', () => {
+    expect(() => resolveFusion({ strategy: 'sum' as never })).toThrow(/Invalid fusion strategy "sum"/);
+    expect(() => resolveFusion({ k: -1 })).toThrow(/Invalid RRF k/);
+    expect(() => resolveFusion({ keywordWeight: 2 })).toThrow(/Invalid keyword weight/);
+  });
+});
+
+// ── Relevance ──────────────────────────────────────────────────────
+
+describe('relevance', () => {
+  it('squashes BM25 to 0–1 with 2 at the midpoint', () => {
+    expect(keywordRelevance(0)).toBe(0);
+    expect(keywordRelevance(2)).toBe(0.5);
+    expect(keywordRelevance(1000)).toBeLessThan(1);
+  });
+
+  it('reads cosine distance as similarity, with opposed vectors at 0', () => {
+    expect(vectorRelevance(0)).toBe(1);
+    expect(vectorRelevance(0.25)).toBe(0.75);
+    expect(vectorRelevance(1.5)).toBe(0);
+  });
+});
+
+// ── Fusion ─────────────────────────────────────────────────────────
+
+describe('fuse', () => {
+  const keyword = [{ id: 'a', bm25: 4 }, { id: 'b', bm25: 1 }];
+  const vector = [{ id: 'b', distance: 0.2 }, { id: 'c', distance: 1 }];
+
+  it('orders by rank contributions for RRF, plain RRF at an even split', () => {
+    const fused = fuse(keyword, vector, DEFAULT_FUSION);
+    expect(fused.get('b')).toMatchObject({ score: 1 / 61 + 1 / 60, keyword: 1 / 61, vector: 1 / 60, keywordRank: 2, vectorRank: 1 });
+    expect(fused.get('c')).toMatchObject({ score: 1 / 61, keyword: 0, vector: 1 / 61, vectorRank: 2 });
+    // Ranks carry no relevance; that comes from the scores themselves.
+    expect(fused.get('b')!.relevance).toBeCloseTo(0.5 * (1 / 3) + 0.5 * 0.8);
+    expect(fused.get('c')!.relevance).toBe(0);
+  });
+
+  it('weights calibrated relevances for linear and max', () => {
+    const linear = fuse(keyword, vector, { strategy: 'linear', k: 60, keywordWeight: 0.75 });
+    expect(linear.get('a')!.score).toBeCloseTo(0.75 * (4 / 6));
+    expect(linear.get('b')!.score).toBeCloseTo(0.75 * (1 / 3) + 0.25 * 0.8);
+    expect(linear.get('b')!.relevance).toBe(linear.get('b')!.score);
+
+    const max = fuse(keyword, vector, { strategy: 'max', k: 60, keywordWeight: 0.5 });
+    expect(max.get('b')!.score).toBeCloseTo(0.8);
+    expect(max.get('a')!.score).toBeCloseTo(4 / 6);
+  });
+
+  it('counts the relevance of a list that cut a memory off, without a rank', () => {
+    const unranked = { keyword: [{ id: 'c', bm25: 2 }], vector: [{ id: 'a', distance: 0.5 }] };
+    const rrf = fuse(keyword, vector, DEFAULT_FUSION, unranked);
+    expect(rrf.get('a')).toMatchObject({ keyword: 1 / 60, vector: 0, vectorRelevance: 0.5 });
+    expect(rrf.get('a')!.relevance).toBeCloseTo(0.5 * (4 / 6) + 0.5 * 0.5);
+    expect(rrf.get('c')!.relevance).toBeCloseTo(0.5 * 0.5);
+
+    const linear = fuse(keyword, vector, { strategy: 'linear', k: 60, keywordWeight: 0.5 }, unranked);
+    expect(linear.get('a')!.score).toBeCloseTo(0.5 * (4 / 6) + 0.5 * 0.5);
+    // Unranked hits only fill in memories the lists found.
+    expect(fuse(keyword, vector, DEFAULT_FUSION, { vector: [{ id: 'z', distance: 0 }] }).has('z')).toBe(false);
+  });
+});
+
+// ── Search ─────────────────────────────────────────────────────────
+
+describe('hybrid search fusion', () => {
+  let dbPath: string;
+  let store: LanceMemoryStore;
+
+  beforeEach(async () => {
+    dbPath = await mkdtemp(join(tmpdir(), 'agent-memory-fusion-'));
+    store = new LanceMemoryStore(dbPath, new HashEmbedder(), { duplicatePolicy: 'off' });
+    await store.initialize();
+    for (let i = 0; i < 5; i++) {
+      await store.store({ content: `Connection pool note ${i}: pools are sized per service`, category: 'learning', tags: [] });
+    }
+    await store.store({ content: 'ECONNRESET from pgbouncer means the pool timed out', category: 'debugging', tags: [] });
+  });
+
+  afterEach(async () => {
+    await rm(dbPath, { recursive: true, force: true });
+  });
+
+  it('scores by BM25 alone when the keyword list has all the weight', async () => {
+    const results = await store.search('pgbouncer', 'hybrid', {
+      explain: true,
+      fusion: { strategy: 'linear', keywordWeight: 1 },
+    });
+    expect(results[0].memory.content).toContain('pgbouncer');
+    const { fusion, keywordRelevance, retrieval } = results[0].explanation!;
+    expect(fusion).toEqual({ strategy: 'linear', keyword: keywordRelevance, vector: 0 });
+    expect(retrieval).toBe(keywordRelevance);
+    expect(results.slice(1).every(r => r.score === 0)).toBe(true);
+  });
+
+  it('scores by vector similarity alone when the keyword list has none', async () => {
+    const [hybrid] = await store.search('connection pool', 'hybrid', { fusion: { strategy: 'max', keywordWeight: 0 } });
+    const [semantic] = await store.search('connection pool', 'semantic', {});
+    expect(hybrid.memory.id).toBe(semantic.memory.id);
+  });
+
+  it('scores a memory the same however far each list was fetched', async () => {
+    for (let i = 0; i < 6; i++) {
+      await store.store({ content: `pgbouncer ${i}`, category: 'learning', tags: [] });
+    }
+    // The pgbouncer error ranks first by keyword but seventh by vector, so a
+    // one-result search cuts it from the over-fetched vector list.
+    const fusion = { strategy: 'linear' as const, keywordWeight: 0.9 };
+    const [narrow] = await store.search('pgbouncer', 'hybrid', { limit: 1, fusion, explain: true });
+    const [wide] = await store.search('pgbouncer', 'hybrid', { limit: 20, fusion });
+    expect(narrow.memory.content).toMatch(/^ECONNRESET/);
+    expect(wide.memory.id).toBe(narrow.memory.id);
+    expect(narrow.score).toBeCloseTo(wide.score, 6);
+    expect(narrow.explanation!.vectorRank).toBeUndefined();
+
+    const semantic = await store.search('pgbouncer', 'semantic', { limit: 20, explain: true });
+    const [keyword] = await store.search('pgbouncer', 'keyword', { limit: 1, explain: true });
+    const { vectorRelevance } = semantic.find(r => r.memory.id === narrow.memory.id)!.explanation!;
+    expect(narrow.explanation!.vectorRelevance).toBeCloseTo(vectorRelevance!, 6);
+    expect(narrow.explanation!.retrieval).toBeCloseTo(0.9 * keyword.explanation!.keywordRelevance! + 0.1 * vectorRelevance!, 6);
+  });
+
+  it('rejects an invalid override', async () => {
+    await expect(store.search('pool', 'hybrid', { fusion: { k: 0 } })).rejects.toThrow(/Invalid RRF k/);
+  });
+});
+
+describe('search tool fusion', () => {
+  it('echoes the fusion a hybrid search used', async () => {
+    const store = new MockMemoryStore();
+    await store.store({ content: 'Use pnpm', category: 'learning', tags: [] });
+
+    const hybrid = await handleSearch(store)({ query: 'pnpm', fusion: 'linear', keyword_weight: 0.7 });
+    expect(JSON.parse(hybrid.content[0].text).fusion).toEqual({ strategy: 'linear', k: 60, keywordWeight: 0.7 });
+
+    const semantic = await handleSearch(store)({ query: 'pnpm', mode: 'semantic' });
+    expect(JSON.parse(semantic.content[0].text).fusion).toBeUndefined();
+  });
+});
@@ -1,9 +1,10 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdtemp, rm, readdir, readFile } from 'fs/promises';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, readdir, readFile, writeFile } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { HardcopyMemoryStore } from '../src/hardcopy-store.js';
-import { MockMemoryStore } from './mocks.js';
+import { LanceMemoryStore } from '../src/memory-store.js';
+import { MockEmbedder, MockMemoryStore } from './mocks.js';
 import type { Memory } from '../src/types.js';
 
 describe('HardcopyMemoryStore', () => {
@@ -57,6 +58,42 @@ describe('HardcopyMemoryStore', () => {
       await store.store({ content: 'Test', category: 'learning', tags: [] });
       expect(inner.memories).toHaveLength(1);
     });
+
+    it('leaves the duplicate report out of the file', async () => {
+      await store.store({ content: 'Twice', category: 'learning', tags: [] });
+      const flagged = await store.store({ content: 'Twice', category: 'learning', tags: [] });
+
+      expect(flagged.duplicate?.action).toBe('flagged');
+      const hardcopy = await readHardcopy(flagged.id);
+      expect(hardcopy).not.toHaveProperty('duplicate');
+    });
+
+    it('leaves the passage count out of the file', async () => {
+      const dbPath = await mkdtemp(join(tmpdir(), 'hardcopy-chunks-db-'));
+      try {
+        const lance = new LanceMemoryStore(dbPath, new MockEmbedder(), { chunking: { size: 40, overlap: 0 } });
+        const mirrored = new HardcopyMemoryStore(lance, hardcopyPath);
+        await mirrored.initialize();
+        const memory = await mirrored.store({
+          content: 'A long runbook. It is split into passages. Each is searched on its own.',
+          category: 'learning',
+          tags: [],
+        });
+
+        expect(memory.chunks).toBeGreaterThan(1);
+        expect(await readHardcopy(memory.id)).not.toHaveProperty('chunks');
+        expect((await mirrored.verifyHardcopy()).mismatches).toEqual([]);
+      } finally {
+        await rm(dbPath, { recursive: true, force: true });
+      }
+    });
+
+    it('writes nothing for a rejected duplicate', async () => {
+      await store.store({ content: 'Once', category: 'learning', tags: [] });
+      await store.store({ content: 'Once', category: 'learning', tags: [], onDuplicate: 'reject' });
+
+      expect(await listHardcopyFiles()).toHaveLength(1);
+    });
   });
 
   // ── Store batch ─────────────────────────────────────────────
@@ -119,6 +156,16 @@ describe('HardcopyMemoryStore', () => {
       expect(filesAfter).toHaveLength(0);
     });
 
+    it('restoring from the trash writes the file back', async () => {
+      const memory = await store.store({ content: 'Second chance', category: 'other', tags: [] });
+      await store.delete(memory.id);
+
+      await store.restore(memory.id);
+
+      const hardcopy = await readHardcopy(memory.id);
+      expect(hardcopy.content).toBe('Second chance');
+    });
+
     it('does not throw when hardcopy file does not exist', async () => {
       const memory = await store.store({
         content: 'Test',
@@ -135,6 +182,333 @@ describe('HardcopyMemoryStore', () => {
     });
   });
 
+  // ── Import ──────────────────────────────────────────────────
+
+  describe('importMemories', () => {
+    it('writes a hardcopy file for each imported memory', async () => {
+      const result = await store.importMemories([{
+        id: 'imported-1',
+        namespace: 'default',
+        content: 'From an archive',
+        category: 'learning',
+        tags: [],
+        createdAt: '2025-01-01T00:00:00.000Z',
+        updatedAt: '2025-01-01T00:00:00.000Z',
+        accessCount: 2,
+        lastAccessedAt: '2025-01-01T00:00:00.000Z',
+      }], {});
+
+      expect(result.imported).toBe(1);
+      const hardcopy = await readHardcopy('imported-1');
+      expect(hardcopy.content).toBe('From an archive');
+      expect(hardcopy).not.toHaveProperty('accessCount');
+    });
+
+    it('writes no file for memories imported into the trash', async () => {
+      await store.importMemories([{
+        id: 'trashed-1',
+        namespace: 'default',
+        content: 'From the trash',
+        category: 'learning',
+        tags: [],
+        createdAt: '2025-01-01T00:00:00.000Z',
+        updatedAt: '2025-01-01T00:00:00.000Z',
+        accessCount: 0,
+        lastAccessedAt: '2025-01-01T00:00:00.000Z',
+        deletedAt: '2025-02-01T00:00:00.000Z',
+      }], {});
+
+      expect(inner.trash.map(m => m.id)).toEqual(['trashed-1']);
+      expect(await listHardcopyFiles()).toHaveLength(0);
+    });
+  });
+
+  // ── Verification ────────────────────────────────────────────
+
+  describe('verifyHardcopy', () => {
+    async function editHardcopy(id: string, changes: Partial<Memory>): Promise<void> {
+      const memory = await readHardcopy(id);
+      await writeFile(join(hardcopyPath, `${id}.json`), JSON.stringify({ ...memory, ...changes }, null, 2) + '\n');
+    }
+
+    const stale = '2000-01-01T00:00:00.000Z';
+    const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+    it('reports a clean mirror', async () => {
+      await store.store({ content: 'In sync', category: 'learning', tags: [] });
+
+      const report = await store.verifyHardcopy();
+      expect(report.checked).toBe(1);
+      expect(report.missingFiles).toEqual([]);
+      expect(report.orphanFiles).toEqual([]);
+      expect(report.mismatches).toEqual([]);
+    });
+
+    it('detects missing, orphan and mismatched files without repairing', async () => {
+      const unmirrored = await inner.store({ content: 'Stored before hardcopy', category: 'learning', tags: [] });
+      const drifted = await store.store({ content: 'Original', category: 'learning', tags: ['a'] });
+      const orphan = await store.store({ content: 'Deleted behind our back', category: 'other', tags: [] });
+      inner.memories = inner.memories.filter(m => m.id !== orphan.id);
+      await editHardcopy(drifted.id, { content: 'Edited', tags: ['b'] });
+
+      const report = await store.verifyHardcopy('none');
+
+      expect(report.missingFiles).toEqual([unmirrored.id]);
+      expect(report.orphanFiles).toEqual([`${orphan.id}.json`]);
+      expect(report.mismatches).toEqual([{ id: drifted.id, fields: ['content', 'tags'] }]);
+      expect(report.written).toEqual([]);
+      expect(await listHardcopyFiles()).toHaveLength(2);
+    });
+
+    it('backfill writes missing files and rewrites stale ones from the store', async () => {
+      const unmirrored = await inner.store({ content: 'Stored before hardcopy', category: 'learning', tags: [] });
+      const drifted = await store.store({ content: 'Original', category: 'learning', tags: [] });
+      await editHardcopy(drifted.id, { content: 'Edited by hand' });
+
+      const report = await store.verifyHardcopy('backfill');
+
+      expect(report.written.sort()).toEqual([unmirrored.id, drifted.id].sort());
+      expect((await readHardcopy(unmirrored.id)).content).toBe('Stored before hardcopy');
+      expect((await readHardcopy(drifted.id)).content).toBe('Original');
+    });
+
+    it('reconcile applies files edited by hand', async () => {
+      const memory = await store.store({ content: 'Original', category: 'learning', tags: [] });
+      await editHardcopy(memory.id, { content: 'Fixed by a human', category: 'bug-fix' });
+
+      const report = await store.verifyHardcopy('reconcile');
+
+      expect(report.updated).toEqual([memory.id]);
+      expect(inner.memories[0].content).toBe('Fixed by a human');
+      expect(inner.memories[0].category).toBe('bug-fix');
+      expect((await readHardcopy(memory.id)).updatedAt).toBe(inner.memories[0].updatedAt);
+    });
+
+    it('reconcile keeps the store when the file is older', async () => {
+      const memory = await store.store({ content: 'Current', category: 'learning', tags: [] });
+      await editHardcopy(memory.id, { content: 'Stale', updatedAt: stale });
+
+      const report = await store.verifyHardcopy('reconcile');
+
+      expect(report.updated).toEqual([]);
+      expect(report.written).toEqual([memory.id]);
+      expect((await readHardcopy(memory.id)).content).toBe('Current');
+    });
+
+    it('reconcile keeps the store when a write never reached the file', async () => {
+      const memory = await store.store({ content: 'Runbook step', category: 'other', tags: ['ops'] });
+      await tick();
+      // Straight to the inner store, as if the hardcopy write had failed.
+      await inner.update(memory.id, { content: 'Runbook step, revised' });
+      await inner.recategorize({ from: ['other'], to: 'runbook', dryRun: false });
+      await inner.mergeTags({ from: ['ops'], to: 'operations', dryRun: false });
+
+      const report = await store.verifyHardcopy('reconcile');
+
+      expect(report.updated).toEqual([]);
+      expect(report.written).toEqual([memory.id]);
+      expect(await readHardcopy(memory.id)).toMatchObject({
+        content: 'Runbook step, revised',
+        category: 'runbook',
+        tags: ['operations'],
+      });
+    });
+
+    it('reconcile leaves relabelled files alone', async () => {
+      const memory = await store.store({ content: 'Runbook step', category: 'other', tags: ['ops'] });
+      await tick();
+      await store.recategorize({ from: ['other'], to: 'runbook', dryRun: false });
+      await store.renameTag({ from: ['ops'], to: 'operations', dryRun: false });
+
+      expect((await readHardcopy(memory.id)).updatedAt).toBe(inner.memories[0].updatedAt);
+      const report = await store.verifyHardcopy('reconcile');
+      expect(report.mismatches).toEqual([]);
+      expect(inner.memories[0]).toMatchObject({ category: 'runbook', tags: ['operations'] });
+    });
+
+    it('reconcile imports orphan files as memories', async () => {
+      await writeFile(join(hardcopyPath, 'hand-written.json'), JSON.stringify({
+        id: 'hand-written',
+        content: 'Written directly into the hardcopy',
+        category: 'learning',
+        tags: ['manual'],
+        createdAt: '2025-01-01T00:00:00.000Z',
+        updatedAt: '2025-01-01T00:00:00.000Z',
+      }));
+
+      const report = await store.verifyHardcopy('reconcile');
+
+      expect(report.imported).toEqual(['hand-written']);
+      expect(inner.memories.map(m => m.id)).toEqual(['hand-written']);
+    });
+
+    it('reconcile reports files the store refuses and repairs the rest', async () => {
+      const refused = await store.store({ content: 'Original', category: 'learning', tags: [] });
+      const accepted = await store.store({ content: 'Also original', category: 'learning', tags: [] });
+      await editHardcopy(refused.id, { category: 'recipes' });
+      await editHardcopy(accepted.id, { content: 'Fixed by a human' });
+      const orphan = { id: 'orphan', content: 'Pancakes', category: 'recipes', tags: [], createdAt: stale, updatedAt: stale };
+      await writeFile(join(hardcopyPath, 'orphan.json'), JSON.stringify(orphan));
+      // Stand in for a store whose taxonomy has no "recipes".
+      const reject = (category: string | undefined) => {
+        if (category === 'recipes') throw new Error('Unknown category "recipes"');
+      };
+      const update = inner.update.bind(inner);
+      const importMemories = inner.importMemories.bind(inner);
+      vi.spyOn(inner, 'update').mockImplementation(async (id, updates) => {
+        reject(updates.category);
+        return update(id, updates);
+      });
+      vi.spyOn(inner, 'importMemories').mockImplementation(async (records, options) => {
+        records.forEach(r => reject(r.category));
+        return importMemories(records, options);
+      });
+
+      const report = await store.verifyHardcopy('reconcile');
+
+      expect(report.updated).toEqual([accepted.id]);
+      expect(report.failed).toEqual([
+        { file: `${refused.id}.json`, error: 'Unknown category "recipes"' },
+        { file: 'orphan.json', error: 'Unknown category "recipes"' },
+      ]);
+      expect(inner.memories.find(m => m.id === accepted.id)!.content).toBe('Fixed by a human');
+    });
+  });
+
+  // ── Prune ───────────────────────────────────────────────────
+
+  describe('prune', () => {
+    it('removes hardcopy files for pruned memories', async () => {
+      const memory = await store.store({ content: 'Prunable', category: 'other', tags: [] });
+      inner.prune = async () => ({
+        pruned: 1,
+        inspected: 1,
+        dryRun: false,
+        candidates: [{ id: memory.id, content: memory.content, strength: 0, reason: 'test' }],
+      });
+
+      await store.prune({ dryRun: false });
+      expect(await listHardcopyFiles()).toHaveLength(0);
+    });
+  });
+
+  // ── Recategorize ────────────────────────────────────────────
+
+  describe('recategorize', () => {
+    it('rewrites the category in existing files', async () => {
+      const memory = await store.store({ content: 'Runbook step', category: 'other', tags: ['ops'] });
+      await store.recategorize({ from: ['other'], to: 'runbook', dryRun: false });
+
+      const hardcopy = await readHardcopy(memory.id);
+      expect(hardcopy.category).toBe('runbook');
+      expect(hardcopy.tags).toEqual(['ops']);
+    });
+
+    it('does not recreate files for trashed memories', async () => {
+      const memory = await store.store({ content: 'Gone', category: 'other', tags: [] });
+      await store.delete(memory.id);
+      await store.recategorize({ from: ['other'], to: 'runbook', dryRun: false });
+
+      expect(await listHardcopyFiles()).toHaveLength(0);
+    });
+  });
+
+  // ── Tags ────────────────────────────────────────────────────
+
+  describe('mergeTags', () => {
+    it('rewrites the tags in existing files', async () => {
+      const memory = await store.store({ content: 'Strict mode', category: 'learning', tags: ['ts', 'build', 'TS'] });
+      await store.mergeTags({ from: ['ts', 'TS'], to: 'typescript', dryRun: false });
+
+      expect((await readHardcopy(memory.id)).tags).toEqual(['typescript', 'build']);
+    });
+
+    it('writes nothing in dry-run mode', async () => {
+      const memory = await store.store({ content: 'Strict mode', category: 'learning', tags: ['ts'] });
+      await store.renameTag({ from: ['ts'], to: 'typescript' });
+
+      expect((await readHardcopy(memory.id)).tags).toEqual(['ts']);
+    });
+  });
+
+  // ── Consolidate ─────────────────────────────────────────────
+
+  describe('consolidate', () => {
+    it('replaces the files of merged memories with the merged one', async () => {
+      await store.store({ content: 'Repeated', category: 'learning', tags: ['x'] });
+      await store.store({ content: 'Repeated', category: 'learning', tags: ['y'] });
+
+      const result = await store.consolidate({ dryRun: false });
+      const merged = result.clusters[0].merged!;
+
+      expect(await listHardcopyFiles()).toEqual([`${merged.id}.json`]);
+      expect((await readHardcopy(merged.id)).tags).toEqual(['x', 'y']);
+    });
+
+    it('writes nothing in dry-run mode', async () => {
+      await store.store({ content: 'Repeated', category: 'learning', tags: [] });
+      await store.store({ content: 'Repeated', category: 'learning', tags: [] });
+
+      await store.consolidate({});
+      expect(await listHardcopyFiles()).toHaveLength(2);
+    });
+  });
+
+  // ── Rebuild ─────────────────────────────────────────────────
+
+  describe('rebuildFromHardcopy', () => {
+    it('replaces the inner store with the hardcopy contents', async () => {
+      const kept = await store.store({ content: 'Kept', category: 'learning', tags: ['k'] });
+      // A memory that only exists in the primary store is dropped.
+      await inner.store({ content: 'Not mirrored', category: 'other', tags: [] });
+
+      const report = await store.rebuildFromHardcopy();
+
+      expect(report.restored).toBe(1);
+      expect(report.failed).toEqual([]);
+      expect(inner.memories).toEqual([kept]);
+    });
+
+    it('reports files that fail to parse', async () => {
+      await store.store({ content: 'Valid', category: 'learning', tags: [] });
+      await writeFile(join(hardcopyPath, 'broken.json'), '{ not json');
+      await writeFile(join(hardcopyPath, 'incomplete.json'), JSON.stringify({ id: 'x' }));
+
+      const report = await store.rebuildFromHardcopy();
+
+      expect(report.restored).toBe(1);
+      expect(report.failed.map(f => f.file)).toEqual(['broken.json', 'incomplete.json']);
+    });
+
+    it('refuses to rebuild from an empty directory', async () => {
+      await inner.store({ content: 'Precious', category: 'learning', tags: [] });
+
+      await expect(store.rebuildFromHardcopy()).rejects.toThrow(/refusing to rebuild/);
+      expect(inner.memories).toHaveLength(1);
+    });
+
+    it('recreates a LanceDB table with original ids and timestamps', async () => {
+      const dbPath = await mkdtemp(join(tmpdir(), 'hardcopy-rebuild-db-'));
+      try {
+        const lance = new LanceMemoryStore(dbPath, new MockEmbedder());
+        const mirrored = new HardcopyMemoryStore(lance, hardcopyPath);
+        await mirrored.initialize();
+        const original = await mirrored.store({ content: 'Survives a rebuild', category: 'learning', tags: ['r'] });
+        await lance.store({ content: 'Lost in the rebuild', category: 'learning', tags: [] });
+
+        const fresh = new LanceMemoryStore(dbPath, new MockEmbedder());
+        await fresh.initialize();
+        const report = await new HardcopyMemoryStore(fresh, hardcopyPath).rebuildFromHardcopy();
+
+        expect(report.restored).toBe(1);
+        const recent = await fresh.listRecent(10);
+        expect(recent).toEqual([original]);
+      } finally {
+        await rm(dbPath, { recursive: true, force: true });
+      }
+    });
+  });
+
   // ── Reads pass through ──────────────────────────────────────
 
   describe('read operations delegate to inner store', () => {
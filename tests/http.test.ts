@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { parseHttpPort, parseTransport, startHttpServer, type HttpServer } from '../src/http.js';
+import { createServer } from '../src/server.js';
+import { MockMemoryStore } from './mocks.js';
+
+// ── Configuration ──────────────────────────────────────────────────
+
+describe('parseTransport', () => {
+  it('defaults to stdio and rejects unknown transports', () => {
+    expect(parseTransport(undefined)).toBe('stdio');
+    expect(parseTransport(' HTTP ')).toBe('http');
+    expect(() => parseTransport('websocket')).toThrow(/expected one of stdio, http/);
+  });
+});
+
+describe('parseHttpPort', () => {
+  it('defaults to 3000 and rejects invalid ports', () => {
+    expect(parseHttpPort(undefined)).toBe(3000);
+    expect(parseHttpPort('8080')).toBe(8080);
+    expect(() => parseHttpPort('70000')).toThrow(/MEMORY_HTTP_PORT/);
+  });
+});
+
+// ── Serving ────────────────────────────────────────────────────────
+
+const TOKEN = 'secret-token';
+
+describe('startHttpServer', () => {
+  let store: MockMemoryStore;
+  let server: HttpServer;
+  const clients: Client[] = [];
+
+  beforeEach(async () => {
+    store = new MockMemoryStore();
+    server = await startHttpServer(() => createServer(store), { port: 0, host: '127.0.0.1', token: TOKEN });
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map(client => client.close()));
+    await server.close();
+  });
+
+  const auth = { headers: { Authorization: `Bearer ${TOKEN}` } };
+
+  async function connect(kind: 'streamable' | 'sse'): Promise<Client> {
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    const transport = kind === 'streamable'
+      ? new StreamableHTTPClientTransport(new URL(`${server.url}/mcp`), { requestInit: auth })
+      : new SSEClientTransport(new URL(`${server.url}/sse`), {
+          requestInit: auth,
+          eventSourceInit: { fetch: (url, init) => fetch(url, { ...init, headers: { ...init?.headers, ...auth.headers } }) },
+        });
+    await client.connect(transport);
+    clients.push(client);
+    return client;
+  }
+
+  function text(result: Awaited<ReturnType<Client['callTool']>>) {
+    return JSON.parse((result.content as Array<{ text: string }>)[0].text);
+  }
+
+  it('answers health checks without a token', async () => {
+    const response = await fetch(`${server.url}/health`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok', sessions: 0 });
+  });
+
+  it('rejects requests without the bearer token', async () => {
+    const missing = await fetch(`${server.url}/mcp`, { method: 'POST', body: '{}' });
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+
+    const wrong = await fetch(`${server.url}/sse`, { headers: { Authorization: 'Bearer nope' } });
+    expect(wrong.status).toBe(401);
+  });
+
+  it('shares one store between Streamable HTTP and SSE sessions', async () => {
+    const first = await connect('streamable');
+    const second = await connect('sse');
+
+    const { tools } = await first.listTools();
+    expect(tools.map(t => t.name)).toContain('store');
+
+    await first.callTool({ name: 'store', arguments: { content: 'Deploys go out on Tuesdays', category: 'learning', tags: [] } });
+    const found = text(await second.callTool({ name: 'search', arguments: { query: 'Tuesdays' } }));
+    expect(found.results[0].memory.content).toBe('Deploys go out on Tuesdays');
+
+    const health = await (await fetch(`${server.url}/health`)).json();
+    expect(health.sessions).toBe(2);
+  });
+
+  it('requires an initialize request to open a session', async () => {
+    const headers = { ...auth.headers, 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+    const call = { jsonrpc: '2.0', id: 1, method: 'tools/list' };
+
+    const unopened = await fetch(`${server.url}/mcp`, { method: 'POST', headers, body: JSON.stringify(call) });
+    expect(unopened.status).toBe(400);
+    const unknown = await fetch(`${server.url}/mcp`, {
+      method: 'POST',
+      headers: { ...headers, 'Mcp-Session-Id': 'missing' },
+      body: JSON.stringify(call),
+    });
+    expect(unknown.status).toBe(404);
+  });
+
+  it('rejects Host headers that are not loopback', async () => {
+    const { request } = await import('http');
+    const status = await new Promise<number>((resolve, reject) => {
+      request(`${server.url}/mcp`, { method: 'POST', headers: { ...auth.headers, Host: 'evil.example' } }, (res) => {
+        res.resume();
+        resolve(res.statusCode!);
+      }).on('error', reject).end('{}');
+    });
+    expect(status).toBe(403);
+  });
+
+  it('refuses to listen beyond loopback without a token', async () => {
+    await expect(startHttpServer(() => createServer(store), { port: 0, host: '0.0.0.0' }))
+      .rejects.toThrow(/MEMORY_HTTP_TOKEN/);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  globToRegExp,
+  ingest,
+  listFiles,
+  matchRule,
+  parseFile,
+  parseFrontMatter,
+  splitMarkdown,
+} from '../src/ingest.js';
+import { LanceMemoryStore } from '../src/memory-store.js';
+import { MockEmbedder, MockMemoryStore } from './mocks.js';
+
+// ── Parsing ────────────────────────────────────────────────────────
+
+describe('splitMarkdown', () => {
+  const doc = [
+    'Preamble text.',
+    '# ADR 7: Use LanceDB',
+    '## Context',
+    'We need local vector search.',
+    '### Options',
+    'LanceDB, sqlite-vss.',
+    '## Decision',
+    '```bash',
+    '# not a heading',
+    '```',
+    '## Decision',
+    'Second decision block.',
+  ].join('\n');
+
+  it('splits at headings up to the level, keeping deeper ones in their section', () => {
+    expect(splitMarkdown(doc, 2)).toEqual([
+      { section: '', content: 'Preamble text.' },
+      { section: 'ADR 7: Use LanceDB > Context', content: 'ADR 7: Use LanceDB > Context\n\nWe need local vector search.\n### Options\nLanceDB, sqlite-vss.' },
+      { section: 'ADR 7: Use LanceDB > Decision', content: 'ADR 7: Use LanceDB > Decision\n\n```bash\n# not a heading\n```' },
+      { section: 'ADR 7: Use LanceDB > Decision (2)', content: 'ADR 7: Use LanceDB > Decision\n\nSecond decision block.' },
+    ]);
+  });
+
+  it('splits deeper when asked', () => {
+    expect(splitMarkdown(doc, 3).map(s => s.section)).toContain('ADR 7: Use LanceDB > Context > Options');
+  });
+});
+
+describe('parseFrontMatter', () => {
+  it('reads scalars, inline lists and block lists', () => {
+    const text = '---\ncategory: architecture\ntags: [adr, "storage"]\nowners:\n  - alice\n  - bob\nnumber: 7\ndraft: false\n---\nBody';
+    expect(parseFrontMatter(text)).toEqual({
+      data: { category: 'architecture', tags: ['adr', 'storage'], owners: ['alice', 'bob'], number: 7, draft: false },
+      body: 'Body',
+    });
+  });
+
+  it('leaves files without front-matter alone', () => {
+    expect(parseFrontMatter('# Title\n---\n')).toEqual({ data: {}, body: '# Title\n---\n' });
+  });
+
+  it('rejects what it cannot read', () => {
+    expect(() => parseFrontMatter('---\nowner:\n  team: core\n---\n')).toThrow(/line 3/);
+  });
+});
+
+describe('parseFile', () => {
+  it('applies front-matter to every section and keeps other keys as metadata', () => {
+    const [section] = parseFile('runbook.md', '---\ncategory: tool-usage\ntags: ops, oncall\nservice: api\n---\n## Restart\nRun the script.');
+    expect(section).toEqual({
+      section: 'Restart',
+      content: 'Restart\n\nRun the script.',
+      category: 'tool-usage',
+      tags: ['ops', 'oncall'],
+      metadata: { service: 'api' },
+    });
+  });
+
+  it('stores text files whole', () => {
+    expect(parseFile('notes.txt', '\n# not a heading\nline\n')).toEqual([
+      { section: '', content: '# not a heading\nline', category: undefined, tags: [], metadata: {} },
+    ]);
+  });
+
+  it('reads JSON memories, falling back to the whole file', () => {
+    const memories = JSON.stringify([{ id: 'pnpm', content: 'Use pnpm', tags: ['js'] }, { content: 'Node 20' }]);
+    expect(parseFile('facts.json', memories).map(s => [s.section, s.content, s.tags])).toEqual([
+      ['pnpm', 'Use pnpm', ['js']],
+      ['1', 'Node 20', []],
+    ]);
+    expect(parseFile('config.json', '{"port": 8080}')).toEqual([
+      { section: '', content: '{"port": 8080}', tags: [], metadata: {} },
+    ]);
+  });
+});
+
+describe('path rules', () => {
+  it('matches globs against the relative path, or the file name without a slash', () => {
+    expect(globToRegExp('docs/**/*.md').test('docs/adr/0001.md')).toBe(true);
+    expect(globToRegExp('docs/**/*.md').test('docs/0001.md')).toBe(true);
+    expect(globToRegExp('docs/*.md').test('docs/adr/0001.md')).toBe(false);
+
+    const rules = [{ pattern: 'adr/**', category: 'architecture' }, { pattern: '*.md', tags: ['docs'] }];
+    expect(matchRule('adr/0001.md', rules)?.category).toBe('architecture');
+    expect(matchRule('guides/setup.md', rules)?.tags).toEqual(['docs']);
+    expect(matchRule('notes.txt', rules)).toBeUndefined();
+  });
+});
+
+// ── Ingesting ──────────────────────────────────────────────────────
+
+describe('ingest', () => {
+  let dir: string;
+  let store: MockMemoryStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'agent-memory-ingest-'));
+    store = new MockMemoryStore();
+    await mkdir(join(dir, 'adr'));
+    await mkdir(join(dir, '.git'));
+    await writeFile(join(dir, 'adr', '0001.md'), '# Use LanceDB\n## Context\nLocal search.\n## Decision\nLanceDB.');
+    await writeFile(join(dir, 'runbook.txt'), 'Restart with systemctl restart api.');
+    await writeFile(join(dir, '.git', 'HEAD'), 'ref: refs/heads/main');
+    await writeFile(join(dir, 'logo.png'), 'binary');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const rules = [{ pattern: 'adr/**', category: 'architecture', tags: ['adr'] }];
+
+  it('lists supported files, skipping dot-directories', async () => {
+    expect(await listFiles(dir)).toEqual([join(dir, 'adr', '0001.md'), join(dir, 'runbook.txt')]);
+  });
+
+  it('stores each section with its source', async () => {
+    const result = await ingest(store, { path: dir, rules, tags: ['repo'] });
+    expect(result).toMatchObject({ files: 2, created: 3, updated: 0, unchanged: 0, removed: 0, failed: [] });
+
+    const memories = await store.exportMemories({});
+    const decision = memories.find(m => m.content.startsWith('Use LanceDB > Decision'))!;
+    expect(decision).toMatchObject({ category: 'architecture', tags: ['repo', 'adr'] });
+    expect(decision.metadata).toEqual({ source: { path: join(dir, 'adr', '0001.md'), section: 'Use LanceDB > Decision' } });
+    expect(memories.find(m => m.content.startsWith('Restart'))?.category).toBe('other');
+  });
+
+  it('updates changed sections and trashes removed ones on re-ingest', async () => {
+    await ingest(store, { path: dir, rules });
+    await writeFile(join(dir, 'adr', '0001.md'), '# Use LanceDB\n## Context\nLocal search.\n## Decision\nLanceDB 0.26.');
+    await rm(join(dir, 'runbook.txt'));
+
+    const result = await ingest(store, { path: dir, rules });
+    expect(result).toMatchObject({ created: 0, updated: 1, unchanged: 1, removed: 1 });
+    const memories = await store.exportMemories({});
+    expect(memories).toHaveLength(2);
+    expect(memories.map(m => m.content)).toContain('Use LanceDB > Decision\n\nLanceDB 0.26.');
+    expect((await store.history(result.ids[0]))[0].reason).toBe('ingest');
+  });
+
+  it('previews without writing', async () => {
+    const result = await ingest(store, { path: dir, rules, dryRun: true });
+    expect(result).toMatchObject({ dryRun: true, created: 3, ids: [] });
+    expect(await store.exportMemories({})).toHaveLength(0);
+  });
+
+  it('reports files it cannot use and keeps their memories', async () => {
+    await ingest(store, { path: dir, rules });
+    await writeFile(join(dir, 'adr', '0001.md'), '---\ncategory: nonsense\n---\n## Context\nLocal search.');
+
+    const result = await ingest(store, { path: dir, rules, categories: ['architecture', 'other'] });
+    expect(result.failed).toEqual([{ file: join(dir, 'adr', '0001.md'), error: 'Unknown category "nonsense"' }]);
+    expect(result.removed).toBe(0);
+    expect(await store.exportMemories({})).toHaveLength(3);
+  });
+
+  it('only touches memories under the ingested path', async () => {
+    await ingest(store, { path: dir, rules });
+    const result = await ingest(store, { path: join(dir, 'runbook.txt') });
+    expect(result).toMatchObject({ files: 1, unchanged: 1, removed: 0 });
+  });
+
+  it('recognises unchanged sections in LanceDB', async () => {
+    const dbPath = await mkdtemp(join(tmpdir(), 'agent-memory-ingest-db-'));
+    try {
+      const lance = new LanceMemoryStore(dbPath, new MockEmbedder());
+      await lance.initialize();
+      await ingest(lance, { path: dir, rules, namespace: 'docs' });
+      expect(await ingest(lance, { path: dir, rules, namespace: 'docs' })).toMatchObject({ created: 0, updated: 0, unchanged: 3 });
+    } finally {
+      await rm(dbPath, { recursive: true, force: true });
+    }
+  });
+
+  it('recognises unchanged sections when the store normalises tags', async () => {
+    const dbPath = await mkdtemp(join(tmpdir(), 'agent-memory-ingest-db-'));
+    try {
+      const tagNormalisation = { caseFold: true, aliases: { decision: 'adr' } };
+      const lance = new LanceMemoryStore(dbPath, new MockEmbedder(), { tagNormalisation });
+      await lance.initialize();
+      const shouty = [{ pattern: 'adr/**', category: 'architecture', tags: ['ADR', 'Decision'] }];
+      await ingest(lance, { path: dir, rules: shouty, tagNormalisation });
+
+      const result = await ingest(lance, { path: dir, rules: shouty, tagNormalisation });
+      expect(result).toMatchObject({ created: 0, updated: 0, unchanged: 3 });
+      const decision = (await lance.exportMemories({})).find(m => m.content.startsWith('Use LanceDB > Decision'))!;
+      expect(decision.tags).toEqual(['adr']);
+      expect(await lance.history(decision.id)).toEqual([]);
+    } finally {
+      await rm(dbPath, { recursive: true, force: true });
+    }
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { mkdtemp, rm } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
+import * as lancedb from '@lancedb/lancedb';
 import { LanceMemoryStore } from '../src/memory-store.js';
 import { MockEmbedder } from './mocks.js';
 
@@ -375,6 +376,90 @@ describe('LanceMemoryStore integration', () => {
     });
   });
 
+  describe('score explanations', () => {
+    beforeEach(async () => {
+      await store.store({ content: 'Vector databases use embeddings for similarity search', category: 'architecture', tags: [] });
+      await store.store({ content: 'Cooking pasta requires boiling water', category: 'other', tags: ['evergreen'] });
+      await store.store({ content: 'Embeddings map text to vectors', category: 'learning', tags: [] });
+    });
+
+    it('breaks a hybrid score into rank contributions and decay', async () => {
+      const results = await store.search('vector embeddings', 'hybrid', { limit: 10, explain: true });
+      expect(results.length).toBeGreaterThan(0);
+      for (const { score, explanation } of results) {
+        expect(explanation).toBeDefined();
+        const { mode, fusion, keywordRank, keywordRelevance, vectorRelevance, retrieval, decayFactor } = explanation!;
+        expect(mode).toBe('hybrid');
+        expect(fusion!.strategy).toBe('rrf');
+        expect(retrieval).toBeCloseTo(0.5 * keywordRelevance! + 0.5 * vectorRelevance!, 10);
+        expect(score).toBeCloseTo(retrieval * decayFactor, 10);
+        if (keywordRank) expect(fusion!.keyword).toBeCloseTo(1 / (60 + keywordRank - 1), 10);
+      }
+      const top = results[0].explanation!;
+      expect(top.bm25).toBeGreaterThan(0);
+      expect(top.distance).toBeGreaterThanOrEqual(0);
+    });
+
+    it('reports distance in semantic mode and BM25 in keyword mode', async () => {
+      const [semantic] = await store.search('vector embeddings', 'semantic', { limit: 1, explain: true });
+      expect(semantic.explanation).toMatchObject({ mode: 'semantic', retrieval: 1 - semantic.explanation!.distance! });
+
+      const [keyword] = await store.search('pasta', 'keyword', { limit: 1, explain: true });
+      const { bm25 } = keyword.explanation!;
+      expect(keyword.explanation).toMatchObject({ mode: 'keyword', retrieval: bm25! / (bm25! + 2) });
+    });
+
+    it('shows the effective half-life, or none for evergreen memories', async () => {
+      const results = await store.search('pasta embeddings', 'semantic', { limit: 10, explain: true });
+      const evergreen = results.find(r => r.memory.tags.includes('evergreen'))!.explanation!;
+      expect(evergreen).toMatchObject({ evergreen: true, halfLifeDays: null, decayFactor: 1 });
+
+      const regular = results.find(r => r.memory.tags.length === 0)!.explanation!;
+      expect(regular.evergreen).toBe(false);
+      expect(regular.halfLifeDays).toBeCloseTo(30 * regular.importanceMultiplier, 10);
+      expect(regular.ageDays).toBeLessThan(1);
+    });
+
+    it('leaves explanations out unless asked', async () => {
+      const results = await store.search('vector embeddings', 'hybrid', { limit: 10 });
+      expect(results.every(r => r.explanation === undefined)).toBe(true);
+    });
+  });
+
+  describe('calibrated scores', () => {
+    beforeEach(async () => {
+      await store.store({ content: 'Vector databases use embeddings for similarity search', category: 'architecture', tags: [] });
+      await store.store({ content: 'Cooking pasta requires boiling water', category: 'other', tags: [] });
+      await store.store({ content: 'Embeddings map text to vectors', category: 'learning', tags: [] });
+    });
+
+    it('scores every mode from 0 to 1', async () => {
+      for (const mode of ['semantic', 'keyword', 'hybrid'] as const) {
+        const results = await store.search('vector embeddings', mode, { limit: 10 });
+        expect(results.length).toBeGreaterThan(0);
+        for (const r of results) {
+          expect(r.score).toBeGreaterThanOrEqual(0);
+          expect(r.score).toBeLessThanOrEqual(1);
+        }
+      }
+    });
+
+    it('drops results below minScore, returning fewer than limit', async () => {
+      const all = await store.search('vector embeddings', 'hybrid', { limit: 10 });
+      const threshold = (Math.max(...all.map(r => r.score)) + Math.min(...all.map(r => r.score))) / 2;
+      const relevant = await store.search('vector embeddings', 'hybrid', { limit: 10, minScore: threshold });
+
+      expect(relevant.length).toBeGreaterThan(0);
+      expect(relevant.length).toBeLessThan(all.length);
+      expect(relevant.every(r => r.score >= threshold)).toBe(true);
+      expect(await store.search('vector embeddings', 'keyword', { minScore: 1 })).toHaveLength(0);
+    });
+
+    it('rejects a minScore outside 0–1', async () => {
+      await expect(store.search('vector', 'semantic', { minScore: 1.5 })).rejects.toThrow(/Invalid minScore/);
+    });
+  });
+
   // ── Access tracking ───────────────────────────────────────────
 
   describe('access tracking', () => {
@@ -500,6 +585,562 @@ describe('LanceMemoryStore integration', () => {
     });
   });
 
+  describe('decay policy', () => {
+    const decayPolicy = {
+      halfLifeDays: 30,
+      categories: { architecture: 365, personal: null },
+      tags: { 'short-lived': 3 },
+    };
+
+    beforeEach(async () => {
+      store = new LanceMemoryStore(dbPath, embedder, { decayPolicy });
+      await store.initialize();
+      await store.store({ content: 'Services talk over a message bus', category: 'architecture', tags: [] });
+      await store.store({ content: 'Alice prefers tabs over spaces', category: 'personal', tags: [] });
+      await store.store({ content: 'Bus outage during the deploy today', category: 'debugging', tags: ['short-lived'] });
+    });
+
+    it('explains which rule set each half-life', async () => {
+      const results = await store.search('bus', 'semantic', { limit: 10, explain: true });
+      const rule = (category: string) => results.find(r => r.memory.category === category)!.explanation!;
+      expect(rule('architecture').decayRule).toBe('category:architecture');
+      expect(rule('architecture').halfLifeDays).toBeCloseTo(365 * rule('architecture').importanceMultiplier, 10);
+      expect(rule('personal')).toMatchObject({ decayRule: 'category:personal', halfLifeDays: null, decayFactor: 1 });
+      expect(rule('debugging').decayRule).toBe('tag:short-lived');
+    });
+
+    it('applies the policy to search scores, stats and prune alike', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        vi.setSystemTime(Date.now() + 100 * 86_400_000);
+
+        // All three are dormant, but the personal memory does not decay.
+        const stats = await store.stats();
+        expect(stats.decayPolicy).toEqual(decayPolicy);
+        expect(stats.belowPruneThreshold).toBe(2);
+        const pruned = await store.prune({ dryRun: true });
+        expect(pruned.candidates.map(c => c.content).sort()).toEqual([
+          'Bus outage during the deploy today',
+          'Services talk over a message bus',
+        ]);
+
+        const results = await store.search('bus', 'semantic', { limit: 10, explain: true });
+        const factor = (category: string) => results.find(r => r.memory.category === category)!.explanation!.decayFactor;
+        expect(factor('personal')).toBe(1);
+        expect(factor('architecture')).toBeGreaterThan(0.8);
+        expect(factor('debugging')).toBeLessThan(0.05);
+        // Let the access-count update land before the database is removed.
+        await new Promise(r => setTimeout(r, 300));
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  // ── Trash ───────────────────────────────────────────────────
+
+  describe('trash', () => {
+    it('hides deleted memories from search, listing and stats', async () => {
+      const doomed = await store.store({ content: 'Trashed memory about caching', category: 'learning', tags: [] });
+      await store.store({ content: 'Live memory about caching', category: 'learning', tags: [] });
+
+      await store.delete(doomed.id);
+
+      const results = await store.search('caching', 'semantic', { limit: 10 });
+      expect(results.map(r => r.memory.id)).not.toContain(doomed.id);
+      expect((await store.listRecent(10)).map(m => m.id)).not.toContain(doomed.id);
+
+      const stats = await store.stats();
+      expect(stats.totalMemories).toBe(1);
+      expect(stats.inTrash).toBe(1);
+    });
+
+    it('lists and restores trashed memories', async () => {
+      const memory = await store.store({ content: 'Deleted by mistake', category: 'learning', tags: ['oops'] });
+      await store.delete(memory.id);
+
+      const trash = await store.listTrash();
+      expect(trash).toHaveLength(1);
+      expect(trash[0].id).toBe(memory.id);
+      expect(trash[0].deletedAt).toBeDefined();
+
+      const restored = await store.restore(memory.id);
+      expect(restored).toEqual(memory);
+      expect(await store.listTrash()).toHaveLength(0);
+      expect((await store.stats()).totalMemories).toBe(1);
+    });
+
+    it('cannot update or re-delete a trashed memory', async () => {
+      const memory = await store.store({ content: 'Gone', category: 'learning', tags: [] });
+      await store.delete(memory.id);
+
+      await expect(store.update(memory.id, { content: 'Back?' })).rejects.toThrow(/not found/);
+      await expect(store.delete(memory.id)).rejects.toThrow(/not found/);
+    });
+
+    it('rejects restoring a memory that is not in the trash', async () => {
+      const memory = await store.store({ content: 'Alive', category: 'learning', tags: [] });
+      await expect(store.restore(memory.id)).rejects.toThrow(/not in the trash/);
+    });
+
+    it('emptyTrash permanently removes memories and their history', async () => {
+      const memory = await store.store({ content: 'Version 1', category: 'learning', tags: [] });
+      await store.update(memory.id, { content: 'Version 2' });
+      await store.delete(memory.id);
+
+      const result = await store.emptyTrash({});
+      expect(result).toEqual({ purged: 1, ids: [memory.id] });
+      expect(await store.listTrash()).toHaveLength(0);
+      expect(await store.history(memory.id)).toEqual([]);
+      await expect(store.restore(memory.id)).rejects.toThrow();
+    });
+
+    it('emptyTrash respects olderThanDays', async () => {
+      const memory = await store.store({ content: 'Recently trashed', category: 'learning', tags: [] });
+      await store.delete(memory.id);
+
+      const result = await store.emptyTrash({ olderThanDays: 7 });
+      expect(result.purged).toBe(0);
+      expect(await store.listTrash()).toHaveLength(1);
+    });
+
+    it('purges trash past the retention window on startup', async () => {
+      const memory = await store.store({ content: 'Long forgotten', category: 'learning', tags: [] });
+      await store.delete(memory.id);
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        vi.setSystemTime(Date.now() + 40 * 86_400_000);
+        const reopened = new LanceMemoryStore(dbPath, embedder, { trashRetentionDays: 30 });
+        await reopened.initialize();
+        expect(await reopened.listTrash()).toHaveLength(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('purges expired trash without a restart', async () => {
+      const old = await store.store({ content: 'Long forgotten', category: 'learning', tags: [] });
+      await store.delete(old.id);
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        vi.setSystemTime(Date.now() + 40 * 86_400_000);
+        const recent = await store.store({ content: 'Just trashed', category: 'learning', tags: [] });
+        await store.delete(recent.id);
+        expect((await store.listTrash()).map(m => m.id)).toEqual([recent.id]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('keeps the trash forever when retention is 0', async () => {
+      const memory = await store.store({ content: 'Kept in the trash', category: 'learning', tags: [] });
+      await store.delete(memory.id);
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        vi.setSystemTime(Date.now() + 400 * 86_400_000);
+        const reopened = new LanceMemoryStore(dbPath, embedder, { trashRetentionDays: 0 });
+        await reopened.initialize();
+        expect(await reopened.listTrash()).toHaveLength(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('prune moves candidates to the trash', async () => {
+      const memory = await store.store({ content: 'Prunable', category: 'other', tags: [] });
+
+      await store.prune({ dryRun: false, maxDormantDays: 0, minStrength: 0.0001 });
+
+      const trash = await store.listTrash();
+      expect(trash.map(m => m.id)).toEqual([memory.id]);
+    });
+  });
+
+  // ── Links ───────────────────────────────────────────────────
+
+  describe('links', () => {
+    it('links two memories and lists the link in the graph', async () => {
+      const a = await store.store({ content: 'Use pnpm workspaces', category: 'architecture', tags: [] });
+      const b = await store.store({ content: 'Use npm workspaces', category: 'architecture', tags: [] });
+
+      const link = await store.link(a.id, b.id, 'supersedes');
+      expect(link).toMatchObject({ sourceId: a.id, targetId: b.id, relation: 'supersedes' });
+
+      const graph = await store.getGraph(a.id, 1);
+      expect(graph.nodes.map(n => n.id).sort()).toEqual([a.id, b.id].sort());
+      expect(graph.links).toEqual([link]);
+    });
+
+    it('does not duplicate an identical link', async () => {
+      const a = await store.store({ content: 'A', category: 'learning', tags: [] });
+      const b = await store.store({ content: 'B', category: 'learning', tags: [] });
+
+      const first = await store.link(a.id, b.id, 'explains');
+      const second = await store.link(a.id, b.id, 'explains');
+      expect(second.id).toBe(first.id);
+      expect((await store.getGraph(a.id, 1)).links).toHaveLength(1);
+    });
+
+    it('rejects self links and unknown memories', async () => {
+      const a = await store.store({ content: 'A', category: 'learning', tags: [] });
+      await expect(store.link(a.id, a.id, 'related-to')).rejects.toThrow(/itself/);
+      await expect(store.link(a.id, 'missing', 'related-to')).rejects.toThrow(/not found/);
+    });
+
+    it('follows links in both directions up to the requested depth', async () => {
+      const a = await store.store({ content: 'A', category: 'learning', tags: [] });
+      const b = await store.store({ content: 'B', category: 'learning', tags: [] });
+      const c = await store.store({ content: 'C', category: 'learning', tags: [] });
+      const d = await store.store({ content: 'D', category: 'learning', tags: [] });
+      await store.link(a.id, b.id, 'depends-on');
+      await store.link(c.id, b.id, 'contradicts');
+      await store.link(c.id, d.id, 'explains');
+
+      const oneHop = await store.getGraph(a.id, 1);
+      expect(oneHop.nodes.map(n => n.id).sort()).toEqual([a.id, b.id].sort());
+
+      const twoHops = await store.getGraph(a.id, 2);
+      expect(twoHops.nodes.map(n => n.id).sort()).toEqual([a.id, b.id, c.id].sort());
+      expect(twoHops.links).toHaveLength(2);
+
+      const threeHops = await store.getGraph(a.id, 3);
+      expect(threeHops.nodes).toHaveLength(4);
+      expect(threeHops.links).toHaveLength(3);
+    });
+
+    it('unlinks one relation or all of them', async () => {
+      const a = await store.store({ content: 'A', category: 'learning', tags: [] });
+      const b = await store.store({ content: 'B', category: 'learning', tags: [] });
+      await store.link(a.id, b.id, 'explains');
+      await store.link(a.id, b.id, 'depends-on');
+
+      expect(await store.unlink(a.id, b.id, 'explains')).toBe(1);
+      expect((await store.getGraph(a.id, 1)).links.map(l => l.relation)).toEqual(['depends-on']);
+
+      expect(await store.unlink(a.id, b.id)).toBe(1);
+      expect((await store.getGraph(a.id, 1)).links).toHaveLength(0);
+    });
+
+    it('leaves trashed memories out of the graph', async () => {
+      const a = await store.store({ content: 'A', category: 'learning', tags: [] });
+      const b = await store.store({ content: 'B', category: 'learning', tags: [] });
+      await store.link(a.id, b.id, 'related-to');
+      await store.delete(b.id);
+
+      const graph = await store.getGraph(a.id, 1);
+      expect(graph.nodes.map(n => n.id)).toEqual([a.id]);
+      expect(graph.links).toHaveLength(0);
+
+      await store.restore(b.id);
+      expect((await store.getGraph(a.id, 1)).links).toHaveLength(1);
+    });
+
+    it('emptying the trash removes links to purged memories', async () => {
+      const a = await store.store({ content: 'A', category: 'learning', tags: [] });
+      const b = await store.store({ content: 'B', category: 'learning', tags: [] });
+      await store.link(a.id, b.id, 'related-to');
+      await store.delete(b.id);
+      await store.emptyTrash({});
+
+      expect(await store.unlink(a.id, b.id)).toBe(0);
+    });
+
+    it('findRelated lists linked memories first when asked', async () => {
+      const source = await store.store({ content: 'Memory about search algorithms', category: 'learning', tags: [] });
+      const linked = await store.store({ content: 'Completely different topic: gardening', category: 'other', tags: [] });
+      await store.store({ content: 'Memory about sorting algorithms', category: 'learning', tags: [] });
+      await store.link(linked.id, source.id, 'explains');
+
+      const plain = await store.findRelated(source.id, 5);
+      expect(plain.every(r => r.link === undefined)).toBe(true);
+
+      const merged = await store.findRelated(source.id, 5, { includeLinks: true });
+      expect(merged[0].memory.id).toBe(linked.id);
+      expect(merged[0].link).toEqual({ relation: 'explains', direction: 'incoming' });
+      const ids = merged.map(r => r.memory.id);
+      expect(ids.length).toBe(new Set(ids).size);
+      expect(ids).toHaveLength(2);
+    });
+  });
+
+  // ── Revision history ────────────────────────────────────────
+
+  describe('history and revert', () => {
+    it('has no history for a memory that was never updated', async () => {
+      const memory = await store.store({ content: 'Pristine', category: 'learning', tags: [] });
+      expect(await store.history(memory.id)).toEqual([]);
+    });
+
+    it('records the replaced version with the update reason', async () => {
+      const memory = await store.store({ content: 'Good version', category: 'learning', tags: ['v1'] });
+      await store.update(memory.id, { content: 'Worse version', tags: ['v2'], reason: 'agent rewrite' });
+
+      const history = await store.history(memory.id);
+      expect(history).toHaveLength(1);
+      expect(history[0]).toMatchObject({
+        memoryId: memory.id,
+        content: 'Good version',
+        category: 'learning',
+        tags: ['v1'],
+        updatedAt: memory.updatedAt,
+        reason: 'agent rewrite',
+      });
+    });
+
+    it('lists revisions newest first', async () => {
+      const memory = await store.store({ content: 'Version 1', category: 'learning', tags: [] });
+      await store.update(memory.id, { content: 'Version 2' });
+      await new Promise(r => setTimeout(r, 5));
+      await store.update(memory.id, { content: 'Version 3' });
+
+      const history = await store.history(memory.id);
+      expect(history.map(r => r.content)).toEqual(['Version 2', 'Version 1']);
+    });
+
+    it('reverts to an earlier version and keeps the replaced one', async () => {
+      const memory = await store.store({ content: 'Good version', category: 'learning', tags: ['v1'] });
+      await store.update(memory.id, { content: 'Worse version', category: 'other', tags: [] });
+      const [good] = await store.history(memory.id);
+
+      const reverted = await store.revert(memory.id, good.id);
+      expect(reverted.content).toBe('Good version');
+      expect(reverted.category).toBe('learning');
+      expect(reverted.tags).toEqual(['v1']);
+      expect(reverted.createdAt).toBe(memory.createdAt);
+
+      const history = await store.history(memory.id);
+      expect(history).toHaveLength(2);
+      expect(history[0].content).toBe('Worse version');
+      expect(history[0].reason).toBe(`revert to revision ${good.id}`);
+
+      const stats = await store.stats();
+      expect(stats.totalMemories).toBe(1);
+    });
+
+    it('re-embeds reverted content so search finds it', async () => {
+      const memory = await store.store({ content: 'Kubernetes ingress configuration', category: 'learning', tags: [] });
+      await store.update(memory.id, { content: 'Something unrelated entirely' });
+      const [original] = await store.history(memory.id);
+
+      embedder.callLog.length = 0;
+      await store.revert(memory.id, original.id);
+      expect(embedder.callLog).toContain('Kubernetes ingress configuration');
+    });
+
+    it('rejects unknown revisions', async () => {
+      const memory = await store.store({ content: 'Only version', category: 'learning', tags: [] });
+      await expect(store.revert(memory.id, 'no-such-revision')).rejects.toThrow(/not found/);
+    });
+
+    it('keeps history across store instances', async () => {
+      const memory = await store.store({ content: 'Before restart', category: 'learning', tags: [] });
+      await store.update(memory.id, { content: 'After restart' });
+
+      const reopened = new LanceMemoryStore(dbPath, embedder);
+      await reopened.initialize();
+      const history = await reopened.history(memory.id);
+      expect(history.map(r => r.content)).toEqual(['Before restart']);
+    });
+  });
+
+  // ── Namespaces ──────────────────────────────────────────────
+
+  describe('namespaces', () => {
+    it('stores into the default namespace when none is given', async () => {
+      const memory = await store.store({ content: 'Unscoped', category: 'learning', tags: [] });
+      expect(memory.namespace).toBe('default');
+    });
+
+    it('isolates search and listRecent by namespace', async () => {
+      await store.store({ content: 'Monorepo build uses turborepo', category: 'tool-usage', tags: [], namespace: 'work' });
+      await store.store({ content: 'Personal build of a keyboard', category: 'personal', tags: [], namespace: 'home' });
+
+      const work = await store.search('build', 'semantic', { namespace: 'work', limit: 10 });
+      expect(work.map(r => r.memory.namespace)).toEqual(['work']);
+
+      const recent = await store.listRecent(10, undefined, 'home');
+      expect(recent).toHaveLength(1);
+      expect(recent[0].namespace).toBe('home');
+
+      expect(await store.listRecent(10)).toHaveLength(0);
+    });
+
+    it('searches across namespaces only when opted in', async () => {
+      await store.store({ content: 'Shared fact about caching', category: 'learning', tags: [], namespace: 'a' });
+      await store.store({ content: 'Another fact about caching', category: 'learning', tags: [], namespace: 'b' });
+
+      const scoped = await store.search('caching', 'semantic', { namespace: 'a', limit: 10 });
+      expect(scoped).toHaveLength(1);
+
+      const all = await store.search('caching', 'semantic', { allNamespaces: true, limit: 10 });
+      expect(all.map(r => r.memory.namespace).sort()).toEqual(['a', 'b']);
+    });
+
+    it('findRelated stays within the source namespace', async () => {
+      const source = await store.store({ content: 'Vector search basics', category: 'learning', tags: [], namespace: 'a' });
+      await store.store({ content: 'Vector search tuning', category: 'learning', tags: [], namespace: 'a' });
+      await store.store({ content: 'Vector search elsewhere', category: 'learning', tags: [], namespace: 'b' });
+
+      const related = await store.findRelated(source.id, 5);
+      expect(related.map(r => r.memory.namespace)).toEqual(['a']);
+    });
+
+    it('update keeps the memory in its namespace', async () => {
+      const memory = await store.store({ content: 'Before', category: 'learning', tags: [], namespace: 'work' });
+      const updated = await store.update(memory.id, { content: 'After' });
+      expect(updated.namespace).toBe('work');
+    });
+
+    it('stats break totals down per namespace', async () => {
+      await store.store({ content: 'One', category: 'learning', tags: [], namespace: 'a' });
+      await store.store({ content: 'Two', category: 'learning', tags: [], namespace: 'a' });
+      await store.store({ content: 'Three', category: 'learning', tags: [], namespace: 'b' });
+
+      const all = await store.stats();
+      expect(all.totalMemories).toBe(3);
+      expect(all.byNamespace).toEqual({ a: 2, b: 1 });
+
+      const onlyB = await store.stats('b');
+      expect(onlyB.totalMemories).toBe(1);
+      expect(onlyB.byNamespace).toEqual({ b: 1 });
+    });
+
+    it('prune only inspects the requested namespace', async () => {
+      await store.store({ content: 'One', category: 'learning', tags: [], namespace: 'a' });
+      await store.store({ content: 'Two', category: 'learning', tags: [], namespace: 'b' });
+
+      const scoped = await store.prune({ dryRun: true, namespace: 'a' });
+      expect(scoped.inspected).toBe(1);
+
+      const all = await store.prune({ dryRun: true, allNamespaces: true });
+      expect(all.inspected).toBe(2);
+    });
+
+    it('uses the configured default namespace', async () => {
+      const scopedStore = new LanceMemoryStore(dbPath, embedder, { defaultNamespace: 'project-x' });
+      await scopedStore.initialize();
+      const memory = await scopedStore.store({ content: 'Scoped by config', category: 'learning', tags: [] });
+      expect(memory.namespace).toBe('project-x');
+    });
+
+    it('migrates tables created before namespaces existed', async () => {
+      const legacyPath = await mkdtemp(join(tmpdir(), 'agent-memory-legacy-'));
+      try {
+        const db = await lancedb.connect(legacyPath);
+        const now = new Date().toISOString();
+        await db.createTable('memories', [{
+          id: 'legacy-1',
+          content: 'Stored by an older version',
+          category: 'learning',
+          tags: '[]',
+          created_at: now,
+          updated_at: now,
+          vector: await embedder.embed('Stored by an older version'),
+        }]);
+
+        // Progress goes to stderr: stdout carries the stdio transport and CLI output.
+        const log = vi.spyOn(console, 'log');
+        const progress = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const migrated = new LanceMemoryStore(legacyPath, embedder, { defaultNamespace: 'legacy' });
+        await migrated.initialize();
+        expect(log).not.toHaveBeenCalled();
+        expect(progress).toHaveBeenCalledWith(expect.stringContaining('Migrating schema: adding'));
+
+        const recent = await migrated.listRecent(10);
+        expect(recent).toHaveLength(1);
+        expect(recent[0].namespace).toBe('legacy');
+      } finally {
+        vi.restoreAllMocks();
+        await rm(legacyPath, { recursive: true, force: true });
+      }
+    });
+  });
+
+  // ── Near-duplicates ─────────────────────────────────────────
+
+  describe('near-duplicates', () => {
+    // MockEmbedder vectors of unrelated short strings are still fairly
+    // similar, so these tests use a strict threshold and identical content.
+    function storeWith(policy: 'reject' | 'merge' | 'flag'): LanceMemoryStore {
+      return new LanceMemoryStore(dbPath, embedder, { duplicatePolicy: policy, duplicateThreshold: 0.999 });
+    }
+
+    it('flags a near-duplicate by default but still stores it', async () => {
+      const first = await store.store({ content: 'Use pnpm for installs', category: 'learning', tags: [] });
+      const second = await store.store({ content: 'Use pnpm for installs', category: 'learning', tags: [] });
+
+      expect(second.id).not.toBe(first.id);
+      expect(second.duplicate).toMatchObject({ id: first.id, action: 'flagged' });
+      expect(second.duplicate!.similarity).toBeCloseTo(1, 2);
+      expect((await store.stats()).totalMemories).toBe(2);
+    });
+
+    it('reject returns the existing memory without storing', async () => {
+      const strict = storeWith('reject');
+      await strict.initialize();
+      const first = await strict.store({ content: 'Deploys go out on Tuesdays', category: 'learning', tags: [] });
+      const second = await strict.store({ content: 'Deploys go out on Tuesdays', category: 'learning', tags: ['ops'] });
+
+      expect(second.id).toBe(first.id);
+      expect(second.duplicate).toMatchObject({ id: first.id, action: 'rejected' });
+      expect(second.tags).toEqual([]);
+      expect((await strict.stats()).totalMemories).toBe(1);
+    });
+
+    it('merge adds the new tags to the existing memory and records a revision', async () => {
+      const merging = storeWith('merge');
+      await merging.initialize();
+      const first = await merging.store({ content: 'Cache keys include the locale', category: 'learning', tags: ['cache'] });
+      const second = await merging.store({ content: 'Cache keys include the locale', category: 'learning', tags: ['i18n'] });
+
+      expect(second.id).toBe(first.id);
+      expect(second.duplicate!.action).toBe('merged');
+      expect(second.tags).toEqual(['cache', 'i18n']);
+      expect((await merging.stats()).totalMemories).toBe(1);
+
+      const [revision] = await merging.history(first.id);
+      expect(revision.reason).toBe('merged near-duplicate');
+    });
+
+    it('detects duplicates within a single batch', async () => {
+      const merging = storeWith('merge');
+      await merging.initialize();
+      const memories = await merging.storeBatch([
+        { content: 'Retry with backoff', category: 'learning', tags: ['a'] },
+        { content: 'Something unrelated entirely, much longer text', category: 'learning', tags: [] },
+        { content: 'Retry with backoff', category: 'learning', tags: ['b'] },
+      ]);
+
+      expect(memories[0].tags).toEqual(['a', 'b']);
+      expect(memories[2]).toMatchObject({ id: memories[0].id, duplicate: { action: 'merged' } });
+      expect((await merging.stats()).totalMemories).toBe(2);
+    });
+
+    it('a per-request policy overrides the configured one', async () => {
+      const strict = storeWith('reject');
+      await strict.initialize();
+      await strict.store({ content: 'Same words twice', category: 'learning', tags: [] });
+      const second = await strict.store({ content: 'Same words twice', category: 'learning', tags: [], onDuplicate: 'off' });
+
+      expect(second.duplicate).toBeUndefined();
+      expect((await strict.stats()).totalMemories).toBe(2);
+    });
+
+    it('ignores matches in other namespaces and in the trash', async () => {
+      const strict = storeWith('reject');
+      await strict.initialize();
+      const trashed = await strict.store({ content: 'Shared phrasing', category: 'learning', tags: [] });
+      await strict.delete(trashed.id);
+      await strict.store({ content: 'Shared phrasing', category: 'learning', tags: [], namespace: 'other' });
+
+      const fresh = await strict.store({ content: 'Shared phrasing', category: 'learning', tags: [] });
+      expect(fresh.duplicate).toBeUndefined();
+    });
+  });
+
   // ── Enhanced stats ──────────────────────────────────────────
 
   describe('enhanced stats', () => {
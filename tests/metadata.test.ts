@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import * as lancedb from '@lancedb/lancedb';
+import { matchesMetadata, metadataIndex, validateMetadata } from '../src/metadata.js';
+import { LanceMemoryStore } from '../src/memory-store.js';
+import { MockEmbedder } from './mocks.js';
+import type { MetadataFilter } from '../src/types.js';
+
+const SAMPLE = {
+  repo: 'api',
+  pr: 42,
+  merged: true,
+  owner: { team: 'core', name: "O'Brien" },
+  labels: ['bug', 'p1'],
+  scores: [10, 1],
+  due: '2025-06-01',
+};
+
+// ── Index format ───────────────────────────────────────────────────
+
+describe('metadataIndex', () => {
+  it('writes one line per scalar leaf, with dotted paths and shared array paths', () => {
+    expect(metadataIndex({ repo: 'api', owner: { team: 'core' }, labels: ['a', 'b'] })).toBe(
+      '\n"repo":"api"\n"owner.team":"core"\n"labels":"a"\n"labels":"b"\n',
+    );
+  });
+
+  it('indexes nothing for empty metadata', () => {
+    expect(metadataIndex({}).trim()).toBe('');
+  });
+});
+
+describe('validateMetadata', () => {
+  it('rejects non-objects', () => {
+    expect(() => validateMetadata(['a'])).toThrow(/JSON object/);
+    expect(() => validateMetadata('a')).toThrow(/JSON object/);
+  });
+});
+
+// ── Matching (shared by SQL and in-memory tests) ───────────────────
+
+const CASES: [string, MetadataFilter, boolean][] = [
+  ['equality', { repo: 'api' }, true],
+  ['equality mismatch', { repo: 'web' }, false],
+  ['number equality', { pr: 42 }, true],
+  ['boolean equality', { merged: true }, true],
+  ['nested path', { 'owner.team': 'core' }, true],
+  ['quote in value', { 'owner.name': "O'Brien" }, true],
+  ['array membership', { labels: 'p1' }, true],
+  ['exists', { pr: { exists: true } }, true],
+  ['exists on an object', { owner: { exists: true } }, true],
+  ['not exists', { ticket: { exists: false } }, true],
+  ['numeric range', { pr: { gte: 40, lt: 50 } }, true],
+  ['numeric range mismatch', { pr: { gt: 42 } }, false],
+  ['string range', { due: { gte: '2025-01-01', lte: '2025-12-31' } }, true],
+  ['string range on a missing key', { ticket: { lt: 'zzz' } }, false],
+  ['numeric range on any array element', { scores: { gt: 5 } }, true],
+  ['numeric range on the other array element', { scores: { lt: 5 } }, true],
+  ['numeric range on no array element', { scores: { gt: 10 } }, false],
+  ['each bound on its own array element', { scores: { gt: 5, lt: 5 } }, true],
+  ['string range on any array element', { labels: { lt: 'c' } }, true],
+  ['string range on no array element', { labels: { gt: 'q' } }, false],
+  ['all conditions must hold', { repo: 'api', pr: 7 }, false],
+];
+
+describe('matchesMetadata', () => {
+  for (const [name, filter, expected] of CASES) {
+    it(name, () => {
+      expect(matchesMetadata(SAMPLE, filter)).toBe(expected);
+    });
+  }
+});
+
+// ── LanceDB ────────────────────────────────────────────────────────
+
+describe('LanceMemoryStore metadata', () => {
+  let dbPath: string;
+  let embedder: MockEmbedder;
+  let store: LanceMemoryStore;
+
+  beforeEach(async () => {
+    dbPath = await mkdtemp(join(tmpdir(), 'agent-memory-metadata-'));
+    embedder = new MockEmbedder();
+    store = new LanceMemoryStore(dbPath, embedder, { duplicatePolicy: 'off' });
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    await rm(dbPath, { recursive: true, force: true });
+  });
+
+  it('stores and returns metadata', async () => {
+    const memory = await store.store({ content: 'Flaky test in CI', category: 'bug-fix', tags: [], metadata: SAMPLE });
+    expect(memory.metadata).toEqual(SAMPLE);
+
+    const [recent] = await store.listRecent(1);
+    expect(recent.metadata).toEqual(SAMPLE);
+  });
+
+  describe('search filters are applied in the query', () => {
+    beforeEach(async () => {
+      await store.store({ content: 'Flaky test in CI', category: 'bug-fix', tags: [], metadata: SAMPLE });
+      await store.store({ content: 'Flaky test in CI again', category: 'bug-fix', tags: [], metadata: { repo: 'web', pr: 7 } });
+    });
+
+    for (const [name, filter, expected] of CASES) {
+      it(name, async () => {
+        const results = await store.search('flaky', 'semantic', { metadata: filter });
+        const matched = results.some(r => r.memory.metadata.repo === 'api');
+        expect(matched).toBe(expected);
+        expect(results.every(r => matchesMetadata(r.memory.metadata, filter))).toBe(true);
+      });
+    }
+  });
+
+  it('update replaces metadata and revert restores it', async () => {
+    const memory = await store.store({ content: 'Deploy notes', category: 'learning', tags: [], metadata: { repo: 'api' } });
+    await store.update(memory.id, { metadata: { repo: 'web' } });
+
+    expect(await store.search('deploy', 'semantic', { metadata: { repo: 'api' } })).toHaveLength(0);
+
+    const [revision] = await store.history(memory.id);
+    expect(revision.metadata).toEqual({ repo: 'api' });
+    const reverted = await store.revert(memory.id, revision.id);
+    expect(reverted.metadata).toEqual({ repo: 'api' });
+    expect(await store.search('deploy', 'semantic', { metadata: { repo: 'api' } })).toHaveLength(1);
+  });
+
+  it('survives an export / import round trip', async () => {
+    await store.store({ content: 'Portable', category: 'learning', tags: [], metadata: { ticket: 'ENG-1' } });
+    const [exported] = await store.exportMemories({});
+    expect(exported.metadata).toEqual({ ticket: 'ENG-1' });
+
+    const targetPath = await mkdtemp(join(tmpdir(), 'agent-memory-metadata-import-'));
+    try {
+      const target = new LanceMemoryStore(targetPath, embedder);
+      await target.initialize();
+      await target.importMemories([exported], {});
+      expect(await target.search('portable', 'semantic', { metadata: { ticket: 'ENG-1' } })).toHaveLength(1);
+    } finally {
+      await rm(targetPath, { recursive: true, force: true });
+    }
+  });
+
+  it('migrates tables created before metadata existed', async () => {
+    const legacyPath = await mkdtemp(join(tmpdir(), 'agent-memory-legacy-metadata-'));
+    try {
+      const db = await lancedb.connect(legacyPath);
+      const now = new Date().toISOString();
+      await db.createTable('memories', [{
+        id: 'legacy-1',
+        namespace: 'default',
+        content: 'Stored without metadata',
+        category: 'learning',
+        tags: '[]',
+        created_at: now,
+        updated_at: now,
+        vector: await embedder.embed('Stored without metadata'),
+        access_count: 0,
+        last_accessed_at: now,
+        deleted_at: '',
+      }]);
+      await db.createTable('memory_revisions', [{
+        id: 'rev-1',
+        memory_id: 'legacy-1',
+        content: 'Older',
+        category: 'learning',
+        tags: '[]',
+        updated_at: now,
+        superseded_at: now,
+        reason: '',
+      }]);
+
+      const migrated = new LanceMemoryStore(legacyPath, embedder);
+      await migrated.initialize();
+
+      const [memory] = await migrated.listRecent(1);
+      expect(memory.metadata).toEqual({});
+      expect((await migrated.history('legacy-1'))[0].metadata).toEqual({});
+
+      await migrated.update('legacy-1', { metadata: { repo: 'api' } });
+      expect(await migrated.search('stored', 'semantic', { metadata: { repo: 'api' } })).toHaveLength(1);
+    } finally {
+      await rm(legacyPath, { recursive: true, force: true });
+    }
+  });
+});
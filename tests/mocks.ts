@@ -1,16 +1,45 @@
-import type {
-  Embedder,
-  Memory,
-  MemoryCategory,
-  MemoryStore,
-  MemoryStats,
-  PruneOptions,
-  PruneResult,
-  SearchFilters,
-  SearchMode,
-  SearchResult,
-  StoreRequest,
-  UpdateRequest,
+import { proposeMerge } from '../src/consolidation.js';
+import { matchesMetadata } from '../src/metadata.js';
+import { matchesTags, replaceTags } from '../src/tags.js';
+import {
+  DEFAULT_NAMESPACE,
+  type ArchivedMemory,
+  type ConsolidateOptions,
+  type ConsolidateResult,
+  type ConsolidationCluster,
+  type DuplicatePolicy,
+  type Embedder,
+  type EmptyTrashOptions,
+  type EmptyTrashResult,
+  type ExportOptions,
+  type FindRelatedOptions,
+  type ImportOptions,
+  type ImportResult,
+  type LinkRelation,
+  type Memory,
+  type MemoryCategory,
+  type MemoryGraph,
+  type MemoryLink,
+  type MemoryRevision,
+  type MemoryStore,
+  type MemoryStats,
+  type PruneOptions,
+  type PruneResult,
+  type RecategorizeOptions,
+  type RecategorizeResult,
+  type ReembedOptions,
+  type ReembedResult,
+  type Reranker,
+  type RetagOptions,
+  type RetagResult,
+  type SearchFilters,
+  type SearchMode,
+  type SearchResult,
+  type StoreRequest,
+  type StoredMemory,
+  type TagUsage,
+  type TrashedMemory,
+  type UpdateRequest,
 } from '../src/types.js';
 
 // ── MockEmbedder ───────────────────────────────────────────────────
@@ -34,6 +63,10 @@ export class MockEmbedder implements Embedder {
     return 384;
   }
 
+  modelId(): string {
+    return 'mock';
+  }
+
   private deterministicVector(text: string): number[] {
     // Simple hash-based pseudo-vector for deterministic testing.
     const vector = new Array<number>(384).fill(0);
@@ -46,6 +79,27 @@ export class MockEmbedder implements Embedder {
   }
 }
 
+// ── MockReranker ───────────────────────────────────────────────────
+// Scores a document by the share of query words it contains. Records
+// how many documents each call scored.
+
+export class MockReranker implements Reranker {
+  readonly batchSizes: number[] = [];
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    this.batchSizes.push(documents.length);
+    const terms = query.toLowerCase().split(/\W+/).filter(Boolean);
+    return documents.map(doc => {
+      const text = doc.toLowerCase();
+      return terms.filter(t => text.includes(t)).length / terms.length;
+    });
+  }
+
+  modelId(): string {
+    return 'mock-reranker';
+  }
+}
+
 // ── MockMemoryStore ────────────────────────────────────────────────
 // In-memory store with substring matching for search. Validates that
 // tool handlers interact correctly with the MemoryStore interface
@@ -53,16 +107,36 @@ export class MockEmbedder implements Embedder {
 
 export class MockMemoryStore implements MemoryStore {
   memories: Memory[] = [];
+  revisions: MemoryRevision[] = [];
+  trash: TrashedMemory[] = [];
+  links: MemoryLink[] = [];
+  duplicatePolicy: DuplicatePolicy = 'flag';
 
   async initialize(): Promise<void> {}
 
-  async store(request: StoreRequest): Promise<Memory> {
+  async store(request: StoreRequest): Promise<StoredMemory> {
+    // Near-duplicates are exact content matches in the same namespace.
     const memory = this.buildMemory(request);
-    this.memories.push(memory);
-    return memory;
+    const policy = request.onDuplicate ?? this.duplicatePolicy;
+    const existing = policy === 'off'
+      ? undefined
+      : this.memories.find(m => m.namespace === memory.namespace && m.content === memory.content);
+    if (!existing) {
+      this.memories.push(memory);
+      return memory;
+    }
+    if (policy === 'flag') {
+      this.memories.push(memory);
+      return { ...memory, duplicate: { id: existing.id, similarity: 1, action: 'flagged' } };
+    }
+    if (policy === 'merge') {
+      existing.tags = [...new Set([...existing.tags, ...memory.tags])];
+    }
+    const action = policy === 'merge' ? 'merged' : 'rejected';
+    return { ...existing, duplicate: { id: existing.id, similarity: 1, action } };
   }
 
-  async storeBatch(requests: StoreRequest[]): Promise<Memory[]> {
+  async storeBatch(requests: StoreRequest[]): Promise<StoredMemory[]> {
     return Promise.all(requests.map(r => this.store(r)));
   }
 
@@ -79,17 +153,27 @@ export class MockMemoryStore implements MemoryStore {
     return results.slice(0, limit).map(m => ({ memory: m, score: 0.9 }));
   }
 
-  async findRelated(memoryId: string, limit: number): Promise<SearchResult[]> {
+  async findRelated(memoryId: string, limit: number, options: FindRelatedOptions = {}): Promise<SearchResult[]> {
     const target = this.memories.find(m => m.id === memoryId);
     if (!target) throw new Error(`Memory ${memoryId} not found`);
-    return this.memories
-      .filter(m => m.id !== memoryId)
-      .slice(0, limit)
+    const linked: SearchResult[] = options.includeLinks
+      ? this.links
+        .filter(l => l.sourceId === memoryId)
+        .map(l => ({
+          memory: this.memories.find(m => m.id === l.targetId)!,
+          score: 1,
+          link: { relation: l.relation, direction: 'outgoing' as const },
+        }))
+      : [];
+    const similar = this.memories
+      .filter(m => m.id !== memoryId && !linked.some(r => r.memory.id === m.id))
       .map(m => ({ memory: m, score: 0.5 }));
+    return [...linked, ...similar].slice(0, limit);
   }
 
-  async listRecent(limit: number, category?: MemoryCategory): Promise<Memory[]> {
-    let results = [...this.memories];
+  async listRecent(limit: number, category?: MemoryCategory, namespace?: string): Promise<Memory[]> {
+    const ns = namespace ?? DEFAULT_NAMESPACE;
+    let results = this.memories.filter(m => m.namespace === ns);
     if (category) {
       results = results.filter(m => m.category === category);
     }
@@ -103,12 +187,25 @@ export class MockMemoryStore implements MemoryStore {
     if (index === -1) throw new Error(`Memory ${id} not found`);
 
     const existing = this.memories[index];
+    const now = new Date().toISOString();
+    this.revisions.push({
+      id: crypto.randomUUID(),
+      memoryId: id,
+      content: existing.content,
+      category: existing.category,
+      tags: existing.tags,
+      metadata: existing.metadata,
+      updatedAt: existing.updatedAt,
+      supersededAt: now,
+      reason: updates.reason ?? '',
+    });
     const updated: Memory = {
       ...existing,
       content: updates.content ?? existing.content,
       category: updates.category ?? existing.category,
       tags: updates.tags ?? existing.tags,
-      updatedAt: new Date().toISOString(),
+      metadata: updates.metadata ?? existing.metadata,
+      updatedAt: now,
     };
     this.memories[index] = updated;
     return updated;
@@ -117,23 +214,99 @@ export class MockMemoryStore implements MemoryStore {
   async delete(id: string): Promise<void> {
     const index = this.memories.findIndex(m => m.id === id);
     if (index === -1) throw new Error(`Memory ${id} not found`);
-    this.memories.splice(index, 1);
+    const [memory] = this.memories.splice(index, 1);
+    this.trash.push({ ...memory, deletedAt: new Date().toISOString() });
+  }
+
+  async link(sourceId: string, targetId: string, relation: LinkRelation): Promise<MemoryLink> {
+    for (const id of [sourceId, targetId]) {
+      if (!this.memories.some(m => m.id === id)) throw new Error(`Memory ${id} not found`);
+    }
+    const link: MemoryLink = {
+      id: crypto.randomUUID(),
+      sourceId,
+      targetId,
+      relation,
+      createdAt: new Date().toISOString(),
+    };
+    this.links.push(link);
+    return link;
+  }
+
+  async unlink(sourceId: string, targetId: string, relation?: LinkRelation): Promise<number> {
+    const before = this.links.length;
+    this.links = this.links.filter(l =>
+      !(l.sourceId === sourceId && l.targetId === targetId && (!relation || l.relation === relation)),
+    );
+    return before - this.links.length;
+  }
+
+  async getGraph(memoryId: string, depth: number): Promise<MemoryGraph> {
+    const root = this.memories.find(m => m.id === memoryId);
+    if (!root) throw new Error(`Memory ${memoryId} not found`);
+    const links = this.links.filter(l => l.sourceId === memoryId || l.targetId === memoryId);
+    const ids = new Set(links.flatMap(l => [l.sourceId, l.targetId]));
+    const nodes = this.memories.filter(m => m.id === memoryId || ids.has(m.id));
+    return { rootId: memoryId, depth, nodes, links };
+  }
+
+  async listTrash(namespace?: string): Promise<TrashedMemory[]> {
+    const ns = namespace ?? DEFAULT_NAMESPACE;
+    return this.trash.filter(m => m.namespace === ns);
+  }
+
+  async restore(id: string): Promise<Memory> {
+    const index = this.trash.findIndex(m => m.id === id);
+    if (index === -1) throw new Error(`Memory ${id} is not in the trash`);
+    const [{ deletedAt: _deletedAt, ...memory }] = this.trash.splice(index, 1);
+    this.memories.push(memory);
+    return memory;
+  }
+
+  async emptyTrash(options: EmptyTrashOptions = {}): Promise<EmptyTrashResult> {
+    const ns = options.namespace ?? DEFAULT_NAMESPACE;
+    const purged = this.trash.filter(m => options.allNamespaces || m.namespace === ns);
+    this.trash = this.trash.filter(m => !purged.includes(m));
+    return { purged: purged.length, ids: purged.map(m => m.id) };
+  }
+
+  async history(id: string): Promise<MemoryRevision[]> {
+    return this.revisions.filter(r => r.memoryId === id).reverse();
+  }
+
+  async revert(id: string, revisionId: string): Promise<Memory> {
+    const revision = this.revisions.find(r => r.id === revisionId && r.memoryId === id);
+    if (!revision) throw new Error(`Revision ${revisionId} not found for memory ${id}`);
+    return this.update(id, {
+      content: revision.content,
+      category: revision.category,
+      tags: revision.tags,
+      metadata: revision.metadata,
+      reason: `revert to revision ${revisionId}`,
+    });
   }
 
-  async stats(): Promise<MemoryStats> {
+  async stats(namespace?: string): Promise<MemoryStats> {
+    const memories = namespace
+      ? this.memories.filter(m => m.namespace === namespace)
+      : this.memories;
     const byCategory: Record<string, number> = {};
-    for (const m of this.memories) {
+    const byNamespace: Record<string, number> = {};
+    for (const m of memories) {
       byCategory[m.category] = (byCategory[m.category] ?? 0) + 1;
+      byNamespace[m.namespace] = (byNamespace[m.namespace] ?? 0) + 1;
     }
-    const sorted = [...this.memories].sort((a, b) =>
+    const sorted = [...memories].sort((a, b) =>
       a.createdAt.localeCompare(b.createdAt),
     );
     return {
-      totalMemories: this.memories.length,
+      totalMemories: memories.length,
       byCategory,
+      byNamespace,
+      inTrash: this.trash.length,
       oldestMemory: sorted[0]?.createdAt ?? null,
       newestMemory: sorted.at(-1)?.createdAt ?? null,
-      neverAccessed: this.memories.length,
+      neverAccessed: memories.length,
       belowPruneThreshold: 0,
       avgAccessCount: 0,
       mostAccessed: [],
@@ -150,14 +323,169 @@ export class MockMemoryStore implements MemoryStore {
     };
   }
 
+  async recategorize(options: RecategorizeOptions): Promise<RecategorizeResult> {
+    const { dryRun = true } = options;
+    const ns = options.namespace ?? DEFAULT_NAMESPACE;
+    const matches = [...this.memories, ...this.trash].filter(m =>
+      options.from.includes(m.category) && m.category !== options.to &&
+      (options.allNamespaces || m.namespace === ns),
+    );
+
+    const result: RecategorizeResult = { dryRun, updated: 0, byCategory: {}, ids: [] };
+    for (const m of matches) {
+      result.byCategory[m.category] = (result.byCategory[m.category] ?? 0) + 1;
+      result.ids.push(m.id);
+      if (!dryRun) {
+        m.category = options.to;
+        m.updatedAt = new Date().toISOString();
+        result.updated++;
+      }
+    }
+    return result;
+  }
+
+  async reembed(options: ReembedOptions = {}): Promise<ReembedResult> {
+    // Mock vectors are computed on demand, so there is nothing to rebuild.
+    const total = this.memories.length + this.trash.length;
+    await options.onProgress?.({ done: total, total });
+    return { model: 'mock', dimensions: 384, total, reembedded: total, resumed: 0 };
+  }
+
+  async listTags(namespace?: string): Promise<TagUsage[]> {
+    const usage = new Map<string, TagUsage>();
+    for (const m of this.memories.filter(m => !namespace || m.namespace === namespace)) {
+      for (const tag of m.tags) {
+        const entry = usage.get(tag) ?? { tag, count: 0, lastUsedAt: m.updatedAt };
+        entry.count++;
+        if (m.updatedAt > entry.lastUsedAt) entry.lastUsedAt = m.updatedAt;
+        usage.set(tag, entry);
+      }
+    }
+    return [...usage.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  async renameTag(options: RetagOptions): Promise<RetagResult> {
+    const taken = [...this.memories, ...this.trash].some(m =>
+      m.tags.includes(options.to) && (!options.namespace || m.namespace === options.namespace),
+    );
+    if (taken && !options.from.includes(options.to)) {
+      throw new Error(`Tag "${options.to}" is already in use — use merge_tags to combine tags`);
+    }
+    return this.mergeTags(options);
+  }
+
+  async mergeTags(options: RetagOptions): Promise<RetagResult> {
+    const { dryRun = true, to } = options;
+    const sources = options.from.filter(tag => tag !== to);
+    const matches = [...this.memories, ...this.trash].filter(m =>
+      m.tags.some(t => sources.includes(t)) && (!options.namespace || m.namespace === options.namespace),
+    );
+
+    const result: RetagResult = { dryRun, to, updated: 0, byTag: {}, ids: [] };
+    for (const m of matches) {
+      for (const tag of m.tags.filter(t => sources.includes(t))) {
+        result.byTag[tag] = (result.byTag[tag] ?? 0) + 1;
+      }
+      result.ids.push(m.id);
+      if (!dryRun) {
+        m.tags = replaceTags(m.tags, sources, to);
+        m.updatedAt = new Date().toISOString();
+        result.updated++;
+      }
+    }
+    return result;
+  }
+
+  async consolidate(options: ConsolidateOptions = {}): Promise<ConsolidateResult> {
+    // Clusters are memories with identical content in the same category.
+    const { dryRun = true } = options;
+    const scope = this.applyFilters(this.memories, {
+      namespace: options.namespace,
+      category: options.category,
+      tags: options.tags,
+    });
+    const groups = new Map<string, Memory[]>();
+    for (const m of scope) {
+      const key = `${m.category}\u0000${m.content}`;
+      groups.set(key, [...(groups.get(key) ?? []), m]);
+    }
+
+    const result: ConsolidateResult = { dryRun, inspected: scope.length, clusters: [], replaced: 0 };
+    for (const members of groups.values()) {
+      if (members.length < 2) continue;
+      const proposed = proposeMerge(members.map(m => ({ ...m, accessCount: 0, vector: [] })));
+      const cluster: ConsolidationCluster = { memoryIds: members.map(m => m.id), similarity: 1, proposed };
+      if (!dryRun) {
+        cluster.merged = {
+          ...this.buildMemory({ ...proposed, namespace: members[0].namespace }),
+          createdAt: proposed.createdAt,
+        };
+        this.memories.push(cluster.merged);
+        for (const m of members) {
+          await this.delete(m.id);
+          result.replaced++;
+        }
+      }
+      result.clusters.push(cluster);
+    }
+    return result;
+  }
+
+  async exportMemories(options: ExportOptions = {}): Promise<ArchivedMemory[]> {
+    const ns = options.namespace ?? DEFAULT_NAMESPACE;
+    return [...this.memories, ...(options.includeTrash ? this.trash : [])]
+      .filter(m => options.allNamespaces || m.namespace === ns)
+      .map(m => ({ ...m, accessCount: 0, lastAccessedAt: m.updatedAt }));
+  }
+
+  async importMemories(records: ArchivedMemory[], options: ImportOptions = {}): Promise<ImportResult> {
+    const { strategy = 'skip' } = options;
+    const result: ImportResult = { imported: 0, overwritten: 0, skipped: 0, reembedded: 0, ids: [] };
+    if (options.replace) {
+      this.memories = [];
+      this.trash = [];
+    }
+    for (const { accessCount: _a, lastAccessedAt: _l, vector: _v, deletedAt, ...memory } of records) {
+      const current = [...this.memories, ...this.trash].find(m => m.id === memory.id);
+      if (current && !(strategy === 'overwrite' || (strategy === 'newer-wins' && memory.updatedAt > current.updatedAt))) {
+        result.skipped++;
+        continue;
+      }
+      if (current) {
+        this.memories = this.memories.filter(m => m.id !== memory.id);
+        this.trash = this.trash.filter(m => m.id !== memory.id);
+        this.revisions.push({
+          id: crypto.randomUUID(),
+          memoryId: current.id,
+          content: current.content,
+          category: current.category,
+          tags: current.tags,
+          metadata: current.metadata,
+          updatedAt: current.updatedAt,
+          supersededAt: new Date().toISOString(),
+          reason: 'import',
+        });
+        result.overwritten++;
+      } else {
+        result.imported++;
+      }
+      if (deletedAt) this.trash.push({ ...memory, deletedAt });
+      else this.memories.push(memory);
+      result.ids.push(memory.id);
+    }
+    return result;
+  }
+
   // ── Helpers ──
 
   private buildMemory(request: StoreRequest): Memory {
     return {
       id: crypto.randomUUID(),
+      namespace: request.namespace ?? DEFAULT_NAMESPACE,
       content: request.content,
       category: request.category,
       tags: [...request.tags],
+      metadata: request.metadata ?? {},
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
@@ -165,13 +493,16 @@ export class MockMemoryStore implements MemoryStore {
 
   private applyFilters(memories: Memory[], filters: SearchFilters): Memory[] {
     let results = memories;
+    if (!filters.allNamespaces) {
+      const ns = filters.namespace ?? DEFAULT_NAMESPACE;
+      results = results.filter(m => m.namespace === ns);
+    }
     if (filters.category) {
       results = results.filter(m => m.category === filters.category);
     }
-    if (filters.tags && filters.tags.length > 0) {
-      results = results.filter(m =>
-        filters.tags!.some(t => m.tags.includes(t)),
-      );
+    results = results.filter(m => matchesTags(m.tags, filters));
+    if (filters.metadata) {
+      results = results.filter(m => matchesMetadata(m.metadata, filters.metadata!));
     }
     if (filters.after) {
       results = results.filter(m => m.createdAt >= filters.after!);
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import * as lancedb from '@lancedb/lancedb';
+import { cosineSimilarity } from '../src/consolidation.js';
+import { HashEmbedder } from '../src/embedder.js';
+import { LanceMemoryStore } from '../src/memory-store.js';
+import { MockEmbedder } from './mocks.js';
+import type { ReembedProgress } from '../src/types.js';
+
+/** A HashEmbedder whose embedBatch fails on the given call, to interrupt a run. */
+class FlakyEmbedder extends HashEmbedder {
+  private calls = 0;
+
+  constructor(dimensions: number, private readonly failOnCall: number) {
+    super(dimensions);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (++this.calls === this.failOnCall) throw new Error('embedding server went away');
+    return super.embedBatch(texts);
+  }
+}
+
+describe('LanceMemoryStore reembed', () => {
+  let dbPath: string;
+  let store: LanceMemoryStore;
+
+  beforeEach(async () => {
+    dbPath = await mkdtemp(join(tmpdir(), 'agent-memory-reembed-'));
+    store = new LanceMemoryStore(dbPath, new MockEmbedder(), { duplicatePolicy: 'off' });
+    await store.initialize();
+    await store.storeBatch(Array.from({ length: 5 }, (_, i) => ({
+      content: `Deploy note number ${i}`,
+      category: 'learning' as const,
+      tags: [`t${i}`],
+    })));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dbPath, { recursive: true, force: true });
+  });
+
+  async function reopen(embedder: HashEmbedder | MockEmbedder): Promise<LanceMemoryStore> {
+    const reopened = new LanceMemoryStore(dbPath, embedder, { duplicatePolicy: 'off' });
+    await reopened.initialize();
+    return reopened;
+  }
+
+  it('records the model that made the vectors', async () => {
+    expect((await store.stats()).embedding).toEqual({
+      model: 'mock', dimensions: 384, storedModel: 'mock', storedDimensions: 384, stale: false,
+    });
+  });
+
+  it('detects a model change on initialize', async () => {
+    const warn = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const switched = await reopen(new HashEmbedder(384));
+
+    expect((await switched.stats()).embedding).toMatchObject({ model: 'hash', storedModel: 'mock', stale: true });
+    expect(warn).toHaveBeenCalledWith(expect.stringMatching(/made by mock .* embedder is hash .*Run reembed/));
+  });
+
+  it('rebuilds every vector and keeps everything else', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const [victim] = await store.listRecent(1);
+    await store.delete(victim.id);
+    const before = await store.exportMemories({ includeVectors: false });
+
+    const switched = await reopen(new HashEmbedder(384));
+    const progress: ReembedProgress[] = [];
+    const result = await switched.reembed({ batchSize: 2, onProgress: p => { progress.push(p); } });
+
+    expect(result).toEqual({ model: 'hash', dimensions: 384, total: 5, reembedded: 5, resumed: 0 });
+    expect(progress.map(p => p.done)).toEqual([0, 2, 4, 5]);
+    expect((await switched.stats()).embedding?.stale).toBe(false);
+    expect(await switched.exportMemories({ includeVectors: false })).toEqual(before);
+    expect((await switched.listTrash()).map(m => m.id)).toEqual([victim.id]);
+
+    const [exported] = await switched.exportMemories({});
+    const expected = await new HashEmbedder(384).embed(exported.content);
+    expect(cosineSimilarity(exported.vector!, expected)).toBeCloseTo(1, 5);
+    expect(await switched.search('deploy note', 'keyword', {})).toHaveLength(4);
+  });
+
+  it('refuses to embed into vectors of another size until reembedded', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const switched = await reopen(new HashEmbedder(768));
+    await expect(switched.store({ content: 'New', category: 'learning', tags: [] })).rejects.toThrow(/Run reembed/);
+
+    await switched.reembed();
+    expect((await switched.stats()).embedding).toMatchObject({ storedModel: 'hash', storedDimensions: 768, stale: false });
+    await switched.store({ content: 'Deploy note after the switch', category: 'learning', tags: [] });
+    expect(await switched.search('deploy note', 'semantic', {})).toHaveLength(6);
+
+    // The stamp survives a restart.
+    expect((await (await reopen(new HashEmbedder(768))).stats()).embedding?.stale).toBe(false);
+  });
+
+  it('resumes an interrupted run, redoing memories edited in between', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const interrupted = await reopen(new FlakyEmbedder(768, 3));
+    await expect(interrupted.reembed({ batchSize: 2 })).rejects.toThrow(/went away/);
+
+    // The first two batches are staged; one of their memories is then edited.
+    const db = await lancedb.connect(dbPath);
+    const staged = await (await db.openTable('memories_reembed')).query().toArray();
+    expect(staged).toHaveLength(4);
+    const edited = staged[0].id as string;
+    await (await db.openTable('memories')).update({ where: `id = '${edited}'`, values: { content: 'Edited meanwhile' } });
+
+    const resumed = await reopen(new HashEmbedder(768));
+    const result = await resumed.reembed({ batchSize: 2 });
+    expect(result).toMatchObject({ total: 5, resumed: 3, reembedded: 2 });
+    expect(await db.tableNames()).toEqual(['memories']);
+
+    const memories = await resumed.exportMemories({});
+    const editedMemory = memories.find(m => m.id === edited)!;
+    const expected = await new HashEmbedder(768).embed('Edited meanwhile');
+    expect(cosineSimilarity(editedMemory.vector!, expected)).toBeCloseTo(1, 5);
+  });
+
+  it('discards a staging table made for a different model', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await expect((await reopen(new FlakyEmbedder(768, 2))).reembed({ batchSize: 2 })).rejects.toThrow();
+
+    const result = await (await reopen(new HashEmbedder(512))).reembed({ batchSize: 2 });
+    expect(result).toMatchObject({ dimensions: 512, resumed: 0, reembedded: 5 });
+  });
+
+  it('finishes a swap interrupted after the memories table was dropped', async () => {
+    const db = await lancedb.connect(dbPath);
+    const rows = await (await db.openTable('memories')).query().toArray();
+    const data = lancedb.makeArrowTable(rows.map(row => ({ ...row, vector: Array.from(row.vector as Iterable<number>) })));
+    data.schema.metadata.set('embedding_model', 'mock');
+    await db.createTable('memories_next', data);
+    await db.dropTable('memories');
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const recovered = await reopen(new MockEmbedder());
+    expect((await recovered.stats()).totalMemories).toBe(5);
+    expect(await db.tableNames()).toEqual(['memories']);
+  });
+
+  it('trusts tables from before the model was recorded when the size fits', async () => {
+    const legacyPath = await mkdtemp(join(tmpdir(), 'agent-memory-legacy-reembed-'));
+    try {
+      const db = await lancedb.connect(legacyPath);
+      const embedder = new MockEmbedder();
+      const now = new Date().toISOString();
+      await db.createTable('memories', [{
+        id: 'legacy-1', namespace: 'default', content: 'Old', category: 'learning', tags: '[]',
+        created_at: now, updated_at: now, vector: await embedder.embed('Old'),
+        access_count: 0, last_accessed_at: now, deleted_at: '',
+      }]);
+
+      const legacy = new LanceMemoryStore(legacyPath, embedder);
+      await legacy.initialize();
+      expect((await legacy.stats()).embedding).toMatchObject({ storedModel: null, storedDimensions: 384, stale: false });
+
+      await legacy.reembed();
+      expect((await legacy.stats()).embedding?.storedModel).toBe('mock');
+    } finally {
+      await rm(legacyPath, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { HashEmbedder } from '../src/embedder.js';
+import { LanceMemoryStore } from '../src/memory-store.js';
+import { parseRerank, rerankResults } from '../src/reranker.js';
+import type { SearchResult } from '../src/types.js';
+import { MockReranker } from './mocks.js';
+
+// ── Configuration ──────────────────────────────────────────────────
+
+describe('parseRerank', () => {
+  it('defaults to off with 30 candidates', () => {
+    expect(parseRerank(undefined, undefined)).toEqual({ enabled: false, candidates: 30 });
+    expect(parseRerank('true', '50')).toEqual({ enabled: true, candidates: 50 });
+  });
+
+  it('rejects invalid candidate counts', () => {
+    expect(() => parseRerank(undefined, '0')).toThrow(/RERANK_CANDIDATES/);
+  });
+});
+
+// ── Re-scoring ─────────────────────────────────────────────────────
+
+describe('rerankResults', () => {
+  function result(id: string, content: string, score: number, passage?: string): SearchResult {
+    const memory = { id, namespace: 'default', content, category: 'learning', tags: [], metadata: {}, createdAt: '', updatedAt: '' };
+    return { memory, score, ...(passage && { passage: { text: passage, chunk: 0, start: 0, end: passage.length } }) };
+  }
+
+  it('orders by reranker score, keeps the retrieval score and applies the limit', async () => {
+    const results = [
+      result('a', 'redis cache', 0.9),
+      result('b', 'redis cache warmed at boot', 0.5),
+      result('c', 'unrelated', 0.4),
+    ];
+    const reranked = await rerankResults(new MockReranker(), 'cache warmed boot', results, 2);
+    expect(reranked.map(r => [r.memory.id, r.score, r.rerankScore])).toEqual([
+      ['b', 0.5, 1],
+      ['a', 0.9, 1 / 3],
+    ]);
+  });
+
+  it('judges long memories by their matched passage', async () => {
+    const reranker = new MockReranker();
+    const results = [result('a', 'long document about many things', 0.5, 'the cache is warmed')];
+    const [reranked] = await rerankResults(reranker, 'cache warmed', results, 10);
+    expect(reranked.rerankScore).toBe(1);
+  });
+});
+
+// ── LanceDB ────────────────────────────────────────────────────────
+
+describe('LanceMemoryStore reranking', () => {
+  let dbPath: string;
+  let reranker: MockReranker;
+
+  beforeEach(async () => {
+    dbPath = await mkdtemp(join(tmpdir(), 'agent-memory-rerank-'));
+    reranker = new MockReranker();
+  });
+
+  afterEach(async () => {
+    await rm(dbPath, { recursive: true, force: true });
+  });
+
+  async function open(options: ConstructorParameters<typeof LanceMemoryStore>[2] = {}) {
+    const store = new LanceMemoryStore(dbPath, new HashEmbedder(), { duplicatePolicy: 'off', ...options });
+    await store.initialize();
+    for (let i = 0; i < 6; i++) {
+      await store.store({ content: `Deploy note ${i}: deploys happen weekly`, category: 'learning', tags: [] });
+    }
+    await store.store({ content: 'Production deploys are frozen over the holidays', category: 'learning', tags: [] });
+    return store;
+  }
+
+  it('re-scores a wider candidate set in every mode when asked', async () => {
+    const store = await open({ reranker, rerank: { enabled: false, candidates: 20 } });
+
+    for (const mode of ['semantic', 'keyword', 'hybrid'] as const) {
+      const [top] = await store.search('deploys frozen holidays', mode, { limit: 1, rerank: true });
+      expect(top.memory.content).toBe('Production deploys are frozen over the holidays');
+      expect(top.rerankScore).toBe(1);
+      expect(top.score).toBeGreaterThan(0);
+    }
+    expect(reranker.batchSizes.every(n => n > 1)).toBe(true);
+  });
+
+  it('follows the store default unless the call says otherwise', async () => {
+    const store = await open({ reranker, rerank: { enabled: true, candidates: 20 } });
+
+    const [reranked] = await store.search('deploys', 'semantic', { limit: 1 });
+    expect(reranked.rerankScore).toBeDefined();
+    const [plain] = await store.search('deploys', 'semantic', { limit: 1, rerank: false });
+    expect(plain.rerankScore).toBeUndefined();
+    expect(reranker.batchSizes).toHaveLength(1);
+  });
+
+  it('fails a rerank request when no reranker is configured', async () => {
+    const store = await open();
+    await expect(store.search('deploys', 'semantic', { rerank: true })).rejects.toThrow(/Reranking is not configured/);
+    expect(await store.search('deploys', 'semantic', {})).not.toHaveLength(0);
+  });
+});
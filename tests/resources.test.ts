@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { NotifyingMemoryStore } from '../src/notifying-store.js';
+import { categoryUri, memoryUri, tagUri } from '../src/resources.js';
+import { createServer } from '../src/server.js';
+import type { MemoryChange } from '../src/types.js';
+import { MockMemoryStore } from './mocks.js';
+
+// ── NotifyingMemoryStore ───────────────────────────────────────────
+
+describe('NotifyingMemoryStore', () => {
+  let store: NotifyingMemoryStore;
+  let changes: MemoryChange[];
+
+  beforeEach(() => {
+    store = new NotifyingMemoryStore(new MockMemoryStore());
+    changes = [];
+    store.onChange(change => changes.push(change));
+  });
+
+  it('reports what each mutation touched', async () => {
+    const a = await store.store({ content: 'Use pnpm', category: 'learning', tags: [] });
+    const b = await store.store({ content: 'Node 20', category: 'learning', tags: [] });
+    await store.update(a.id, { tags: ['js'] });
+    await store.link(a.id, b.id, 'related-to');
+    await store.delete(b.id);
+
+    expect(changes).toEqual([
+      { ids: [a.id], listChanged: true },
+      { ids: [b.id], listChanged: true },
+      { ids: [a.id], listChanged: false },
+      { ids: [a.id, b.id], listChanged: false },
+      { ids: [b.id], listChanged: true },
+    ]);
+  });
+
+  it('reports memories that emptying the trash or a replacing import removed', async () => {
+    const trashed = await store.store({ content: 'Use yarn', category: 'learning', tags: [] });
+    const kept = await store.store({ content: 'Use pnpm', category: 'learning', tags: [] });
+    await store.delete(trashed.id);
+    changes = [];
+
+    await store.emptyTrash({});
+    const [archived] = await store.exportMemories({});
+    const dropped = await store.store({ content: 'Node 20', category: 'learning', tags: [] });
+    await store.importMemories([archived], { replace: true });
+
+    expect(changes).toEqual([
+      { ids: [trashed.id], listChanged: true },
+      { ids: [dropped.id], listChanged: true },
+      { ids: [kept.id, dropped.id], listChanged: true },
+    ]);
+  });
+
+  it('stays quiet for reads and dry runs, and after unsubscribing', async () => {
+    await store.search('pnpm', 'hybrid', {});
+    await store.prune({ dryRun: true });
+    expect(changes).toHaveLength(0);
+
+    const other: MemoryChange[] = [];
+    store.onChange(change => other.push(change))();
+    await store.store({ content: 'Use pnpm', category: 'learning', tags: [] });
+    expect(changes).toHaveLength(1);
+    expect(other).toHaveLength(0);
+  });
+
+  it('keeps going when a listener throws', async () => {
+    store.onChange(() => { throw new Error('boom'); });
+    const errors: unknown[] = [];
+    const original = console.error;
+    console.error = (...args: unknown[]) => errors.push(args);
+    try {
+      await expect(store.store({ content: 'Use pnpm', category: 'learning', tags: [] })).resolves.toBeDefined();
+    } finally {
+      console.error = original;
+    }
+    expect(errors).toHaveLength(1);
+  });
+});
+
+// ── Resources and prompts over MCP ─────────────────────────────────
+
+describe('resources and prompts', () => {
+  let store: NotifyingMemoryStore;
+  let client: Client;
+
+  beforeEach(async () => {
+    store = new NotifyingMemoryStore(new MockMemoryStore());
+    const server = createServer(store, { changes: store });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  function read(uri: string) {
+    return client.readResource({ uri }).then(r => JSON.parse(r.contents[0].text as string));
+  }
+
+  it('offers memories, categories and tags as resources', async () => {
+    const memory = await store.store({ content: 'Deploys go out on Tuesdays\nafter the freeze', category: 'learning', tags: ['ops'] });
+    const other = await store.store({ content: 'Use pnpm', category: 'tool-usage', tags: ['js'] });
+    await store.link(memory.id, other.id, 'related-to');
+
+    const { resources } = await client.listResources();
+    expect(resources).toContainEqual(expect.objectContaining({ uri: memoryUri(memory.id), name: 'Deploys go out on Tuesdays' }));
+    expect(resources).toContainEqual(expect.objectContaining({ uri: categoryUri('learning') }));
+    expect(resources).toContainEqual(expect.objectContaining({ uri: tagUri('ops'), description: '1 memory' }));
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map(t => t.uriTemplate)).toEqual([
+      'memory://category/{category}',
+      'memory://tag/{tag}',
+      'memory://{id}',
+    ]);
+
+    expect(await read(memoryUri(memory.id))).toMatchObject({
+      id: memory.id,
+      content: memory.content,
+      links: [{ sourceId: memory.id, targetId: other.id, relation: 'related-to' }],
+    });
+    expect(await read(categoryUri('learning'))).toMatchObject({ category: 'learning', count: 1, memories: [{ uri: memoryUri(memory.id) }] });
+    expect(await read(tagUri('js'))).toMatchObject({ tag: 'js', count: 1, memories: [{ id: other.id }] });
+  });
+
+  it('lists and reads tags from the default namespace only', async () => {
+    await store.store({ content: 'Use pnpm', category: 'tool-usage', tags: ['js'] });
+    await store.store({ content: 'Use cargo', category: 'tool-usage', tags: ['rust'], namespace: 'other' });
+
+    const { resources } = await client.listResources();
+    expect(resources.filter(r => r.uri.startsWith('memory://tag/')).map(r => r.uri)).toEqual([tagUri('js')]);
+    expect(await read(tagUri('rust'))).toMatchObject({ tag: 'rust', count: 0 });
+  });
+
+  it('completes category names', async () => {
+    const { completion } = await client.complete({
+      ref: { type: 'ref/resource', uri: 'memory://category/{category}' },
+      argument: { name: 'category', value: 'per' },
+    });
+    expect(completion.values).toEqual(['performance', 'personal']);
+  });
+
+  it('notifies subscribers when a memory or a listing changes', async () => {
+    const memory = await store.store({ content: 'Use pnpm', category: 'learning', tags: [] });
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, ({ params }) => { updated.push(params.uri); });
+
+    await client.subscribeResource({ uri: memoryUri(memory.id) });
+    await client.subscribeResource({ uri: categoryUri('learning') });
+    await store.update(memory.id, { content: 'Use pnpm 9' });
+    await store.store({ content: 'Node 20', category: 'other', tags: [] });
+    await client.unsubscribeResource({ uri: memoryUri(memory.id) });
+    await store.update(memory.id, { content: 'Use pnpm 10' });
+    await client.ping();
+
+    expect(updated).toEqual([
+      memoryUri(memory.id),
+      categoryUri('learning'),
+      categoryUri('learning'),
+      categoryUri('learning'),
+    ]);
+  });
+
+  it('recalls memories into the session start prompt', async () => {
+    await store.store({ content: 'Deploys go out on Tuesdays', category: 'learning', tags: [] });
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(p => p.name)).toEqual(['session_start_recall', 'end_of_session_capture']);
+
+    const prompt = await client.getPrompt({ name: 'session_start_recall', arguments: { topics: 'Deploys, billing' } });
+    const text = (prompt.messages[0].content as { text: string }).text;
+    expect(text).toContain('We are starting a session on: Deploys, billing.');
+    expect(JSON.parse(text.slice(text.indexOf('{'))).byTopic.Deploys[0].memory.content).toBe('Deploys go out on Tuesdays');
+  });
+
+  it('asks for a store_batch call in the end of session prompt', async () => {
+    const prompt = await client.getPrompt({ name: 'end_of_session_capture', arguments: { focus: 'the cache', namespace: 'api' } });
+    const text = (prompt.messages[0].content as { text: string }).text;
+    expect(text).toContain('concentrating on the cache.');
+    expect(text).toContain('single store_batch call with namespace "api"');
+    expect(text).toContain('architecture');
+  });
+});
@@ -0,0 +1,269 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import * as lancedb from '@lancedb/lancedb';
+import { matchesTags, normaliseTags, parseTagAliases, replaceTags, tagIndex } from '../src/tags.js';
+import { LanceMemoryStore } from '../src/memory-store.js';
+import { MockEmbedder } from './mocks.js';
+import type { SearchFilters } from '../src/types.js';
+
+// ── Index format ───────────────────────────────────────────────────
+
+describe('tagIndex', () => {
+  it('writes one JSON-encoded tag per line', () => {
+    expect(tagIndex(['typescript', 'say "hi"'])).toBe('\n"typescript"\n"say \\"hi\\""\n');
+  });
+
+  it('indexes nothing for no tags', () => {
+    expect(tagIndex([]).trim()).toBe('');
+  });
+});
+
+// ── Matching (shared by SQL and in-memory tests) ───────────────────
+
+const SAMPLE = ['build', 'ci', "o'brien", 'a,b'];
+
+const CASES: [string, SearchFilters, boolean][] = [
+  ['any-of', { tags: ['ci', 'docs'] }, true],
+  ['any-of mismatch', { tags: ['docs'] }, false],
+  ['all-of', { tagsAll: ['build', 'ci'] }, true],
+  ['all-of with one missing', { tagsAll: ['build', 'docs'] }, false],
+  ['none-of', { tagsNone: ['docs'] }, true],
+  ['none-of excluded', { tagsNone: ['docs', 'ci'] }, false],
+  ['quote in tag', { tagsAll: ["o'brien"] }, true],
+  ['comma in tag', { tagsAll: ['a,b'] }, true],
+  ['no partial matches', { tags: ['buil', 'a'] }, false],
+  ['combined', { tags: ['build'], tagsAll: ['ci'], tagsNone: ['docs'] }, true],
+];
+
+describe('matchesTags', () => {
+  for (const [name, filters, expected] of CASES) {
+    it(name, () => {
+      expect(matchesTags(SAMPLE, filters)).toBe(expected);
+    });
+  }
+});
+
+// ── Normalisation and renaming ─────────────────────────────────────
+
+describe('normaliseTags', () => {
+  it('leaves tags untouched when nothing is configured', () => {
+    expect(normaliseTags(['TS', ' ts '])).toEqual(['TS', ' ts ']);
+  });
+
+  it('folds case, resolves aliases and drops the resulting duplicates', () => {
+    const normalisation = { caseFold: true, aliases: { ts: 'typescript' } };
+    expect(normaliseTags(['TypeScript', ' TS', 'Build', 'typescript'], normalisation)).toEqual(['typescript', 'build']);
+  });
+
+  it('does not resolve tags named like object members as aliases', () => {
+    const normalisation = { aliases: { ts: 'typescript' } };
+    expect(normaliseTags(['constructor', 'toString', 'hasOwnProperty', '__proto__'], normalisation))
+      .toEqual(['constructor', 'toString', 'hasOwnProperty', '__proto__']);
+  });
+});
+
+describe('parseTagAliases', () => {
+  it('parses alias=tag pairs', () => {
+    expect(parseTagAliases('ts=typescript, JS = javascript,')).toEqual({ ts: 'typescript', JS: 'javascript' });
+    expect(parseTagAliases('JS=JavaScript', true)).toEqual({ js: 'javascript' });
+    expect(parseTagAliases(undefined)).toEqual({});
+  });
+
+  it('rejects malformed pairs', () => {
+    expect(() => parseTagAliases('ts')).toThrow(/alias=tag/);
+    expect(() => parseTagAliases('a=b=c')).toThrow(/alias=tag/);
+  });
+});
+
+describe('replaceTags', () => {
+  it('replaces in place and de-duplicates', () => {
+    expect(replaceTags(['ts', 'build', 'TS'], ['ts', 'TS'], 'typescript')).toEqual(['typescript', 'build']);
+  });
+});
+
+// ── LanceDB ────────────────────────────────────────────────────────
+
+describe('LanceMemoryStore tag filters', () => {
+  let dbPath: string;
+  let embedder: MockEmbedder;
+  let store: LanceMemoryStore;
+
+  beforeEach(async () => {
+    dbPath = await mkdtemp(join(tmpdir(), 'agent-memory-tags-'));
+    embedder = new MockEmbedder();
+    store = new LanceMemoryStore(dbPath, embedder, { duplicatePolicy: 'off' });
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    await rm(dbPath, { recursive: true, force: true });
+  });
+
+  describe('are applied in the query', () => {
+    beforeEach(async () => {
+      await store.store({ content: 'Flaky build in CI', category: 'bug-fix', tags: SAMPLE });
+      await store.store({ content: 'Flaky build docs', category: 'bug-fix', tags: ['docs'] });
+    });
+
+    for (const [name, filters, expected] of CASES) {
+      it(name, async () => {
+        const results = await store.search('flaky build', 'semantic', filters);
+        expect(results.some(r => r.memory.content === 'Flaky build in CI')).toBe(expected);
+        expect(results.every(r => matchesTags(r.memory.tags, filters))).toBe(true);
+      });
+    }
+  });
+
+  it('fills the limit when matches are rare', async () => {
+    await store.storeBatch(Array.from({ length: 40 }, (_, i) => ({
+      content: `Deploy note ${i}`,
+      category: 'learning' as const,
+      tags: ['deploy'],
+    })));
+    await store.storeBatch(Array.from({ length: 5 }, (_, i) => ({
+      content: `Deploy rollback ${i}`,
+      category: 'learning' as const,
+      tags: ['deploy', 'rollback'],
+    })));
+
+    for (const mode of ['semantic', 'keyword', 'hybrid'] as const) {
+      const results = await store.search('deploy', mode, { tagsAll: ['deploy', 'rollback'], limit: 5 });
+      expect(results).toHaveLength(5);
+      expect(results.every(r => r.memory.tags.includes('rollback'))).toBe(true);
+    }
+    const excluded = await store.search('deploy', 'semantic', { tagsNone: ['deploy'], limit: 5 });
+    expect(excluded).toHaveLength(0);
+  });
+
+  it('follows tag changes made by update', async () => {
+    const memory = await store.store({ content: 'Release checklist', category: 'learning', tags: ['release'] });
+    await store.update(memory.id, { tags: ['release', 'done'] });
+
+    expect(await store.search('release', 'semantic', { tagsAll: ['release', 'done'] })).toHaveLength(1);
+    expect(await store.search('release', 'semantic', { tagsNone: ['done'] })).toHaveLength(0);
+  });
+
+  it('backfills the tag index on tables created before it existed', async () => {
+    const legacyPath = await mkdtemp(join(tmpdir(), 'agent-memory-legacy-tags-'));
+    try {
+      const db = await lancedb.connect(legacyPath);
+      const now = new Date().toISOString();
+      const vector = await embedder.embed('Legacy memory');
+      const legacy = (id: string, tags: string[]) => ({
+        id,
+        namespace: 'default',
+        content: `Legacy memory ${id}`,
+        category: 'learning',
+        tags: JSON.stringify(tags),
+        created_at: now,
+        updated_at: now,
+        vector,
+        access_count: 0,
+        last_accessed_at: now,
+        deleted_at: '',
+      });
+      await db.createTable('memories', [legacy('1', ['build', 'say "hi"']), legacy('2', []), legacy('3', ['a,b'])]);
+
+      const migrated = new LanceMemoryStore(legacyPath, embedder);
+      await migrated.initialize();
+
+      const ids = async (filters: SearchFilters) =>
+        (await migrated.search('legacy', 'semantic', filters)).map(r => r.memory.id).sort();
+      expect(await ids({ tagsAll: ['build', 'say "hi"'] })).toEqual(['1']);
+      expect(await ids({ tags: ['a,b'] })).toEqual(['3']);
+      expect(await ids({ tagsNone: ['build', 'a,b'] })).toEqual(['2']);
+    } finally {
+      await rm(legacyPath, { recursive: true, force: true });
+    }
+  });
+
+  describe('management', () => {
+    beforeEach(async () => {
+      await store.store({ content: 'Strict mode', category: 'learning', tags: ['ts', 'build'] });
+      await store.store({ content: 'Path aliases', category: 'learning', tags: ['TypeScript'], namespace: 'web' });
+      const trashed = await store.store({ content: 'Old bundler', category: 'learning', tags: ['ts'] });
+      await store.delete(trashed.id);
+    });
+
+    it('lists live tags with counts and last-used dates', async () => {
+      const latest = await store.store({ content: 'Bundler config', category: 'learning', tags: ['build'] });
+
+      const tags = await store.listTags();
+      expect(tags.map(t => [t.tag, t.count])).toEqual([['build', 2], ['ts', 1], ['TypeScript', 1]]);
+      expect(tags[0].lastUsedAt).toBe(latest.updatedAt);
+      expect((await store.listTags('web')).map(t => t.tag)).toEqual(['TypeScript']);
+    });
+
+    it('merges tags across namespaces, live and trashed', async () => {
+      const preview = await store.mergeTags({ from: ['ts', 'TypeScript'], to: 'typescript' });
+      expect(preview).toMatchObject({ dryRun: true, updated: 0, byTag: { ts: 2, TypeScript: 1 } });
+      expect(await store.search('strict', 'semantic', { tags: ['typescript'] })).toHaveLength(0);
+
+      const before = new Map((await store.exportMemories({ allNamespaces: true })).map(m => [m.id, m.updatedAt]));
+      const result = await store.mergeTags({ from: ['ts', 'TypeScript'], to: 'typescript', dryRun: false });
+      expect(result.updated).toBe(3);
+      for (const memory of await store.exportMemories({ allNamespaces: true })) {
+        expect(memory.updatedAt > before.get(memory.id)!).toBe(result.ids.includes(memory.id));
+      }
+      expect((await store.listTags()).map(t => t.tag)).toEqual(['typescript', 'build']);
+      expect((await store.listTrash())[0].tags).toEqual(['typescript']);
+
+      const [found] = await store.search('strict', 'semantic', { tagsAll: ['typescript', 'build'] });
+      expect(found.memory.tags).toEqual(['typescript', 'build']);
+    });
+
+    it('keeps merges within a namespace when one is given', async () => {
+      const result = await store.mergeTags({ from: ['TypeScript'], to: 'ts', namespace: 'default', dryRun: false });
+      expect(result.ids).toHaveLength(0);
+    });
+
+    it('renames a tag unless the new name is taken', async () => {
+      await expect(store.renameTag({ from: ['ts'], to: 'build', dryRun: false })).rejects.toThrow(/merge_tags/);
+
+      const result = await store.renameTag({ from: ['build'], to: 'tooling', dryRun: false });
+      expect(result.updated).toBe(1);
+      expect((await store.listTags()).map(t => t.tag)).toContain('tooling');
+    });
+  });
+
+  describe('normalisation', () => {
+    beforeEach(async () => {
+      store = new LanceMemoryStore(dbPath, embedder, {
+        duplicatePolicy: 'off',
+        tagNormalisation: { caseFold: true, aliases: { ts: 'typescript' } },
+      });
+      await store.initialize();
+    });
+
+    it('applies to store, storeBatch and update', async () => {
+      const memory = await store.store({ content: 'Strict mode', category: 'learning', tags: ['TS', 'Build'] });
+      expect(memory.tags).toEqual(['typescript', 'build']);
+
+      const [batched] = await store.storeBatch([{ content: 'Path aliases', category: 'learning', tags: ['TypeScript'] }]);
+      expect(batched.tags).toEqual(['typescript']);
+
+      const updated = await store.update(memory.id, { tags: ['CI', 'ts'] });
+      expect(updated.tags).toEqual(['ci', 'typescript']);
+    });
+
+    it('applies to search filters and merge targets', async () => {
+      await store.store({ content: 'Strict mode', category: 'learning', tags: ['typescript', 'legacy'] });
+
+      expect(await store.search('strict', 'semantic', { tagsAll: ['TS'] })).toHaveLength(1);
+      const result = await store.mergeTags({ from: ['legacy'], to: 'Archived', dryRun: false });
+      expect(result.to).toBe('archived');
+      expect((await store.listTags()).map(t => t.tag).sort()).toEqual(['archived', 'typescript']);
+    });
+
+    it('applies to merge sources', async () => {
+      await store.store({ content: 'Strict mode', category: 'learning', tags: ['Legacy'] });
+
+      const result = await store.mergeTags({ from: ['LEGACY', 'TS'], to: 'archived', dryRun: false });
+      expect(result).toMatchObject({ updated: 1, byTag: { legacy: 1 } });
+      expect((await store.listTags()).map(t => t.tag)).toEqual(['archived']);
+      await expect(store.renameTag({ from: ['Archived'], to: 'archived', dryRun: false })).resolves.toMatchObject({ updated: 0 });
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ZodTypeAny } from 'zod';
+import { DEFAULT_TAXONOMY, describeTaxonomy, loadTaxonomy, parseTaxonomy } from '../src/taxonomy.js';
+import { LanceMemoryStore } from '../src/memory-store.js';
+import { registerTools } from '../src/tools.js';
+import { MockEmbedder, MockMemoryStore } from './mocks.js';
+import { MEMORY_CATEGORIES } from '../src/types.js';
+
+// ── Parsing ────────────────────────────────────────────────────────
+
+describe('parseTaxonomy', () => {
+  it('accepts an object of names to descriptions', () => {
+    expect(parseTaxonomy({ runbook: 'Operational procedures', decision: 'Decisions and why' })).toEqual([
+      { name: 'runbook', description: 'Operational procedures' },
+      { name: 'decision', description: 'Decisions and why' },
+    ]);
+  });
+
+  it('accepts an array of names or definitions', () => {
+    expect(parseTaxonomy(['runbook', { name: 'customer', description: 'Customer context' }])).toEqual([
+      { name: 'runbook', description: '' },
+      { name: 'customer', description: 'Customer context' },
+    ]);
+  });
+
+  it('rejects invalid names, duplicates and empty taxonomies', () => {
+    expect(() => parseTaxonomy(['Run Book'])).toThrow(/Invalid category name/);
+    expect(() => parseTaxonomy(['runbook', 'runbook'])).toThrow(/Duplicate category "runbook"/);
+    expect(() => parseTaxonomy([])).toThrow(/at least one category/);
+    expect(() => parseTaxonomy('runbook')).toThrow(/object or an array/);
+  });
+});
+
+describe('loadTaxonomy', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'agent-memory-taxonomy-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('defaults to the built-in categories', async () => {
+    const taxonomy = await loadTaxonomy({});
+    expect(taxonomy.map(c => c.name)).toEqual([...MEMORY_CATEGORIES]);
+    expect(taxonomy.every(c => c.description.length > 0)).toBe(true);
+  });
+
+  it('reads a comma-separated list, keeping built-in descriptions', async () => {
+    const taxonomy = await loadTaxonomy({ list: 'runbook, bug-fix' });
+    expect(taxonomy).toEqual([
+      { name: 'runbook', description: '' },
+      DEFAULT_TAXONOMY.find(c => c.name === 'bug-fix'),
+    ]);
+  });
+
+  it('prefers the file over the list', async () => {
+    const file = join(dir, 'categories.json');
+    await writeFile(file, JSON.stringify({ decision: 'Decisions and why' }));
+
+    const taxonomy = await loadTaxonomy({ file, list: 'runbook' });
+    expect(taxonomy).toEqual([{ name: 'decision', description: 'Decisions and why' }]);
+  });
+
+  it('reports malformed files', async () => {
+    const file = join(dir, 'categories.json');
+    await writeFile(file, '{ not json');
+    await expect(loadTaxonomy({ file })).rejects.toThrow(/Invalid JSON/);
+  });
+});
+
+// ── Tool schemas ───────────────────────────────────────────────────
+
+describe('registerTools with a custom taxonomy', () => {
+  function registeredSchemas(): Map<string, Record<string, ZodTypeAny>> {
+    const schemas = new Map<string, Record<string, ZodTypeAny>>();
+    const server = {
+      tool: (name: string, _description: string, schema: Record<string, ZodTypeAny>) => {
+        schemas.set(name, schema);
+      },
+    };
+    registerTools(server as unknown as McpServer, new MockMemoryStore(), {
+      taxonomy: parseTaxonomy({ runbook: 'Operational procedures', decision: 'Decisions and why' }),
+    });
+    return schemas;
+  }
+
+  it('accepts only the configured categories', () => {
+    const category = registeredSchemas().get('store')!.category;
+    expect(category.safeParse('runbook').success).toBe(true);
+    expect(category.safeParse('bug-fix').success).toBe(false);
+  });
+
+  it('lists category descriptions in the store schema', () => {
+    const category = registeredSchemas().get('store')!.category;
+    expect(category.description).toContain('runbook — Operational procedures');
+  });
+
+  it('applies the taxonomy to search filters', () => {
+    const category = registeredSchemas().get('search')!.category;
+    expect(category.safeParse('decision').success).toBe(true);
+    expect(category.safeParse('learning').success).toBe(false);
+  });
+});
+
+describe('describeTaxonomy', () => {
+  it('omits the separator for categories without a description', () => {
+    expect(describeTaxonomy([{ name: 'a', description: '' }, { name: 'b', description: 'Bee' }])).toBe('a; b — Bee');
+  });
+});
+
+// ── LanceDB ────────────────────────────────────────────────────────
+
+describe('LanceMemoryStore categories', () => {
+  let dbPath: string;
+  let embedder: MockEmbedder;
+
+  beforeEach(async () => {
+    dbPath = await mkdtemp(join(tmpdir(), 'agent-memory-categories-'));
+    embedder = new MockEmbedder();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dbPath, { recursive: true, force: true });
+  });
+
+  it('warns on startup about memories outside the taxonomy', async () => {
+    const seed = new LanceMemoryStore(dbPath, embedder);
+    await seed.initialize();
+    await seed.store({ content: 'Old style', category: 'learning', tags: [] });
+
+    const warn = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const store = new LanceMemoryStore(dbPath, embedder, { categories: ['runbook'] });
+    await store.initialize();
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('1 memories use categories outside the taxonomy: learning (1)'));
+  });
+
+  it('recategorizes live and trashed memories, and their revisions', async () => {
+    const store = new LanceMemoryStore(dbPath, embedder, { categories: ['runbook', 'learning'] });
+    await store.initialize();
+    const live = await store.store({ content: 'Restart the worker', category: 'learning', tags: [] });
+    await store.update(live.id, { tags: ['ops'] });
+    const trashed = await store.store({ content: 'Rotate the keys', category: 'learning', tags: [] });
+    await store.delete(trashed.id);
+
+    const preview = await store.recategorize({ from: ['learning'], to: 'runbook' });
+    expect(preview).toMatchObject({ dryRun: true, updated: 0, byCategory: { learning: 2 } });
+    expect((await store.listRecent(10))[0].category).toBe('learning');
+
+    const result = await store.recategorize({ from: ['learning'], to: 'runbook', dryRun: false });
+    expect(result.updated).toBe(2);
+
+    const [memory] = await store.listRecent(10);
+    expect(memory.category).toBe('runbook');
+    // A relabel bumps updatedAt but records no revision.
+    const history = await store.history(live.id);
+    expect(history).toHaveLength(1);
+    expect(memory.updatedAt > history[0].supersededAt).toBe(true);
+    expect(history[0].category).toBe('runbook');
+    expect((await store.restore(trashed.id)).category).toBe('runbook');
+  });
+
+  it('rejects updates to a category outside the taxonomy', async () => {
+    const seed = new LanceMemoryStore(dbPath, embedder);
+    await seed.initialize();
+    const legacy = await seed.store({ content: 'Old style', category: 'learning', tags: [] });
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const store = new LanceMemoryStore(dbPath, embedder, { categories: ['runbook'] });
+    await store.initialize();
+    await expect(store.update(legacy.id, { category: 'bogus' })).rejects.toThrow(/Unknown category "bogus"/);
+    // A retired category can stay put while other fields change.
+    expect((await store.update(legacy.id, { category: 'learning', tags: ['ops'] })).tags).toEqual(['ops']);
+    expect((await store.update(legacy.id, { category: 'runbook' })).category).toBe('runbook');
+  });
+
+  it('rejects stores and imports outside the taxonomy', async () => {
+    const store = new LanceMemoryStore(dbPath, embedder, { categories: ['runbook'] });
+    await store.initialize();
+    const kept = await store.store({ content: 'Restart the worker', category: 'runbook', tags: [] });
+    await expect(store.store({ content: 'Pancakes', category: 'recipes', tags: [] })).rejects.toThrow(/Unknown category "recipes"/);
+    await expect(store.storeBatch([
+      { content: 'Drain the queue', category: 'runbook', tags: [] },
+      { content: 'Pancakes', category: 'recipes', tags: [] },
+    ])).rejects.toThrow(/Unknown category "recipes"/);
+
+    const [archived] = await store.exportMemories({});
+    const stray = { ...archived, id: 'stray', category: 'recipes' };
+    await expect(store.importMemories([stray], {})).rejects.toThrow(/Unknown category "recipes"/);
+    await expect(store.importMemories([archived, stray], { replace: true })).rejects.toThrow(/Unknown category "recipes"/);
+    expect((await store.listRecent(10)).map(m => m.id)).toEqual([kept.id]);
+  });
+
+  it('rejects a target outside the taxonomy', async () => {
+    const store = new LanceMemoryStore(dbPath, embedder, { categories: ['runbook'] });
+    await store.initialize();
+    await expect(store.recategorize({ from: ['learning'], to: 'nope' })).rejects.toThrow(/Unknown category "nope"/);
+  });
+});
@@ -1,8 +1,10 @@
 import { describe, it, expect } from 'vitest';
 import {
   computeDecayFactor,
+  decayRule,
   importanceMultiplier,
   parseDecayHalfLife,
+  parseDecayPolicy,
   EVERGREEN_TAGS,
 } from '../src/memory-store.js';
 
@@ -193,3 +195,62 @@ describe('importanceMultiplier', () => {
     expect(importanceMultiplier(row)).toBeCloseTo(2.25, 1);
   });
 });
+
+// ── Decay policy ────────────────────────────────────────────────
+
+describe('parseDecayPolicy', () => {
+  it('reads category and tag rules, with "never" for no decay', () => {
+    const policy = parseDecayPolicy('architecture=365, debugging = 7, tag:adr=never');
+    expect(policy.categories).toEqual({ architecture: 365, debugging: 7 });
+    expect(policy.tags).toEqual({ adr: null });
+  });
+
+  it('has no rules when unset', () => {
+    expect(parseDecayPolicy(undefined)).toMatchObject({ categories: {}, tags: {} });
+    expect(parseDecayPolicy('')).toMatchObject({ categories: {}, tags: {} });
+  });
+
+  it('rejects malformed rules', () => {
+    expect(() => parseDecayPolicy('architecture')).toThrow(/Invalid decay rule "architecture"/);
+    expect(() => parseDecayPolicy('architecture=0')).toThrow(/Invalid decay rule/);
+    expect(() => parseDecayPolicy('architecture=soon')).toThrow(/Invalid decay rule/);
+    expect(() => parseDecayPolicy('tag:=30')).toThrow(/Invalid decay rule/);
+  });
+
+  it('rejects categories outside the taxonomy', () => {
+    expect(() => parseDecayPolicy('archtecture=365', ['architecture', 'debugging']))
+      .toThrow(/unknown category "archtecture"/);
+    // Tags are free-form, so tag rules are not checked.
+    expect(parseDecayPolicy('tag:anything=10', ['architecture']).tags).toEqual({ anything: 10 });
+  });
+});
+
+describe('decayRule', () => {
+  const policy = { halfLifeDays: 30, categories: { architecture: 365, scratch: null }, tags: { adr: null, 'short-lived': 3, stable: 90 } };
+
+  it('falls back from tags to the category to the default', () => {
+    expect(decayRule(policy, 'debugging', [])).toEqual({ halfLifeDays: 30, source: 'default' });
+    expect(decayRule(policy, 'architecture', ['misc'])).toEqual({ halfLifeDays: 365, source: 'category:architecture' });
+    expect(decayRule(policy, 'architecture', ['short-lived'])).toEqual({ halfLifeDays: 3, source: 'tag:short-lived' });
+    expect(decayRule(policy, 'scratch', [])).toEqual({ halfLifeDays: null, source: 'category:scratch' });
+  });
+
+  it('lets the slowest matching tag win', () => {
+    expect(decayRule(policy, 'learning', ['short-lived', 'stable']).source).toBe('tag:stable');
+    expect(decayRule(policy, 'learning', ['stable', 'adr', 'short-lived']).halfLifeDays).toBeNull();
+  });
+
+  it('never decays evergreen tags, whatever the policy says', () => {
+    const evergreen = { ...policy, tags: { evergreen: 5 } };
+    expect(decayRule(evergreen, 'learning', ['evergreen'])).toEqual({ halfLifeDays: null, source: 'tag:evergreen' });
+  });
+
+  it('treats a disabled default as no decay', () => {
+    expect(decayRule({ ...policy, halfLifeDays: 0 }, 'learning', []).halfLifeDays).toBeNull();
+    expect(decayRule({ ...policy, halfLifeDays: 0 }, 'architecture', []).halfLifeDays).toBe(365);
+  });
+
+  it('ignores inherited object keys', () => {
+    expect(decayRule(policy, 'constructor', ['toString']).source).toBe('default');
+  });
+});
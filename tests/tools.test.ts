@@ -1,4 +1,7 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mkdtemp, rm, symlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
 import { MockMemoryStore } from './mocks.js';
 import {
   handleStore,
@@ -11,6 +14,23 @@ import {
   handleDelete,
   handleStats,
   handlePrune,
+  handleConsolidate,
+  handleRecategorize,
+  handleReembed,
+  handleListTags,
+  handleRenameTag,
+  handleMergeTags,
+  handleExport,
+  handleImport,
+  handleIngest,
+  handleHistory,
+  handleRevert,
+  handleListTrash,
+  handleRestore,
+  handleEmptyTrash,
+  handleLink,
+  handleUnlink,
+  handleGetGraph,
 } from '../src/tools.js';
 
 // ── Helpers ────────────────────────────────────────────────────────
@@ -45,6 +65,28 @@ describe('store', () => {
     expect(memory.createdAt).toBeDefined();
     expect(store.memories).toHaveLength(1);
   });
+
+  it('stores metadata when given', async () => {
+    const handler = handleStore(store);
+    const memory = parseResult(await handler({
+      content: 'Retry budget lives in config',
+      category: 'architecture',
+      tags: [],
+      metadata: { repo: 'api', path: 'src/config.ts' },
+    }));
+
+    expect(memory.metadata).toEqual({ repo: 'api', path: 'src/config.ts' });
+  });
+
+  it('reports a near-duplicate with the existing id and similarity', async () => {
+    const handler = handleStore(store);
+    const first = parseResult(await handler({ content: 'Same thing', category: 'learning', tags: [] }));
+    const result = await handler({ content: 'Same thing', category: 'learning', tags: [], on_duplicate: 'reject' });
+
+    const memory = parseResult(result);
+    expect(memory.duplicate).toEqual({ id: first.id, similarity: 1, action: 'rejected' });
+    expect(store.memories).toHaveLength(1);
+  });
 });
 
 describe('store_batch', () => {
@@ -78,6 +120,23 @@ describe('store_batch', () => {
     const data = parseResult(result);
     expect(data.stored).toBe(0);
   });
+
+  it('counts rejected duplicates separately from stored memories', async () => {
+    await store.store({ content: 'Already known', category: 'learning', tags: [] });
+    const handler = handleStoreBatch(store);
+    const result = await handler({
+      memories: [
+        { content: 'Already known', category: 'learning', tags: [] },
+        { content: 'Brand new', category: 'learning', tags: [] },
+      ],
+      on_duplicate: 'reject',
+    });
+
+    const data = parseResult(result);
+    expect(data.stored).toBe(1);
+    expect(data.duplicates).toBe(1);
+    expect(data.memories[0].duplicate.action).toBe('rejected');
+  });
 });
 
 describe('search', () => {
@@ -117,6 +176,31 @@ describe('search', () => {
     expect(data.results[0].memory.tags).toContain('electron');
   });
 
+  it('filters by all-of and none-of tag sets', async () => {
+    await store.store({ content: 'Build cache tips', category: 'learning', tags: ['build', 'ci'] });
+    await store.store({ content: 'Build script tips', category: 'learning', tags: ['build'] });
+    const handler = handleSearch(store);
+
+    const all = parseResult(await handler({ query: 'build', tags_all: ['build', 'ci'] }));
+    expect(all.results.map((r: { memory: { content: string } }) => r.memory.content)).toEqual(['Build cache tips']);
+
+    const none = parseResult(await handler({ query: 'build', tags: ['build'], tags_none: ['ci'] }));
+    expect(none.results.map((r: { memory: { content: string } }) => r.memory.content)).toEqual(['Build script tips']);
+  });
+
+  it('filters by metadata', async () => {
+    await store.store({ content: 'Search ranking bug', category: 'bug-fix', tags: [], metadata: { repo: 'api', pr: 12 } });
+    await store.store({ content: 'Search ranking tweak', category: 'learning', tags: [], metadata: { repo: 'web', pr: 30 } });
+    const handler = handleSearch(store);
+
+    const byRepo = parseResult(await handler({ query: 'search ranking', metadata: { repo: 'api' } }));
+    expect(byRepo.count).toBe(1);
+    expect(byRepo.results[0].memory.metadata).toEqual({ repo: 'api', pr: 12 });
+
+    const byRange = parseResult(await handler({ query: 'search ranking', metadata: { pr: { gt: 20 } } }));
+    expect(byRange.results.map((r: { memory: { metadata: { repo: string } } }) => r.memory.metadata.repo)).toEqual(['web']);
+  });
+
   it('returns empty results for no match', async () => {
     const handler = handleSearch(store);
     const result = await handler({ query: 'quantum entanglement' });
@@ -126,6 +210,49 @@ describe('search', () => {
   });
 });
 
+describe('namespaces', () => {
+  let store: MockMemoryStore;
+
+  beforeEach(() => {
+    store = new MockMemoryStore();
+  });
+
+  it('stores into the requested namespace', async () => {
+    const result = await handleStore(store)({
+      content: 'Scoped memory',
+      category: 'learning',
+      tags: [],
+      namespace: 'work',
+    });
+
+    expect(parseResult(result).namespace).toBe('work');
+  });
+
+  it('applies the batch namespace to items without their own', async () => {
+    const result = await handleStoreBatch(store)({
+      namespace: 'work',
+      memories: [
+        { content: 'Inherits', category: 'learning', tags: [] },
+        { content: 'Overrides', category: 'learning', tags: [], namespace: 'home' },
+      ],
+    });
+
+    const data = parseResult(result);
+    expect(data.memories.map((m: { namespace: string }) => m.namespace)).toEqual(['work', 'home']);
+  });
+
+  it('scopes search to a namespace unless all_namespaces is set', async () => {
+    await store.store({ content: 'Deploy notes', category: 'learning', tags: [], namespace: 'work' });
+    await store.store({ content: 'Deploy notes at home', category: 'learning', tags: [], namespace: 'home' });
+
+    const scoped = parseResult(await handleSearch(store)({ query: 'deploy', namespace: 'work' }));
+    expect(scoped.count).toBe(1);
+
+    const all = parseResult(await handleSearch(store)({ query: 'deploy', all_namespaces: true }));
+    expect(all.count).toBe(2);
+  });
+});
+
 describe('recall', () => {
   let store: MockMemoryStore;
 
@@ -349,3 +476,336 @@ describe('prune', () => {
     expect(data.dryRun).toBe(false);
   });
 });
+
+describe('recategorize', () => {
+  let store: MockMemoryStore;
+
+  beforeEach(async () => {
+    store = new MockMemoryStore();
+    await store.store({ content: 'Deploy steps', category: 'tool-usage', tags: [] });
+    await store.store({ content: 'On-call notes', category: 'other', tags: [] });
+  });
+
+  it('previews by default', async () => {
+    const handler = handleRecategorize(store);
+    const data = parseResult(await handler({ from: ['tool-usage', 'other'], to: 'runbook' }));
+
+    expect(data.dryRun).toBe(true);
+    expect(data.byCategory).toEqual({ 'tool-usage': 1, other: 1 });
+    expect(store.memories.map(m => m.category)).toEqual(['tool-usage', 'other']);
+  });
+
+  it('moves memories when dryRun is false', async () => {
+    const handler = handleRecategorize(store);
+    const data = parseResult(await handler({ from: ['tool-usage', 'other'], to: 'runbook', dryRun: false }));
+
+    expect(data.updated).toBe(2);
+    expect(store.memories.every(m => m.category === 'runbook')).toBe(true);
+  });
+});
+
+describe('reembed', () => {
+  it('reports progress to clients that send a progress token', async () => {
+    const store = new MockMemoryStore();
+    await store.store({ content: 'One', category: 'learning', tags: [] });
+    const notifications: unknown[] = [];
+    const extra = {
+      _meta: { progressToken: 'tok' },
+      sendNotification: async (n: unknown) => { notifications.push(n); },
+    } as unknown as Parameters<ReturnType<typeof handleReembed>>[1];
+
+    const data = parseResult(await handleReembed(store)({}, extra));
+
+    expect(data).toMatchObject({ total: 1, reembedded: 1 });
+    expect(notifications).toEqual([{
+      method: 'notifications/progress',
+      params: { progressToken: 'tok', progress: 1, total: 1, message: 'Re-embedded 1 of 1 memories' },
+    }]);
+  });
+
+  it('works without a progress token', async () => {
+    const data = parseResult(await handleReembed(new MockMemoryStore())({}));
+    expect(data.total).toBe(0);
+  });
+});
+
+describe('tag management', () => {
+  let store: MockMemoryStore;
+
+  beforeEach(async () => {
+    store = new MockMemoryStore();
+    await store.store({ content: 'Strict mode', category: 'learning', tags: ['ts', 'build'] });
+    await store.store({ content: 'Path aliases', category: 'learning', tags: ['TypeScript'] });
+    await store.store({ content: 'Bundler config', category: 'learning', tags: ['build'] });
+  });
+
+  it('lists tags by usage', async () => {
+    const data = parseResult(await handleListTags(store)({}));
+
+    expect(data.count).toBe(3);
+    expect(data.tags.map((t: { tag: string; count: number }) => [t.tag, t.count])).toEqual([
+      ['build', 2], ['ts', 1], ['TypeScript', 1],
+    ]);
+    expect(data.tags[0].lastUsedAt).toBe(store.memories[2].updatedAt);
+  });
+
+  it('merges tags when dryRun is false', async () => {
+    const handler = handleMergeTags(store);
+    const preview = parseResult(await handler({ from: ['ts', 'TypeScript'], to: 'typescript' }));
+    expect(preview.byTag).toEqual({ ts: 1, TypeScript: 1 });
+    expect(store.memories[0].tags).toEqual(['ts', 'build']);
+
+    const data = parseResult(await handler({ from: ['ts', 'TypeScript'], to: 'typescript', dryRun: false }));
+    expect(data.updated).toBe(2);
+    expect(store.memories.map(m => m.tags)).toEqual([['typescript', 'build'], ['typescript'], ['build']]);
+  });
+
+  it('renames a tag', async () => {
+    const data = parseResult(await handleRenameTag(store)({ from: 'build', to: 'tooling', dryRun: false }));
+
+    expect(data.updated).toBe(2);
+    expect(store.memories.map(m => m.tags)).toEqual([['ts', 'tooling'], ['TypeScript'], ['tooling']]);
+  });
+
+  it('refuses to rename onto a tag in use', async () => {
+    const result = await handleRenameTag(store)({ from: 'ts', to: 'build', dryRun: false });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toMatch(/merge_tags/);
+  });
+});
+
+describe('consolidate', () => {
+  let store: MockMemoryStore;
+
+  beforeEach(async () => {
+    store = new MockMemoryStore();
+    await store.store({ content: 'Said twice', category: 'learning', tags: ['a'] });
+    await store.store({ content: 'Said twice', category: 'learning', tags: ['b'] });
+    await store.store({ content: 'Said once', category: 'learning', tags: [] });
+  });
+
+  it('previews clusters by default', async () => {
+    const handler = handleConsolidate(store);
+    const data = parseResult(await handler({}));
+
+    expect(data.dryRun).toBe(true);
+    expect(data.clusters).toHaveLength(1);
+    expect(data.clusters[0].proposed.tags).toEqual(['a', 'b']);
+    expect(store.memories).toHaveLength(3);
+  });
+
+  it('merges clusters when dryRun is false', async () => {
+    const handler = handleConsolidate(store);
+    const data = parseResult(await handler({ dryRun: false }));
+
+    expect(data.replaced).toBe(2);
+    expect(data.clusters[0].merged.content).toBe('Said twice');
+    expect(store.memories).toHaveLength(2);
+    expect(store.trash).toHaveLength(2);
+  });
+});
+
+describe('export / import', () => {
+  let store: MockMemoryStore;
+
+  beforeEach(async () => {
+    store = new MockMemoryStore();
+    await store.store({ content: 'Portable memory', category: 'learning', tags: ['move'] });
+  });
+
+  it('round-trips an inline archive into another store', async () => {
+    const exported = parseResult(await handleExport(store)({}));
+    expect(exported.exported).toBe(1);
+
+    const target = new MockMemoryStore();
+    const result = await handleImport(target)({ archive: exported.archive });
+
+    expect(result.isError).toBeUndefined();
+    expect(parseResult(result).imported).toBe(1);
+    expect(target.memories[0].id).toBe(store.memories[0].id);
+  });
+
+  it('leaves vectors out of an inline archive unless asked', async () => {
+    const exportMemories = vi.spyOn(store, 'exportMemories');
+    const root = await mkdtemp(join(tmpdir(), 'agent-memory-export-tool-'));
+    try {
+      await handleExport(store)({});
+      await handleExport(store)({ include_vectors: true });
+      await handleExport(store)({ path: join(root, 'backup.jsonl') });
+      expect(exportMemories.mock.calls.map(([options]) => options?.includeVectors)).toEqual([false, true, true]);
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+
+  it('errors when neither path nor archive is given', async () => {
+    const result = await handleImport(store)({});
+    expect(result.isError).toBe(true);
+  });
+
+  it('errors on a malformed archive', async () => {
+    const result = await handleImport(store)({ archive: 'not json' });
+    expect(result.isError).toBe(true);
+  });
+
+  it('refuses paths when file access is disabled, but still works inline', async () => {
+    const exported = await handleExport(store, null)({ path: join(tmpdir(), 'agent-memory-export.jsonl') });
+    expect(exported.isError).toBe(true);
+    expect(exported.content[0].text).toMatch(/file paths are disabled/);
+    expect((await handleImport(store, null)({ path: '/etc/passwd' })).isError).toBe(true);
+    expect((await handleIngest(store, undefined, undefined, null)({ path: '/etc' })).isError).toBe(true);
+    expect(parseResult(await handleExport(store, null)({})).exported).toBe(1);
+  });
+
+  it('confines paths to the file root', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'agent-memory-file-root-'));
+    try {
+      const written = parseResult(await handleExport(store, root)({ path: 'backup.jsonl' }));
+      expect(written.exported).toBe(1);
+
+      const target = new MockMemoryStore();
+      expect(parseResult(await handleImport(target, root)({ path: join(root, 'backup.jsonl') })).imported).toBe(1);
+
+      const escaped = await handleExport(store, root)({ path: '../agent-memory-escape.jsonl' });
+      expect(escaped.content[0].text).toMatch(/outside the file root/);
+      await symlink(tmpdir(), join(root, 'link'));
+      expect((await handleImport(target, root)({ path: 'link/anything.jsonl' })).content[0].text).toMatch(/outside the file root/);
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('ingest', () => {
+  it('ingests a directory and validates categories against the taxonomy', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'agent-memory-ingest-tool-'));
+    try {
+      await writeFile(join(dir, 'setup.md'), '## Install\nRun pnpm install.');
+      await writeFile(join(dir, 'odd.md'), '---\ncategory: recipes\n---\nPancakes.');
+      const store = new MockMemoryStore();
+
+      const result = parseResult(await handleIngest(store, ['learning', 'other'])({ path: dir, category: 'learning' }));
+      expect(result).toMatchObject({ files: 2, created: 1 });
+      expect(result.failed[0].error).toMatch(/Unknown category "recipes"/);
+      expect(store.memories[0]).toMatchObject({ content: 'Install\n\nRun pnpm install.', category: 'learning' });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('errors on a missing path', async () => {
+    const result = await handleIngest(new MockMemoryStore())({ path: '/nonexistent/agent-memory' });
+    expect(result.isError).toBe(true);
+  });
+});
+
+describe('history / revert', () => {
+  let store: MockMemoryStore;
+
+  beforeEach(async () => {
+    store = new MockMemoryStore();
+    await store.store({ content: 'Good version', category: 'learning', tags: [] });
+  });
+
+  it('passes the update reason into history', async () => {
+    const id = store.memories[0].id;
+    await handleUpdate(store)({ id, content: 'Worse version', reason: 'experiment' });
+
+    const data = parseResult(await handleHistory(store)({ id }));
+    expect(data.count).toBe(1);
+    expect(data.revisions[0].content).toBe('Good version');
+    expect(data.revisions[0].reason).toBe('experiment');
+  });
+
+  it('reverts to a revision', async () => {
+    const id = store.memories[0].id;
+    await handleUpdate(store)({ id, content: 'Worse version' });
+    const [revision] = await store.history(id);
+
+    const result = await handleRevert(store)({ id, revision_id: revision.id });
+    expect(result.isError).toBeUndefined();
+    expect(parseResult(result).content).toBe('Good version');
+  });
+
+  it('errors on an unknown revision', async () => {
+    const result = await handleRevert(store)({ id: store.memories[0].id, revision_id: 'nope' });
+    expect(result.isError).toBe(true);
+  });
+});
+
+describe('trash', () => {
+  let store: MockMemoryStore;
+
+  beforeEach(async () => {
+    store = new MockMemoryStore();
+    await store.store({ content: 'Recoverable', category: 'learning', tags: [] });
+    await handleDelete(store)({ id: store.memories[0].id });
+  });
+
+  it('lists trashed memories', async () => {
+    const data = parseResult(await handleListTrash(store)({}));
+    expect(data.count).toBe(1);
+    expect(data.memories[0].content).toBe('Recoverable');
+  });
+
+  it('restores a trashed memory', async () => {
+    const id = store.trash[0].id;
+    const result = await handleRestore(store)({ id });
+
+    expect(result.isError).toBeUndefined();
+    expect(store.memories.map(m => m.id)).toEqual([id]);
+  });
+
+  it('empties the trash', async () => {
+    const data = parseResult(await handleEmptyTrash(store)({}));
+    expect(data.purged).toBe(1);
+    expect(store.trash).toHaveLength(0);
+  });
+
+  it('errors when restoring an unknown id', async () => {
+    const result = await handleRestore(store)({ id: 'nonexistent' });
+    expect(result.isError).toBe(true);
+  });
+});
+
+describe('link / unlink / get_graph', () => {
+  let store: MockMemoryStore;
+
+  beforeEach(async () => {
+    store = new MockMemoryStore();
+    await store.store({ content: 'New approach', category: 'architecture', tags: [] });
+    await store.store({ content: 'Old approach', category: 'architecture', tags: [] });
+  });
+
+  it('links memories and returns the graph', async () => {
+    const [a, b] = store.memories;
+    const link = parseResult(await handleLink(store)({ source_id: a.id, target_id: b.id, relation: 'supersedes' }));
+    expect(link.relation).toBe('supersedes');
+
+    const graph = parseResult(await handleGetGraph(store)({ memory_id: a.id }));
+    expect(graph.nodes).toHaveLength(2);
+    expect(graph.links).toHaveLength(1);
+  });
+
+  it('unlinks memories', async () => {
+    const [a, b] = store.memories;
+    await handleLink(store)({ source_id: a.id, target_id: b.id, relation: 'supersedes' });
+
+    const data = parseResult(await handleUnlink(store)({ source_id: a.id, target_id: b.id }));
+    expect(data.removed).toBe(1);
+  });
+
+  it('find_related can include links', async () => {
+    const [a, b] = store.memories;
+    await handleLink(store)({ source_id: a.id, target_id: b.id, relation: 'supersedes' });
+
+    const data = parseResult(await handleFindRelated(store)({ memory_id: a.id, include_links: true }));
+    expect(data.results[0].link.relation).toBe('supersedes');
+  });
+
+  it('errors when linking unknown memories', async () => {
+    const result = await handleLink(store)({ source_id: 'x', target_id: 'y', relation: 'explains' });
+    expect(result.isError).toBe(true);
+  });
+});